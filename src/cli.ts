@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * fetchguard-openapi - generate a typed FetchGuard client from an OpenAPI document
+ *
+ * Usage: fetchguard-openapi <spec.json|spec.yaml> [--out api.ts] [--import fetchguard] [--name createApi]
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { generateClient } from './codegen/openapi'
+import { loadOpenApiDocument } from './codegen/load'
+
+const USAGE = 'Usage: fetchguard-openapi <spec.json|spec.yaml> [--out <file>] [--import <module>] [--name <factory>]'
+
+interface CliArgs {
+  input?: string
+  out?: string
+  importFrom?: string
+  factoryName?: string
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {}
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    switch (arg) {
+      case '-o':
+      case '--out':
+        args.out = argv[++i]
+        break
+      case '--import':
+        args.importFrom = argv[++i]
+        break
+      case '--name':
+        args.factoryName = argv[++i]
+        break
+      case '-h':
+      case '--help':
+        console.log(USAGE)
+        process.exit(0)
+      default:
+        if (arg.startsWith('-') || args.input) throw new Error(`Unexpected argument: ${arg}`)
+        args.input = arg
+    }
+  }
+  return args
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2))
+  if (!args.input) throw new Error(USAGE)
+
+  const document = await loadOpenApiDocument(args.input)
+  const result = generateClient(document, { importFrom: args.importFrom, factoryName: args.factoryName })
+
+  if (args.out) {
+    await mkdir(dirname(args.out), { recursive: true })
+    await writeFile(args.out, result.code)
+    console.error(`Wrote ${args.out}`)
+  } else {
+    process.stdout.write(result.code)
+  }
+
+  for (const warning of result.warnings) {
+    console.error(`warning: ${warning}`)
+  }
+  if (result.allowedDomains.length > 0) {
+    console.error(`Suggested allowedDomains: ${JSON.stringify(result.allowedDomains)}`)
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : String(error))
+  process.exit(1)
+})
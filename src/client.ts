@@ -5,18 +5,46 @@ import type {
   FetchEnvelope,
   ProviderPresetConfig,
   AuthResult,
+  AuthCallOptions,
   DebugHooks,
   RetryConfig,
   NetworkErrorDetail,
+  HttpRetryDetail,
+  RetryContext,
   DedupeConfig,
-  RequestMetrics
+  RequestMetrics,
+  ArrayFormat,
+  AuthorizeOptions,
+  RefreshFailure,
+  StreamStart,
+  StreamResponse,
+  EventSourceOptions,
+  SseEvent,
+  SseError,
+  EnvelopeBody,
+  JsonRequestOptions,
+  OfflineQueueEvent
 } from './types'
-import type { MainToWorkerMessage } from './messages'
+import type { MainToWorkerMessage, ProgressPayload } from './messages'
 import { ok, err, type Result } from 'ts-micro-result'
 import { MSG } from './messages'
-import { DEFAULT_REFRESH_EARLY_MS } from './constants'
-import { RequestErrors } from './errors'
+import {
+  DEFAULT_REFRESH_EARLY_MS,
+  DEFAULT_RETRY_STATUSES,
+  DEFAULT_CIRCUIT_FAILURE_THRESHOLD,
+  DEFAULT_CIRCUIT_MINIMUM_REQUESTS,
+  DEFAULT_CIRCUIT_WINDOW_MS,
+  DEFAULT_CIRCUIT_OPEN_DURATION_MS
+} from './constants'
+import { RequestErrors, GeneralErrors } from './errors'
 import { serializeFormData, isFormData } from './utils/formdata'
+import { buildUrl, getOrigin } from './utils/url'
+import { isIdempotentMethod, getRetryAfterDelay } from './utils/http'
+import { createCircuitBreaker, type CircuitBreaker, type CircuitOutcome } from './utils/circuit-breaker'
+import { createRateLimiter, type RateLimiter } from './utils/rate-limit'
+import { decodeJson } from './helpers'
+import { readableFromPort } from './utils/stream'
+import { FetchGuardEventSource } from './event-source'
 
 /**
  * Request timing data for metrics calculation
@@ -53,11 +81,17 @@ const DEFAULT_SETUP_TIMEOUT = 10000
 /** Default request timeout (ms) */
 const DEFAULT_REQUEST_TIMEOUT = 30000
 
+/** Default auth call timeout (ms) */
+const DEFAULT_AUTH_CALL_TIMEOUT = 15000
+
 /**
  * FetchGuard Client - main interface cho việc gọi API thông qua Web Worker
  */
 export class FetchGuardClient {
-  private worker: Worker
+  /** Dedicated Worker, or this tab's MessagePort to the SharedWorker */
+  private worker: Worker | MessagePort
+  /** Set only in shared mode */
+  private sharedWorker?: SharedWorker
   private messageId = 0
   // Using unknown because different messages have different response types
   // (FetchEnvelope for FETCH, AuthResult for AUTH_CALL, etc.)
@@ -70,11 +104,18 @@ export class FetchGuardClient {
   /** Track request timing for metrics */
   private requestTimings = new Map<string, RequestTiming>()
   private authListeners = new Set<(state: AuthResult) => void>()
+  private crossTabLogoutListeners = new Set<() => void>()
+  private sessionExpiredListeners = new Set<(failure: RefreshFailure) => void>()
+  private refreshFailedListeners = new Set<(failure: RefreshFailure) => void>()
+  private offlineQueueListeners = new Set<(event: OfflineQueueEvent) => void>()
   private readyListeners = new Set<() => void>()
+  private eventSources = new Map<string, FetchGuardEventSource<string>>()
+  private progressListeners = new Map<string, Pick<FetchGuardRequestInit, 'onUploadProgress' | 'onDownloadProgress'>>()
   private isReady = false
 
   private requestQueue: QueueItem[] = []
-  private activeRequests = 0
+  /** Requests sent to the worker and holding a concurrency slot */
+  private activeRequests = new Map<string, QueueItem>()
   private readonly maxConcurrent: number
   private readonly maxQueueSize: number
   private readonly setupTimeout: number
@@ -84,10 +125,21 @@ export class FetchGuardClient {
   private readonly debug?: DebugHooks
   private readonly retry?: RetryConfig
   private readonly dedupe?: DedupeConfig
+  private readonly baseUrl?: string
+  private readonly paramsArrayFormat?: ArrayFormat
+  /** Per-origin circuit breaker (circuitBreaker option) */
+  private readonly circuitBreaker?: CircuitBreaker
+  /** Token buckets for queued requests (rateLimit option) */
+  private readonly rateLimiter?: RateLimiter
+  /** Wakes the queue when a rate-limited request may be sent */
+  private queueTimer?: ReturnType<typeof setTimeout>
+  /** visibilitychange handler (background refresh only) */
+  private visibilityListener?: () => void
+  private pagehideListener?: (event: PageTransitionEvent) => void
   /** In-flight requests for deduplication */
-  private readonly inFlightRequests = new Map<string, Promise<Result<FetchEnvelope>>>()
+  private readonly inFlightRequests = new Map<string, Promise<Result<FetchEnvelope<EnvelopeBody>>>>()
   /** Recent completed requests for time-window deduplication */
-  private readonly recentResults = new Map<string, { result: Result<FetchEnvelope>; timestamp: number }>()
+  private readonly recentResults = new Map<string, { result: Result<FetchEnvelope<EnvelopeBody>>; timestamp: number }>()
 
   constructor(options: FetchGuardOptions) {
     this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT
@@ -97,20 +149,83 @@ export class FetchGuardClient {
     this.debug = options.debug
     this.retry = options.retry
     this.dedupe = options.dedupe
+    this.baseUrl = options.baseUrl
+    this.paramsArrayFormat = options.paramsArrayFormat
+
+    const circuitBreaker = options.circuitBreaker === true ? {} : options.circuitBreaker || undefined
+    if (circuitBreaker && circuitBreaker.enabled !== false) {
+      this.circuitBreaker = createCircuitBreaker({
+        failureThreshold: circuitBreaker.failureThreshold ?? DEFAULT_CIRCUIT_FAILURE_THRESHOLD,
+        minimumRequests: circuitBreaker.minimumRequests ?? DEFAULT_CIRCUIT_MINIMUM_REQUESTS,
+        windowMs: circuitBreaker.windowMs ?? DEFAULT_CIRCUIT_WINDOW_MS,
+        openDuration: circuitBreaker.openDuration ?? DEFAULT_CIRCUIT_OPEN_DURATION_MS,
+        // Debug hook: onCircuitStateChange
+        onStateChange: (origin, state, previous) => this.debug?.onCircuitStateChange?.(origin, state, previous)
+      })
+    }
+
+    if (options.rateLimit) {
+      this.rateLimiter = createRateLimiter(Array.isArray(options.rateLimit) ? options.rateLimit : [options.rateLimit])
+    }
 
-    // Use custom worker factory if provided, otherwise use built-in worker
-    if (options.workerFactory) {
-      this.worker = options.workerFactory()
+    if (options.mode === 'shared' && typeof SharedWorker !== 'undefined') {
+      // Shared mode: one worker (and one token state) for all tabs of this origin
+      this.sharedWorker = options.sharedWorkerFactory
+        ? options.sharedWorkerFactory()
+        : new SharedWorker(new URL('./worker.js', import.meta.url), {
+            type: 'module',
+            name: 'fetchguard'
+          })
+      this.sharedWorker.onerror = this.handleWorkerError.bind(this)
+      this.worker = this.sharedWorker.port
+
+      // Tab going away without destroy() - release its port in the worker
+      if (typeof window !== 'undefined') {
+        this.pagehideListener = (event) => {
+          if (!event.persisted) {
+            this.worker.postMessage({ id: this.generateMessageId(), type: MSG.DISCONNECT })
+          }
+        }
+        window.addEventListener('pagehide', this.pagehideListener)
+      }
     } else {
-      this.worker = new Worker(new URL('./worker.js', import.meta.url), {
-        type: 'module'
-      })
+      // Dedicated mode (default, and fallback when SharedWorker is unavailable)
+      // Use custom worker factory if provided, otherwise use built-in worker
+      const worker = options.workerFactory
+        ? options.workerFactory()
+        : new Worker(new URL('./worker.js', import.meta.url), {
+            type: 'module'
+          })
+      worker.onerror = this.handleWorkerError.bind(this)
+      this.worker = worker
     }
 
+    // Setting onmessage also starts the port in shared mode
     this.worker.onmessage = this.handleWorkerMessage.bind(this)
-    this.worker.onerror = this.handleWorkerError.bind(this)
 
     this.initializeWorker(options)
+
+    if (options.backgroundRefresh) {
+      this.watchVisibility()
+    }
+  }
+
+  /**
+   * Report page visibility to worker (background refresh pauses while hidden)
+   */
+  private watchVisibility(): void {
+    if (typeof document === 'undefined') return
+
+    this.visibilityListener = () => {
+      this.worker.postMessage({
+        id: this.generateMessageId(),
+        type: MSG.VISIBILITY,
+        payload: { hidden: document.visibilityState === 'hidden' }
+      })
+    }
+    document.addEventListener('visibilitychange', this.visibilityListener)
+    // Initial state (sent after SETUP)
+    this.visibilityListener()
   }
 
   /**
@@ -120,7 +235,12 @@ export class FetchGuardClient {
     const config: WorkerConfig = {
       allowedDomains: options.allowedDomains || [],
       refreshEarlyMs: options.refreshEarlyMs ?? DEFAULT_REFRESH_EARLY_MS,
-      defaultHeaders: options.defaultHeaders || {}
+      defaultHeaders: options.defaultHeaders || {},
+      unauthorizedRecovery: options.unauthorizedRecovery,
+      crossTabSync: options.crossTabSync,
+      backgroundRefresh: options.backgroundRefresh === true ? {} : options.backgroundRefresh || undefined,
+      cache: options.cache === true ? {} : options.cache || undefined,
+      offlineQueue: options.offlineQueue === true ? {} : options.offlineQueue || undefined
     }
 
     // Serialize provider config based on type
@@ -185,17 +305,64 @@ export class FetchGuardClient {
       this.pendingRequests.delete(id)
       this.requestUrls.delete(id)
       this.requestTimings.delete(id)
-      this.onRequestComplete()
+      this.progressListeners.delete(id)
+      this.onRequestComplete(id)
 
       // Calculate metrics
       const metrics = this.calculateMetrics(timing)
 
       // Debug hook: onResponse
       if (this.debug?.onResponse && url) {
-        this.debug.onResponse(url, payload as FetchEnvelope, metrics)
+        this.debug.onResponse(url, payload as FetchEnvelope<EnvelopeBody>, metrics)
       }
 
-      request.resolve(ok(payload as FetchEnvelope))
+      request.resolve(ok(payload as FetchEnvelope<EnvelopeBody>))
+      return
+    }
+
+    if (type === MSG.STREAM_START) {
+      // Headers received - body continues on the stream port, release queue slot now
+      const request = this.pendingRequests.get(id)
+      if (!request) return
+
+      this.pendingRequests.delete(id)
+      this.requestUrls.delete(id)
+      this.requestTimings.delete(id)
+      this.progressListeners.delete(id)
+      this.onRequestComplete(id)
+
+      request.resolve(ok(payload as StreamStart))
+      return
+    }
+
+    if (type === MSG.PROGRESS) {
+      const { direction, ...progress } = payload as ProgressPayload
+      const listeners = this.progressListeners.get(id)
+      if (direction === 'upload') {
+        listeners?.onUploadProgress?.(progress)
+      } else {
+        listeners?.onDownloadProgress?.(progress)
+      }
+      return
+    }
+
+    if (type === MSG.SSE_OPEN) {
+      this.eventSources.get(id)?.handleOpen()
+      return
+    }
+
+    if (type === MSG.SSE_EVENT) {
+      this.eventSources.get(id)?.handleEvent(payload as SseEvent)
+      return
+    }
+
+    if (type === MSG.SSE_ERROR) {
+      const source = this.eventSources.get(id)
+      if (!source) return
+      if ((payload as SseError).reconnectIn === undefined) {
+        this.eventSources.delete(id)
+      }
+      source.handleError(payload as SseError)
       return
     }
 
@@ -209,30 +376,48 @@ export class FetchGuardClient {
       this.pendingRequests.delete(id)
       this.requestUrls.delete(id)
       this.requestTimings.delete(id)
-      this.onRequestComplete()
+      this.progressListeners.delete(id)
+      this.onRequestComplete(id)
 
       const errorMessage = String(payload?.error || 'Network error')
+      // Worker aborted at the request deadline
+      const timedOut = payload?.timedOut === true
 
       // Calculate metrics
       const metrics = this.calculateMetrics(timing)
 
       // Debug hook: onError
       if (this.debug?.onError && url) {
-        this.debug.onError(url, { code: 'NETWORK_ERROR', message: errorMessage }, metrics)
+        this.debug.onError(url, { code: timedOut ? 'REQUEST_TIMEOUT' : 'NETWORK_ERROR', message: errorMessage }, metrics)
       }
 
       request.resolve(err(
-        RequestErrors.NetworkError({ message: errorMessage })
+        timedOut ? RequestErrors.Timeout() : RequestErrors.NetworkError({ message: errorMessage })
       ))
       return
     }
 
+    if (type === MSG.FETCH_QUEUED) {
+      // Mutation stored by the worker, replayed when back online (see onOfflineQueue)
+      const request = this.pendingRequests.get(id)
+      if (!request) return
+
+      this.pendingRequests.delete(id)
+      this.requestUrls.delete(id)
+      this.requestTimings.delete(id)
+      this.progressListeners.delete(id)
+      this.onRequestComplete(id)
+
+      request.resolve(err(RequestErrors.Queued(), { params: { queueId: payload.queueId } }))
+      return
+    }
+
     if (type === MSG.ERROR) {
       const request = this.pendingRequests.get(id)
       if (!request) return
 
       this.pendingRequests.delete(id)
-      this.onRequestComplete()
+      this.onRequestComplete(id)
 
       request.resolve(err(payload.errors, payload.meta))
       return
@@ -271,7 +456,7 @@ export class FetchGuardClient {
       const request = this.pendingRequests.get(id)
       if (request) {
         this.pendingRequests.delete(id)
-        this.onRequestComplete()
+        this.onRequestComplete(id)
         request.resolve(ok({ timestamp: payload?.timestamp }))
       }
       return
@@ -286,7 +471,7 @@ export class FetchGuardClient {
       const request = this.pendingRequests.get(id)
       if (request) {
         this.pendingRequests.delete(id)
-        this.onRequestComplete()
+        this.onRequestComplete(id)
         request.resolve(ok(payload)) // payload is AuthResult
       }
       return
@@ -297,6 +482,32 @@ export class FetchGuardClient {
       this.debug?.onRefresh?.(payload?.reason)
       return
     }
+
+    if (type === MSG.CROSS_TAB_LOGOUT) {
+      for (const cb of this.crossTabLogoutListeners) cb()
+      return
+    }
+
+    if (type === MSG.REFRESH_FAILED) {
+      for (const cb of this.refreshFailedListeners) cb(payload)
+      return
+    }
+
+    if (type === MSG.SESSION_EXPIRED) {
+      for (const cb of this.sessionExpiredListeners) cb(payload)
+      return
+    }
+
+    if (type === MSG.OFFLINE_QUEUE) {
+      for (const cb of this.offlineQueueListeners) cb(payload)
+      return
+    }
+
+    if (type === MSG.CLOCK_SKEW) {
+      // Debug hook: onClockSkew
+      this.debug?.onClockSkew?.(payload?.skewMs)
+      return
+    }
   }
 
   /**
@@ -312,6 +523,8 @@ export class FetchGuardClient {
     for (const [id, request] of this.pendingRequests) {
       request.reject(new Error(`Worker error: ${error.message}`))
     }
+    this.eventSources.clear()
+    this.progressListeners.clear()
     this.pendingRequests.clear()
     this.requestUrls.clear()
     this.requestTimings.clear()
@@ -324,11 +537,30 @@ export class FetchGuardClient {
     return `msg_${++this.messageId}_${Date.now()}`
   }
 
+  /**
+   * Resolve request URL (baseUrl + path + params) to an absolute URL
+   * Strips URL-building options so they are not sent to worker
+   */
+  private resolveRequest<T extends FetchGuardRequestInit>(
+    url: string,
+    options: T
+  ): { url: string; options: Omit<T, 'baseUrl' | 'params' | 'paramsArrayFormat'> } {
+    const { baseUrl, params, paramsArrayFormat, ...restOptions } = options
+    return {
+      url: buildUrl(url, {
+        baseUrl: baseUrl ?? this.baseUrl,
+        params,
+        arrayFormat: paramsArrayFormat ?? this.paramsArrayFormat
+      }),
+      options: restOptions
+    }
+  }
+
   /**
    * Make API request with optional deduplication, retry, and AbortSignal support
    *
-   * @param url - Full URL to fetch
-   * @param options - Request options including optional AbortSignal
+   * @param url - Absolute URL, or path relative to baseUrl
+   * @param options - Request options including optional AbortSignal and query params
    * @returns Result with FetchEnvelope on success, error on failure
    *
    * @example
@@ -336,10 +568,24 @@ export class FetchGuardClient {
    * const controller = new AbortController()
    * setTimeout(() => controller.abort(), 5000)
    * const result = await api.fetch('/slow', { signal: controller.signal })
+   *
+   * // With query params (resolved against baseUrl)
+   * const result = await api.fetch('/users', { params: { page: 2, role: ['admin', 'owner'] } })
+   *
+   * // Binary body as transferred ArrayBuffer, with download progress
+   * const file = await api.fetch('/files/42', {
+   *   responseType: 'arraybuffer',
+   *   onDownloadProgress: ({ loaded, total }) => console.log(loaded, total)
+   * })
    */
-  async fetch(url: string, options: FetchGuardRequestInit = {}): Promise<Result<FetchEnvelope>> {
+  fetch(input: string, options: FetchGuardRequestInit & { responseType: 'arraybuffer' }): Promise<Result<FetchEnvelope<ArrayBuffer>>>
+  fetch(input: string, options: FetchGuardRequestInit & { responseType: 'blob' }): Promise<Result<FetchEnvelope<Blob>>>
+  fetch(input: string, options?: FetchGuardRequestInit): Promise<Result<FetchEnvelope>>
+  async fetch(input: string, options: FetchGuardRequestInit = {}): Promise<Result<FetchEnvelope<EnvelopeBody>>> {
+    // Resolve URL first so dedupe keys, debug hooks and worker all see the absolute URL
+    const { url, options: resolvedOptions } = this.resolveRequest(input, options)
     // Extract signal from options (not passed to worker - handled client-side)
-    const { signal, ...restOptions } = options
+    const { signal, ...restOptions } = resolvedOptions
 
     // Check if already aborted
     if (signal?.aborted) {
@@ -394,10 +640,10 @@ export class FetchGuardClient {
    * Wrap a promise with AbortSignal support
    */
   private wrapWithAbortSignal(
-    promise: Promise<Result<FetchEnvelope>>,
+    promise: Promise<Result<FetchEnvelope<EnvelopeBody>>>,
     signal: AbortSignal,
     requestId: string | null
-  ): Promise<Result<FetchEnvelope>> {
+  ): Promise<Result<FetchEnvelope<EnvelopeBody>>> {
     return new Promise((resolve) => {
       // Handle abort
       const abortHandler = () => {
@@ -423,20 +669,35 @@ export class FetchGuardClient {
 
   /**
    * Fetch with retry logic and AbortSignal support (internal)
+   *
+   * Retries transport errors, and with retryOnStatus also matching HTTP
+   * responses (idempotent methods only unless retryNonIdempotent).
+   * Each attempt gets its own deadline (timeout); only signal bounds all attempts.
    */
   private async fetchWithRetryAndSignal(
     url: string,
-    options: Omit<FetchGuardRequestInit, 'signal'>,
+    requestOptions: Omit<FetchGuardRequestInit, 'signal'>,
     signal?: AbortSignal
-  ): Promise<Result<FetchEnvelope>> {
-    const maxAttempts = this.retry?.maxAttempts ?? 0
-    const delay = this.retry?.delay ?? 1000
-    const backoff = this.retry?.backoff ?? 1
-    const maxDelay = this.retry?.maxDelay ?? 30000
-    const jitter = this.retry?.jitter ?? 0
-    const shouldRetry = this.retry?.shouldRetry ?? this.defaultShouldRetry
-
-    let lastResult: Result<FetchEnvelope> | null = null
+  ): Promise<Result<FetchEnvelope<EnvelopeBody>>> {
+    // Per-request retry replaces client retry config
+    const { retry: retryOverride, ...options } = requestOptions
+    const retry = retryOverride === false ? undefined : retryOverride ?? this.retry
+    const maxAttempts = retry?.maxAttempts ?? 0
+    const delay = retry?.delay ?? 1000
+    const backoff = retry?.backoff ?? 1
+    const maxDelay = retry?.maxDelay ?? 30000
+    const jitter = retry?.jitter ?? 0
+    const shouldRetry = retry?.shouldRetry ?? this.defaultShouldRetry
+    const method = (options.method ?? 'GET').toUpperCase()
+
+    const retryStatuses = retry?.retryOnStatus === true ? DEFAULT_RETRY_STATUSES : retry?.retryOnStatus || []
+    const statusRetry = maxAttempts > 0 && retryStatuses.length > 0
+      && (retry?.retryNonIdempotent === true || isIdempotentMethod(method))
+    // Retry-After / RateLimit-Reset are needed even if the caller didn't ask for headers
+    const requestHeaders = statusRetry && !options.includeHeaders
+    const sendOptions = requestHeaders ? { ...options, includeHeaders: true } : options
+
+    let lastResult: Result<FetchEnvelope<EnvelopeBody>> | null = null
     let currentDelay = delay
 
     // Initial attempt + retries
@@ -446,7 +707,7 @@ export class FetchGuardClient {
         return err(RequestErrors.Cancelled())
       }
 
-      const { id, result } = this.fetchWithId(url, options)
+      const { id, result } = this.fetchWithId(url, sendOptions)
 
       // If we have a signal, wrap result with abort support
       if (signal) {
@@ -455,43 +716,61 @@ export class FetchGuardClient {
         lastResult = await result
       }
 
-      // Success or HTTP error (4xx/5xx) - don't retry
+      let errorDetail: NetworkErrorDetail | HttpRetryDetail
+      let context: RetryContext
+
       if (lastResult.ok) {
-        return lastResult
-      }
+        const envelope = lastResult.data
+        if (requestHeaders) {
+          lastResult = ok({ ...envelope, headers: {} })
+        }
 
-      // Check if cancelled
-      if (lastResult.errors[0]?.code === 'REQUEST_CANCELLED') {
-        return lastResult
-      }
+        // HTTP response - only retried when its status is opted in
+        if (!statusRetry || !retryStatuses.includes(envelope.status)) {
+          return lastResult
+        }
 
-      // Check if we should retry this error
-      const error = lastResult.errors[0]
-      const errorDetail: NetworkErrorDetail = {
-        code: error?.code as NetworkErrorDetail['code'] ?? 'NETWORK_ERROR',
-        message: error?.message ?? 'Unknown error'
+        const retryAfter = getRetryAfterDelay(envelope.headers)
+        // Server asks for a longer wait than we are willing to take
+        if (retryAfter !== undefined && retryAfter > maxDelay) {
+          return lastResult
+        }
+
+        errorDetail = { code: 'HTTP_ERROR', message: `HTTP ${envelope.status}`, status: envelope.status }
+        context = { attempt: attempt + 1, method, status: envelope.status, retryAfter }
+      } else {
+        // Check if cancelled
+        if (lastResult.errors[0]?.code === 'REQUEST_CANCELLED') {
+          return lastResult
+        }
+
+        const error = lastResult.errors[0]
+        errorDetail = {
+          code: error?.code as NetworkErrorDetail['code'] ?? 'NETWORK_ERROR',
+          message: error?.message ?? 'Unknown error'
+        }
+        context = { attempt: attempt + 1, method }
       }
 
       // Don't retry if:
       // - This was the last attempt
       // - Error is not retryable (e.g., cancelled)
-      if (attempt >= maxAttempts || !shouldRetry(errorDetail)) {
+      if (attempt >= maxAttempts || !shouldRetry(errorDetail, context)) {
         return lastResult
       }
 
-      // Wait before retry (with exponential backoff and optional jitter)
-      // Jitter only applies when shouldRetry=true (we're actually retrying)
-      const cappedDelay = Math.min(currentDelay, maxDelay)
-      const jitteredDelay = this.applyJitter(cappedDelay, jitter)
+      // Wait before retry: server delay as given, otherwise exponential backoff
+      // with optional jitter (only applies when we're actually retrying)
+      const waitDelay = context.retryAfter ?? this.applyJitter(Math.min(currentDelay, maxDelay), jitter)
 
       // Check abort during delay
       if (signal) {
-        const aborted = await this.sleepWithAbort(jitteredDelay, signal)
+        const aborted = await this.sleepWithAbort(waitDelay, signal)
         if (aborted) {
           return err(RequestErrors.Cancelled())
         }
       } else {
-        await this.sleep(jitteredDelay)
+        await this.sleep(waitDelay)
       }
 
       currentDelay = currentDelay * backoff
@@ -541,11 +820,11 @@ export class FetchGuardClient {
   }
 
   /**
-   * Default retry condition - only retry on NETWORK_ERROR
+   * Default retry condition - NETWORK_ERROR and statuses matched by retryOnStatus
    */
-  private defaultShouldRetry(error: NetworkErrorDetail): boolean {
+  private defaultShouldRetry(error: NetworkErrorDetail | HttpRetryDetail): boolean {
     // Don't retry cancelled requests or parse errors
-    return error.code === 'NETWORK_ERROR'
+    return error.code === 'NETWORK_ERROR' || error.code === 'HTTP_ERROR'
   }
 
   /**
@@ -606,16 +885,39 @@ export class FetchGuardClient {
    * Fetch with id for external cancellation
    * Returns { id, result, cancel }
    * Now uses queue system for sequential processing
+   * Fails fast with CIRCUIT_OPEN (without queueing) while the origin's circuit is open
+   *
+   * The deadline (timeout ?? requestTimeout) starts now and covers queue wait and network:
+   * QUEUE_TIMEOUT if the request never left the queue, otherwise REQUEST_TIMEOUT and the
+   * worker aborts the fetch.
    */
-  fetchWithId(url: string, options: FetchGuardRequestInit = {}): {
+  fetchWithId(input: string, requestOptions: FetchGuardRequestInit = {}): {
     id: string
     result: Promise<Result<FetchEnvelope>>
     cancel: () => void
   } {
     const id = this.generateMessageId()
+    const { url, options: resolvedOptions } = this.resolveRequest(input, requestOptions)
+    // Callbacks stay in main thread - worker only reports progress for this id
+    const { onUploadProgress, onDownloadProgress, timeout, retry: _, ...options } = resolvedOptions
+    const deadline = Date.now() + (timeout ?? this.requestTimeout)
+
+    const origin = getOrigin(url)
+    const permit = this.circuitBreaker?.acquire(origin)
+    if (permit && !permit.allowed) {
+      return {
+        id,
+        result: Promise.resolve(err(RequestErrors.CircuitOpen({ origin }), { params: { origin, retryIn: permit.retryIn } })),
+        cancel: () => {}
+      }
+    }
+
+    // Adaptive rate limits read response headers even if the caller didn't ask for them
+    const observeLimits = this.rateLimiter?.isAdaptive(url) === true
+    const addHeaders = observeLimits && !options.includeHeaders
 
     // Serialize FormData if present (async operation)
-    const result = new Promise<Result<FetchEnvelope>>(async (resolve, reject) => {
+    let result = new Promise<Result<FetchEnvelope>>(async (resolve, reject) => {
       this.pendingRequests.set(id, {
         resolve: (response) => resolve(response as Result<FetchEnvelope>),
         reject: (error) => reject(error)
@@ -624,57 +926,262 @@ export class FetchGuardClient {
       this.requestUrls.set(id, url)
       // Track timing for metrics
       this.requestTimings.set(id, { createdAt: Date.now() })
+      if (onUploadProgress || onDownloadProgress) {
+        this.progressListeners.set(id, { onUploadProgress, onDownloadProgress })
+      }
 
       // Debug hook: onRequest
       this.debug?.onRequest?.(url, options)
 
       try {
-        let serializedOptions = { ...options }
-        let transferables: Transferable[] | undefined
-
-        // Serialize FormData body before sending to worker
-        if (options.body && isFormData(options.body)) {
-          const { data, transferables: formDataTransferables } = await serializeFormData(options.body)
-          // SerializedFormData will be deserialized back to FormData in worker
-          serializedOptions.body = data as unknown as BodyInit
-          // ArrayBuffers for zero-copy transfer
-          if (formDataTransferables.length > 0) {
-            transferables = formDataTransferables
+        const { options: serializedOptions, transferables } = await this.serializeOptions(
+          addHeaders ? { ...options, includeHeaders: true } : options
+        )
+        // Cancelled while serializing
+        if (!this.pendingRequests.has(id)) return
+
+        const message = {
+          id,
+          type: MSG.FETCH,
+          payload: {
+            url,
+            options: serializedOptions,
+            reportUploadProgress: !!onUploadProgress,
+            reportDownloadProgress: !!onDownloadProgress,
+            deadline
           }
         }
 
-        // Serialize Headers object to plain object (Headers cannot be cloned)
-        if (options.headers) {
-          if (options.headers instanceof Headers) {
-            const plainHeaders: Record<string, string> = {}
-            options.headers.forEach((value, key) => {
-              plainHeaders[key] = value
-            })
-            serializedOptions.headers = plainHeaders
-          }
-        }
-
-        const message = { id, type: MSG.FETCH, payload: { url, options: serializedOptions } }
-
-        await this.sendMessageQueued(message, 30000, transferables)
+        await this.sendMessageQueued(message, deadline - Date.now(), transferables)
       } catch (error) {
         const request = this.pendingRequests.get(id)
         if (request) {
           this.pendingRequests.delete(id)
           this.requestUrls.delete(id)
           this.requestTimings.delete(id)
-          request.reject(error instanceof Error ? error : new Error(String(error)))
+          this.progressListeners.delete(id)
+          // sendMessageQueued rejects with err() results (QueueFull, QueueTimeout, Timeout)
+          if ((error as Result<never>)?.ok === false) {
+            request.resolve(error)
+          } else {
+            request.reject(error instanceof Error ? error : new Error(String(error)))
+          }
         }
       }
     })
 
+    if (observeLimits) {
+      result = result.then((response) => {
+        if (!response.ok) return response
+        this.rateLimiter?.observe(url, response.data.status, response.data.headers)
+        return addHeaders ? ok({ ...response.data, headers: {} }) : response
+      })
+    }
+
+    if (permit) {
+      result.then(
+        (response) => this.circuitBreaker?.record(origin, this.getCircuitOutcome(response), permit.probe),
+        () => this.circuitBreaker?.record(origin, 'ignored', permit.probe)
+      )
+    }
+
     const cancel = () => this.cancel(id)
 
     return { id, result, cancel }
   }
 
+  /**
+   * Classify request result for the circuit breaker
+   * Network errors, timeouts and 5xx count against the origin
+   */
+  private getCircuitOutcome(result: Result<FetchEnvelope>): CircuitOutcome {
+    if (result.ok) {
+      return result.data.status >= 500 ? 'failure' : 'success'
+    }
+    const code = result.errors[0]?.code
+    return code === 'NETWORK_ERROR' || code === 'REQUEST_TIMEOUT' ? 'failure' : 'ignored'
+  }
+
+  /**
+   * Serialize request options for postMessage
+   * FormData → SerializedFormData (ArrayBuffers transferred), Headers → plain object
+   */
+  private async serializeOptions(options: FetchGuardRequestInit): Promise<{
+    options: FetchGuardRequestInit
+    transferables?: Transferable[]
+  }> {
+    const serializedOptions = { ...options }
+    let transferables: Transferable[] | undefined
+
+    // Serialize FormData body before sending to worker
+    if (options.body && isFormData(options.body)) {
+      const { data, transferables: formDataTransferables } = await serializeFormData(options.body)
+      // SerializedFormData will be deserialized back to FormData in worker
+      serializedOptions.body = data as unknown as BodyInit
+      // ArrayBuffers for zero-copy transfer
+      if (formDataTransferables.length > 0) {
+        transferables = formDataTransferables
+      }
+    }
+
+    // Serialize Headers object to plain object (Headers cannot be cloned)
+    if (options.headers) {
+      if (options.headers instanceof Headers) {
+        const plainHeaders: Record<string, string> = {}
+        options.headers.forEach((value, key) => {
+          plainHeaders[key] = value
+        })
+        serializedOptions.headers = plainHeaders
+      }
+    }
+
+    return { options: serializedOptions, transferables }
+  }
+
+  /**
+   * Stream response body from worker
+   *
+   * Auth (token injection, refresh, 401 replay) happens in the worker as for fetch().
+   * Resolves once response headers arrive; body chunks are pulled over a dedicated
+   * MessageChannel on demand, so a slow reader applies backpressure to the network.
+   * Cancelling the body (or aborting `signal`) aborts the request in the worker.
+   *
+   * Streams take a queue slot only until headers arrive, and the timeout covers only that
+   * part (reading the body has no deadline). Dedupe and retry do not apply.
+   * Progress callbacks and responseType do not apply - read `body` directly.
+   *
+   * @example
+   * const result = await api.fetchStream('/export.ndjson')
+   * if (result.ok) {
+   *   const reader = result.data.body.pipeThrough(new TextDecoderStream()).getReader()
+   *   for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+   *     console.log(chunk.value)
+   *   }
+   * }
+   */
+  async fetchStream(
+    input: string,
+    requestOptions: Omit<FetchGuardRequestInit, 'onUploadProgress' | 'onDownloadProgress' | 'responseType'> = {}
+  ): Promise<Result<StreamResponse>> {
+    const id = this.generateMessageId()
+    const { url, options: resolvedOptions } = this.resolveRequest(input, requestOptions)
+    // Signal, timeout and retry are handled client-side (not cloneable)
+    const { signal, timeout, retry: _, ...options } = resolvedOptions
+    const deadline = Date.now() + (timeout ?? this.requestTimeout)
+
+    if (signal?.aborted) {
+      return err(RequestErrors.Cancelled())
+    }
+
+    const channel = new MessageChannel()
+    const cancelInWorker = () => this.worker.postMessage({ id, type: MSG.CANCEL })
+
+    return new Promise<Result<StreamResponse>>(async (resolve) => {
+      const abortHandler = () => this.cancel(id)
+      const settle = (result: Result<StreamResponse>) => {
+        signal?.removeEventListener('abort', abortHandler)
+        if (!result.ok) {
+          channel.port1.close()
+        }
+        resolve(result)
+      }
+
+      this.pendingRequests.set(id, {
+        resolve: (response) => {
+          const result = response as Result<StreamStart>
+          if (!result.ok) {
+            settle(result as Result<never>)
+            return
+          }
+          settle(ok({
+            ...result.data,
+            body: readableFromPort(channel.port1, cancelInWorker, signal)
+          }))
+        },
+        // Only cancel() rejects pending requests
+        reject: () => settle(err(RequestErrors.Cancelled()))
+      })
+      this.requestUrls.set(id, url)
+      this.requestTimings.set(id, { createdAt: Date.now() })
+      signal?.addEventListener('abort', abortHandler, { once: true })
+
+      // Debug hook: onRequest
+      this.debug?.onRequest?.(url, options)
+
+      try {
+        const { options: serializedOptions, transferables } = await this.serializeOptions(options)
+        // Aborted while serializing
+        if (!this.pendingRequests.has(id)) return
+
+        const message = {
+          id,
+          type: MSG.FETCH_STREAM,
+          payload: { url, options: serializedOptions, port: channel.port2, deadline }
+        }
+
+        await this.sendMessageQueued(message, deadline - Date.now(), [...(transferables ?? []), channel.port2])
+      } catch (error) {
+        // Queue full or timed out before headers arrived (stream already started otherwise)
+        if (!this.pendingRequests.has(id)) return
+        this.pendingRequests.delete(id)
+        this.requestUrls.delete(id)
+        this.requestTimings.delete(id)
+        this.progressListeners.delete(id)
+        cancelInWorker()
+        // sendMessageQueued rejects with err() results (QueueFull, QueueTimeout, Timeout)
+        settle((error as Result<never>)?.ok === false
+          ? error as Result<never>
+          : err(GeneralErrors.Unexpected({ message: error instanceof Error ? error.message : String(error) })))
+      }
+    })
+  }
+
+  /**
+   * Open authenticated Server-Sent Events stream
+   *
+   * Unlike `EventSource`, the request carries the Authorization header (the token never
+   * goes into the URL). The worker parses the stream, honours `retry:` and resends
+   * `Last-Event-ID` on reconnect, refreshing the token first if it expired meanwhile.
+   *
+   * The connection does not use the request queue - call `close()` when done.
+   *
+   * @example
+   * const feed = api.eventSource<'notification'>('/notifications/stream')
+   * feed.on('notification', (event) => show(JSON.parse(event.data)))
+   * feed.onError((error) => {
+   *   if (error.reconnectIn === undefined) console.warn('Feed closed:', error.message)
+   * })
+   * // later
+   * feed.close()
+   */
+  eventSource<TEventType extends string = string>(
+    input: string,
+    options: EventSourceOptions = {}
+  ): FetchGuardEventSource<TEventType> {
+    const id = this.generateMessageId()
+    const { url, options: resolvedOptions } = this.resolveRequest(input, options)
+    const { signal, ...workerOptions } = resolvedOptions
+
+    const source = new FetchGuardEventSource<TEventType>(id, url, () => {
+      this.eventSources.delete(id)
+      this.worker.postMessage({ id, type: MSG.CANCEL })
+    })
+
+    if (signal?.aborted) {
+      source.close()
+      return source
+    }
+    signal?.addEventListener('abort', () => source.close(), { once: true })
+
+    this.eventSources.set(id, source)
+    this.worker.postMessage({ id, type: MSG.EVENT_SOURCE, payload: { url, options: workerOptions } })
+
+    return source
+  }
+
   /**
    * Cancel a pending request by ID
+   * Still queued: dropped from the queue. Sent: aborted in the worker and its slot freed.
    */
   cancel(id: string): void {
     const request = this.pendingRequests.get(id)
@@ -684,7 +1191,8 @@ export class FetchGuardClient {
       this.pendingRequests.delete(id)
       this.requestUrls.delete(id)
       this.requestTimings.delete(id)
-      this.worker.postMessage({ id, type: MSG.CANCEL })
+      this.progressListeners.delete(id)
+      this.abandonRequest(id)
 
       // Calculate metrics
       const metrics = this.calculateMetrics(timing)
@@ -701,11 +1209,14 @@ export class FetchGuardClient {
   /**
    * Convenience methods
    */
-  async get(url: string, options: Omit<FetchGuardRequestInit, 'method' | 'body'> = {}): Promise<Result<FetchEnvelope>> {
-    return this.fetch(url, { ...options, method: 'GET' })
+  get(url: string, options: Omit<FetchGuardRequestInit, 'method' | 'body'> & { responseType: 'arraybuffer' }): Promise<Result<FetchEnvelope<ArrayBuffer>>>
+  get(url: string, options: Omit<FetchGuardRequestInit, 'method' | 'body'> & { responseType: 'blob' }): Promise<Result<FetchEnvelope<Blob>>>
+  get(url: string, options?: Omit<FetchGuardRequestInit, 'method' | 'body'>): Promise<Result<FetchEnvelope>>
+  async get(url: string, options: Omit<FetchGuardRequestInit, 'method' | 'body'> = {}): Promise<Result<FetchEnvelope<EnvelopeBody>>> {
+    return this.fetch(url, { ...options, method: 'GET' } as FetchGuardRequestInit)
   }
 
-  async post(url: string, body?: unknown, options: Omit<FetchGuardRequestInit, 'method' | 'body'> = {}): Promise<Result<FetchEnvelope>> {
+  async post(url: string, body?: unknown, options: Omit<FetchGuardRequestInit, 'method' | 'body' | 'responseType'> = {}): Promise<Result<FetchEnvelope>> {
     // If body is FormData, use fetch directly (no JSON.stringify)
     if (body && isFormData(body)) {
       return this.fetch(url, {
@@ -731,7 +1242,7 @@ export class FetchGuardClient {
     })
   }
 
-  async put(url: string, body?: unknown, options: Omit<FetchGuardRequestInit, 'method' | 'body'> = {}): Promise<Result<FetchEnvelope>> {
+  async put(url: string, body?: unknown, options: Omit<FetchGuardRequestInit, 'method' | 'body' | 'responseType'> = {}): Promise<Result<FetchEnvelope>> {
     // If body is FormData, use fetch directly (no JSON.stringify)
     if (body && isFormData(body)) {
       return this.fetch(url, {
@@ -757,11 +1268,11 @@ export class FetchGuardClient {
     })
   }
 
-  async delete(url: string, options: Omit<FetchGuardRequestInit, 'method' | 'body'> = {}): Promise<Result<FetchEnvelope>> {
+  async delete(url: string, options: Omit<FetchGuardRequestInit, 'method' | 'body' | 'responseType'> = {}): Promise<Result<FetchEnvelope>> {
     return this.fetch(url, { ...options, method: 'DELETE' })
   }
 
-  async patch(url: string, body?: unknown, options: Omit<FetchGuardRequestInit, 'method' | 'body'> = {}): Promise<Result<FetchEnvelope>> {
+  async patch(url: string, body?: unknown, options: Omit<FetchGuardRequestInit, 'method' | 'body' | 'responseType'> = {}): Promise<Result<FetchEnvelope>> {
     // If body is FormData, use fetch directly (no JSON.stringify)
     if (body && isFormData(body)) {
       return this.fetch(url, {
@@ -787,28 +1298,94 @@ export class FetchGuardClient {
     })
   }
 
+  /**
+   * Typed JSON methods - decode response with decodeJson()
+   *
+   * 2xx bodies are validated with `schema`, error bodies with `errorSchema`.
+   * Non-2xx statuses become HTTP_ERROR results (`meta.params: { status, body }`).
+   *
+   * @example
+   * const User = z.object({ id: z.string(), name: z.string() })
+   * const ApiError = z.object({ message: z.string() })
+   *
+   * const result = await api.getJson('/me', { schema: User, errorSchema: ApiError })
+   * if (result.ok) {
+   *   console.log(result.data.name)
+   * } else if (result.errors[0]?.code === ERROR_CODES.HTTP_ERROR) {
+   *   const { body } = result.meta?.params as HttpErrorParams<z.infer<typeof ApiError>>
+   *   toast.error(body.message)
+   * }
+   */
+  async getJson<T = unknown, E = unknown>(url: string, options: JsonRequestOptions<T, E> = {}): Promise<Result<T>> {
+    const { schema, errorSchema, ...requestOptions } = options
+    return decodeJson(await this.get(url, requestOptions), { schema, errorSchema })
+  }
+
+  async postJson<T = unknown, E = unknown>(url: string, body?: unknown, options: JsonRequestOptions<T, E> = {}): Promise<Result<T>> {
+    const { schema, errorSchema, ...requestOptions } = options
+    return decodeJson(await this.post(url, body, requestOptions), { schema, errorSchema })
+  }
+
+  async putJson<T = unknown, E = unknown>(url: string, body?: unknown, options: JsonRequestOptions<T, E> = {}): Promise<Result<T>> {
+    const { schema, errorSchema, ...requestOptions } = options
+    return decodeJson(await this.put(url, body, requestOptions), { schema, errorSchema })
+  }
+
+  async patchJson<T = unknown, E = unknown>(url: string, body?: unknown, options: JsonRequestOptions<T, E> = {}): Promise<Result<T>> {
+    const { schema, errorSchema, ...requestOptions } = options
+    return decodeJson(await this.patch(url, body, requestOptions), { schema, errorSchema })
+  }
+
+  async deleteJson<T = unknown, E = unknown>(url: string, options: JsonRequestOptions<T, E> = {}): Promise<Result<T>> {
+    const { schema, errorSchema, ...requestOptions } = options
+    return decodeJson(await this.delete(url, requestOptions), { schema, errorSchema })
+  }
+
   /**
    * Generic method to call any auth method on provider
    * @param method - Method name (login, logout, loginWithPhone, etc.)
-   * @param emitEvent - Whether to emit AUTH_STATE_CHANGED event (default: true)
+   * @param options - emitEvent flag (default: true), or AuthCallOptions with timeout/signal
    * @param args - Arguments to pass to the method
    * @returns Promise<Result<AuthResult>> - Always returns AuthResult
+   *
+   * @example
+   * const controller = new AbortController()
+   * await api.call('loginWithPhone', { timeout: 5000, signal: controller.signal }, phone, code)
    */
-  async call(method: string, emitEvent?: boolean, ...args: unknown[]): Promise<Result<AuthResult>> {
+  async call(method: string, options?: boolean | AuthCallOptions, ...args: unknown[]): Promise<Result<AuthResult>> {
+    const { emitEvent, timeout, signal } = typeof options === 'object' ? options : { emitEvent: options }
+
+    if (signal?.aborted) {
+      return err(RequestErrors.Cancelled())
+    }
+
     const id = this.generateMessageId()
     const message = { id, type: MSG.AUTH_CALL, payload: { method, args, emitEvent } }
 
     return new Promise<Result<AuthResult>>((resolve, reject) => {
+      const abortHandler = () => this.cancel(id)
+      const settle = (result: Result<AuthResult>) => {
+        signal?.removeEventListener('abort', abortHandler)
+        resolve(result)
+      }
+
       this.pendingRequests.set(id, {
-        resolve: (r) => resolve(r as Result<AuthResult>),
-        reject: (e: Error) => reject(e)
+        resolve: (r) => settle(r as Result<AuthResult>),
+        // Only cancel() rejects pending requests
+        reject: () => settle(err(RequestErrors.Cancelled()))
       })
+      signal?.addEventListener('abort', abortHandler, { once: true })
 
-      this.sendMessageQueued(message, 15000).catch((error) => {
+      this.sendMessageQueued(message, timeout ?? DEFAULT_AUTH_CALL_TIMEOUT).catch((error) => {
         const request = this.pendingRequests.get(id)
-        if (request) {
-          this.pendingRequests.delete(id)
-          request.reject(error)
+        if (!request) return
+        this.pendingRequests.delete(id)
+        signal?.removeEventListener('abort', abortHandler)
+        // sendMessageQueued rejects with err() results (QueueFull, QueueTimeout, Timeout)
+        if ((error as Result<never>)?.ok === false) {
+          resolve(error)
+        } else {
+          reject(error)
         }
       })
     })
@@ -819,9 +1396,9 @@ export class FetchGuardClient {
    * Convenience wrapper for login
    * @param payload - Login credentials
    * @param url - Optional URL override
-   * @param emitEvent - Whether to emit AUTH_STATE_CHANGED event (default: true)
+   * @param options - emitEvent flag (default: true), or AuthCallOptions with timeout/signal
    */
-  async login(payload?: unknown, url?: string, emitEvent: boolean = true): Promise<Result<AuthResult>> {
+  async login(payload?: unknown, url?: string, options: boolean | AuthCallOptions = true): Promise<Result<AuthResult>> {
     const args: unknown[] = []
     if (typeof payload !== 'undefined') {
       args.push(payload)
@@ -833,17 +1410,17 @@ export class FetchGuardClient {
       }
       args.push(url)
     }
-    return this.call('login', emitEvent, ...args)
+    return this.call('login', options, ...args)
   }
 
   /**
    * Convenience wrapper for logout
    * @param payload - Optional logout payload
-   * @param emitEvent - Whether to emit AUTH_STATE_CHANGED event (default: true)
+   * @param options - emitEvent flag (default: true), or AuthCallOptions with timeout/signal
    */
-  async logout(payload?: unknown, emitEvent: boolean = true): Promise<Result<AuthResult>> {
+  async logout(payload?: unknown, options: boolean | AuthCallOptions = true): Promise<Result<AuthResult>> {
     const args = typeof payload === 'undefined' ? [] : [payload]
-    return this.call('logout', emitEvent, ...args)
+    return this.call('logout', options, ...args)
   }
 
   /**
@@ -896,6 +1473,41 @@ export class FetchGuardClient {
     return this.call('exchangeToken', emitEvent, ...args)
   }
 
+  /**
+   * Build OAuth authorization URL (oauth-pkce preset)
+   *
+   * Worker generates state + PKCE verifier and keeps the verifier to itself.
+   * Navigate to the returned URL to start login.
+   *
+   * @param options - Scope override and extra authorization params
+   *
+   * @example
+   * const result = await api.getAuthorizationUrl()
+   * if (result.ok) window.location.assign(result.data)
+   */
+  async getAuthorizationUrl(options?: AuthorizeOptions): Promise<Result<string>> {
+    const args = typeof options === 'undefined' ? [] : [options]
+    const result = await this.call('authorize', false, ...args)
+    if (!result.ok) {
+      return result
+    }
+    if (!result.data.redirectUrl) {
+      return err(GeneralErrors.Unexpected({ message: 'Provider returned no authorization URL' }))
+    }
+    return ok(result.data.redirectUrl)
+  }
+
+  /**
+   * Complete OAuth login from the redirect callback (oauth-pkce preset)
+   * Validates state and exchanges authorization code for tokens in worker.
+   *
+   * @param callbackUrl - Redirect URL with code/state params (default: current location)
+   * @param emitEvent - Whether to emit AUTH_STATE_CHANGED event (default: true)
+   */
+  async completeLogin(callbackUrl: string = globalThis.location.href, emitEvent: boolean = true): Promise<Result<AuthResult>> {
+    return this.call('completeLogin', emitEvent, callbackUrl)
+  }
+
   /**
    * Check if worker is ready
    */
@@ -941,6 +1553,41 @@ export class FetchGuardClient {
     return () => this.authListeners.delete(cb)
   }
 
+  /**
+   * Subscribe to logout performed in another tab (requires crossTabSync)
+   * Auth state is already cleared when this fires (AUTH_STATE_CHANGED is emitted too)
+   */
+  onCrossTabLogout(cb: () => void): () => void {
+    this.crossTabLogoutListeners.add(cb)
+    return () => this.crossTabLogoutListeners.delete(cb)
+  }
+
+  /**
+   * Subscribe to session expiry - an authenticated session ended because refresh failed
+   * Fires once per session (good place for a re-login prompt). Auth state is already cleared.
+   */
+  onSessionExpired(cb: (failure: RefreshFailure) => void): () => void {
+    this.sessionExpiredListeners.add(cb)
+    return () => this.sessionExpiredListeners.delete(cb)
+  }
+
+  /**
+   * Subscribe to every failed automatic refresh (including when not signed in)
+   */
+  onRefreshFailed(cb: (failure: RefreshFailure) => void): () => void {
+    this.refreshFailedListeners.add(cb)
+    return () => this.refreshFailedListeners.delete(cb)
+  }
+
+  /**
+   * Subscribe to offline queue changes (queued, synced, failed, dropped)
+   * Requires the offlineQueue option
+   */
+  onOfflineQueue(cb: (event: OfflineQueueEvent) => void): () => void {
+    this.offlineQueueListeners.add(cb)
+    return () => this.offlineQueueListeners.delete(cb)
+  }
+
   /** Send PING and await PONG */
   async ping(): Promise<Result<{ timestamp: number }>> {
     const id = this.generateMessageId()
@@ -966,6 +1613,7 @@ export class FetchGuardClient {
   /**
    * Send message through queue system
    * All messages go through queue for sequential processing
+   * @param timeoutMs - Deadline from now: QueueTimeout while queued, Timeout (and CANCEL) once sent
    * @param transferables - Optional Transferable objects for zero-copy postMessage
    */
   private sendMessageQueued<T = unknown>(
@@ -980,16 +1628,17 @@ export class FetchGuardClient {
         return
       }
 
+      // Caller settles and cleans up its pending request
       const timeout = setTimeout(() => {
         const index = this.requestQueue.findIndex(item => item.id === message.id)
         if (index !== -1) {
           this.requestQueue.splice(index, 1)
+          reject(err(RequestErrors.QueueTimeout()))
+          return
         }
-        this.pendingRequests.delete(message.id)
-        this.requestUrls.delete(message.id)
-        this.requestTimings.delete(message.id)
         reject(err(RequestErrors.Timeout()))
-      }, timeoutMs)
+        this.abandonRequest(message.id)
+      }, Math.max(0, timeoutMs))
 
       const queueItem: QueueItem = {
         id: message.id,
@@ -1016,12 +1665,25 @@ export class FetchGuardClient {
    * - Better error isolation (one failure doesn't affect others)
    */
   private processQueue(): void {
+    const now = Date.now()
+    let index = 0
+    let rateLimitWait = Infinity
+
     // Process as many items as we can within concurrency limit
-    while (this.requestQueue.length > 0 && this.activeRequests < this.maxConcurrent) {
-      const item = this.requestQueue.shift()
-      if (!item) continue
+    while (index < this.requestQueue.length && this.activeRequests.size < this.maxConcurrent) {
+      const item = this.requestQueue[index]
+
+      // Over the rate limit: stays queued (in order) while other hosts proceed
+      const url = this.rateLimiter ? this.getQueuedUrl(item.message) : undefined
+      const wait = url ? this.rateLimiter!.acquire(url, now) : 0
+      if (wait > 0) {
+        rateLimitWait = Math.min(rateLimitWait, wait)
+        index++
+        continue
+      }
+      this.requestQueue.splice(index, 1)
 
-      this.activeRequests++
+      this.activeRequests.set(item.id, item)
 
       // Update timing: mark when request is actually sent to worker
       const timing = this.requestTimings.get(item.id)
@@ -1036,35 +1698,93 @@ export class FetchGuardClient {
         } else {
           this.worker.postMessage(item.message)
         }
-        // Note: activeRequests is decremented when response is received
-        // in handleWorkerMessage, not here
+        // Note: the slot is released when the response is received
+        // in handleWorkerMessage (or on cancel/timeout), not here
       } catch (error) {
-        this.activeRequests--
+        this.activeRequests.delete(item.id)
         clearTimeout(item.timeout)
         item.reject(error instanceof Error ? error : new Error(String(error)))
         // Continue processing queue after error
         this.processQueue()
       }
     }
+
+    if (rateLimitWait !== Infinity) {
+      clearTimeout(this.queueTimer)
+      this.queueTimer = setTimeout(() => {
+        this.queueTimer = undefined
+        this.processQueue()
+      }, rateLimitWait)
+    }
+  }
+
+  /**
+   * Request URL of a queued message (rate limiting), undefined for non-request messages
+   */
+  private getQueuedUrl(message: MainToWorkerMessage): string | undefined {
+    return message.type === MSG.FETCH || message.type === MSG.FETCH_STREAM ? message.payload.url : undefined
   }
 
   /**
    * Called when a request completes (success or error)
-   * Decrements active count and processes next items in queue
+   * Releases its slot, clears its deadline and processes next items in queue.
+   * No-op if already released (late response after cancel/timeout)
    */
-  private onRequestComplete(): void {
-    this.activeRequests--
+  private onRequestComplete(id: string): void {
+    const item = this.activeRequests.get(id)
+    if (!item) return
+
+    this.activeRequests.delete(id)
+    clearTimeout(item.timeout)
+    item.resolve(undefined)
     this.processQueue()
   }
 
+  /**
+   * Give up on a request (cancelled or timed out)
+   * Still queued: removed. Sent: aborted in the worker, slot released (its late response is ignored)
+   */
+  private abandonRequest(id: string): void {
+    const index = this.requestQueue.findIndex(item => item.id === id)
+    if (index !== -1) {
+      clearTimeout(this.requestQueue[index].timeout)
+      this.requestQueue.splice(index, 1)
+      return
+    }
+    if (this.activeRequests.has(id)) {
+      this.worker.postMessage({ id, type: MSG.CANCEL })
+      this.onRequestComplete(id)
+    }
+  }
+
   /**
    * Cleanup - terminate worker
+   * In shared mode, only this tab's port is released (other tabs keep the worker)
    */
   destroy(): void {
-    this.worker.terminate()
+    if (this.visibilityListener) {
+      document.removeEventListener('visibilitychange', this.visibilityListener)
+      this.visibilityListener = undefined
+    }
+    if (this.pagehideListener) {
+      window.removeEventListener('pagehide', this.pagehideListener)
+      this.pagehideListener = undefined
+    }
+    if (this.sharedWorker) {
+      this.worker.postMessage({ id: this.generateMessageId(), type: MSG.DISCONNECT })
+      ;(this.worker as MessagePort).close()
+    } else {
+      (this.worker as Worker).terminate()
+    }
     this.pendingRequests.clear()
     this.requestUrls.clear()
     this.requestTimings.clear()
+    clearTimeout(this.queueTimer)
+
+    for (const item of this.activeRequests.values()) {
+      clearTimeout(item.timeout)
+    }
+    this.activeRequests.clear()
 
     for (const item of this.requestQueue) {
       clearTimeout(item.timeout)
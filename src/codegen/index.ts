@@ -0,0 +1,13 @@
+// OpenAPI client generator (Node entry: fetchguard/codegen)
+export { generateClient, schemaToType } from './openapi'
+export type {
+  GenerateClientOptions,
+  GeneratedClient,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiPathItem,
+  OpenApiServer,
+  JsonSchema
+} from './openapi'
+export { loadOpenApiDocument } from './load'
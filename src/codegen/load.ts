@@ -0,0 +1,30 @@
+/**
+ * Load OpenAPI documents from disk (Node only)
+ */
+
+import { readFile } from 'node:fs/promises'
+import type { OpenApiDocument } from './openapi'
+
+/**
+ * Read a JSON or YAML OpenAPI document
+ *
+ * YAML needs the optional `yaml` package (`npm i -D yaml`); JSON has no dependencies.
+ */
+export async function loadOpenApiDocument(file: string): Promise<OpenApiDocument> {
+  const text = await readFile(file, 'utf8')
+  const isYaml = /\.ya?ml$/i.test(file) || !/^\s*\{/.test(text)
+
+  if (!isYaml) {
+    return JSON.parse(text) as OpenApiDocument
+  }
+
+  // Specifier in a variable keeps bundlers and tsc from resolving the optional dependency
+  const yamlModule = 'yaml'
+  let yaml: { parse(text: string): unknown }
+  try {
+    yaml = await import(yamlModule)
+  } catch {
+    throw new Error(`Reading YAML requires the "yaml" package (npm i -D yaml), or convert ${file} to JSON`)
+  }
+  return yaml.parse(text) as OpenApiDocument
+}
@@ -0,0 +1,482 @@
+/**
+ * OpenAPI 3.x to FetchGuard client generator
+ *
+ * Emits TypeScript source with component schema types and a `createApi(client)`
+ * factory built on defineEndpoints. Pure (no Node APIs) - file loading lives in ./load.
+ *
+ * Mapping:
+ * - `security` (operation, else document) -> `requiresAuth` (false when empty or `{}` is allowed)
+ * - `servers` -> suggested `allowedDomains` and `baseUrl` exports
+ * - 2xx JSON schema -> response type, other JSON schemas -> error type (decoded like parseJson)
+ */
+
+export type JsonSchema = boolean | JsonSchemaObject
+
+export interface JsonSchemaObject {
+  $ref?: string
+  type?: string | string[]
+  format?: string
+  enum?: unknown[]
+  const?: unknown
+  nullable?: boolean
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: JsonSchema
+  items?: JsonSchema
+  oneOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+}
+
+export interface OpenApiReference {
+  $ref: string
+}
+
+export interface OpenApiServer {
+  url: string
+  variables?: Record<string, { default: string; enum?: string[] }>
+}
+
+export interface OpenApiParameter {
+  name: string
+  in: 'path' | 'query' | 'header' | 'cookie'
+  required?: boolean
+  description?: string
+  schema?: JsonSchema
+}
+
+export interface OpenApiMediaType {
+  schema?: JsonSchema
+}
+
+export interface OpenApiRequestBody {
+  required?: boolean
+  content?: Record<string, OpenApiMediaType>
+}
+
+export interface OpenApiResponse {
+  description?: string
+  content?: Record<string, OpenApiMediaType>
+}
+
+export type SecurityRequirement = Record<string, string[]>
+
+export interface OpenApiOperation {
+  operationId?: string
+  summary?: string
+  description?: string
+  deprecated?: boolean
+  parameters?: Array<OpenApiParameter | OpenApiReference>
+  requestBody?: OpenApiRequestBody | OpenApiReference
+  responses?: Record<string, OpenApiResponse | OpenApiReference>
+  security?: SecurityRequirement[]
+}
+
+export type OpenApiPathItem = {
+  parameters?: Array<OpenApiParameter | OpenApiReference>
+} & Partial<Record<OpenApiMethod, OpenApiOperation>>
+
+export type OpenApiMethod = 'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch'
+
+export interface OpenApiDocument {
+  openapi: string
+  info?: { title?: string; version?: string }
+  servers?: OpenApiServer[]
+  paths?: Record<string, OpenApiPathItem>
+  components?: {
+    schemas?: Record<string, JsonSchema>
+    parameters?: Record<string, OpenApiParameter | OpenApiReference>
+    requestBodies?: Record<string, OpenApiRequestBody | OpenApiReference>
+    responses?: Record<string, OpenApiResponse | OpenApiReference>
+  }
+  security?: SecurityRequirement[]
+}
+
+export interface GenerateClientOptions {
+  /** Module the generated code imports FetchGuard from. Default: 'fetchguard' */
+  importFrom?: string
+  /** Name of the generated factory function. Default: 'createApi' */
+  factoryName?: string
+}
+
+export interface GeneratedClient {
+  /** TypeScript source */
+  code: string
+  /** Hosts from `servers` (suggested `allowedDomains`) */
+  allowedDomains: string[]
+  /** First server URL (suggested `baseUrl`) */
+  baseUrl?: string
+  /** Operations that were skipped or simplified */
+  warnings: string[]
+}
+
+const METHODS: OpenApiMethod[] = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch']
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/
+
+/** Globals and imports referenced by generated code - schemas with these names get a `Model` suffix */
+const RESERVED_TYPE_NAMES = new Set([
+  'Api', 'Array', 'ArrayBuffer', 'Blob', 'Boolean', 'Date', 'Error', 'FetchGuardClient',
+  'FormData', 'Map', 'Number', 'Object', 'Promise', 'Record', 'Set', 'String', 'URLSearchParams'
+])
+
+/**
+ * Generate typed FetchGuard client source from an OpenAPI 3.x document
+ *
+ * @example
+ * const { code, allowedDomains } = generateClient(document)
+ * await writeFile('src/api.generated.ts', code)
+ */
+export function generateClient(document: OpenApiDocument, options: GenerateClientOptions = {}): GeneratedClient {
+  if (typeof document?.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    throw new Error('Only OpenAPI 3.x documents are supported')
+  }
+
+  const importFrom = options.importFrom ?? 'fetchguard'
+  const factoryName = options.factoryName ?? 'createApi'
+  const warnings: string[] = []
+  const { allowedDomains, baseUrl } = readServers(document.servers ?? [])
+
+  const title = [document.info?.title, document.info?.version].filter(Boolean).join(' ')
+  const lines: string[] = [
+    '/**',
+    ` * Generated by fetchguard-openapi${title ? ` from ${sanitizeComment(title)}` : ''} - do not edit`,
+    ' */',
+    '',
+    `import { defineEndpoints, endpoint, type FetchGuardClient } from ${JSON.stringify(importFrom)}`,
+    '',
+    '/** Suggested `allowedDomains` for createClient (hosts from servers) */',
+    `export const allowedDomains: string[] = ${JSON.stringify(allowedDomains)}`
+  ]
+
+  if (baseUrl) {
+    lines.push('', '/** Suggested `baseUrl` for createClient (first server) */')
+    lines.push(`export const baseUrl = ${JSON.stringify(baseUrl)}`)
+  }
+
+  for (const [name, schema] of Object.entries(document.components?.schemas ?? {})) {
+    lines.push('')
+    const description = typeof schema === 'object' ? schema.description : undefined
+    if (description) lines.push(`/** ${sanitizeComment(description)} */`)
+    lines.push(`export type ${toTypeName(name)} = ${schemaToType(schema)}`)
+  }
+
+  const usedNames = new Set<string>()
+  const entries: string[] = []
+
+  for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+    for (const method of METHODS) {
+      const operation = pathItem[method]
+      if (!operation) continue
+
+      const name = uniqueName(operationName(operation, method, path), usedNames)
+      const entry = generateOperation(document, path, method, pathItem, operation, name, warnings)
+      if (entry) entries.push(entry)
+    }
+  }
+
+  lines.push(
+    '',
+    `export function ${factoryName}(client: FetchGuardClient) {`,
+    '  return defineEndpoints(client, {',
+    entries.join(',\n'),
+    '  })',
+    '}',
+    '',
+    `export type Api = ReturnType<typeof ${factoryName}>`,
+    ''
+  )
+
+  return { code: lines.join('\n'), allowedDomains, baseUrl, warnings }
+}
+
+/**
+ * Convert a JSON Schema (OpenAPI 3.0 or 3.1 flavor) to a TypeScript type expression
+ */
+export function schemaToType(schema: JsonSchema | undefined, depth: number = 0): string {
+  if (schema === undefined || schema === true) return 'unknown'
+  if (schema === false) return 'never'
+
+  let type: string
+
+  if (schema.$ref) {
+    type = refTypeName(schema.$ref)
+  } else if ('const' in schema) {
+    type = literal(schema.const)
+  } else if (schema.enum) {
+    type = schema.enum.map(literal).join(' | ') || 'never'
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf ?? []).map(s => schemaToType(s, depth)).join(' | ') || 'unknown'
+  } else if (schema.allOf) {
+    type = schema.allOf.map(s => wrap(schemaToType(s, depth))).join(' & ') || 'unknown'
+  } else if (Array.isArray(schema.type)) {
+    type = schema.type.map(t => schemaToType({ ...schema, type: t }, depth)).join(' | ') || 'unknown'
+  } else {
+    type = primitiveType(schema, depth)
+  }
+
+  return schema.nullable ? `${type} | null` : type
+}
+
+function primitiveType(schema: JsonSchemaObject, depth: number): string {
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string'
+    case 'integer':
+    case 'number':
+      return 'number'
+    case 'boolean':
+      return 'boolean'
+    case 'null':
+      return 'null'
+    case 'array':
+      return `Array<${schemaToType(schema.items, depth)}>`
+    case 'object':
+      return objectType(schema, depth)
+    default:
+      return schema.properties || schema.additionalProperties ? objectType(schema, depth) : 'unknown'
+  }
+}
+
+function objectType(schema: JsonSchemaObject, depth: number): string {
+  const properties = Object.entries(schema.properties ?? {})
+  const additional = schema.additionalProperties
+
+  if (properties.length === 0) {
+    return `Record<string, ${additional === false ? 'never' : schemaToType(additional, depth)}>`
+  }
+
+  const required = new Set(schema.required ?? [])
+  const indent = '  '.repeat(depth + 1)
+  const members: string[] = []
+
+  for (const [key, property] of properties) {
+    if (typeof property === 'object' && property.description) {
+      members.push(`${indent}/** ${sanitizeComment(property.description)} */`)
+    }
+    members.push(`${indent}${propertyKey(key)}${required.has(key) ? '' : '?'}: ${schemaToType(property, depth + 1)}`)
+  }
+
+  // Index signature must admit the declared properties too
+  if (additional !== undefined && additional !== false) {
+    members.push(`${indent}[key: string]: unknown`)
+  }
+
+  return `{\n${members.join('\n')}\n${'  '.repeat(depth)}}`
+}
+
+function generateOperation(
+  document: OpenApiDocument,
+  path: string,
+  method: OpenApiMethod,
+  pathItem: OpenApiPathItem,
+  operation: OpenApiOperation,
+  name: string,
+  warnings: string[]
+): string | null {
+  const label = `${method.toUpperCase()} ${path}`
+  const spec: string[] = []
+
+  // Operation parameters override path-level ones with the same name + location
+  const parameters = new Map<string, OpenApiParameter>()
+  for (const parameter of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const resolved = resolve<OpenApiParameter>(document, parameter)
+    if (resolved) parameters.set(`${resolved.in}:${resolved.name}`, resolved)
+  }
+
+  const pathParams = new Map<string, string>()
+  const query: string[] = []
+
+  for (const parameter of parameters.values()) {
+    if (parameter.in === 'path') {
+      pathParams.set(parameter.name, toIdentifier(parameter.name))
+    } else if (parameter.in === 'query') {
+      const type = schemaToType(parameter.schema)
+      if (type.includes('{') || type.includes('Record<')) {
+        warnings.push(`${label}: object query param "${parameter.name}" skipped`)
+        continue
+      }
+      query.push(`${propertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${type}`)
+    } else {
+      warnings.push(`${label}: ${parameter.in} param "${parameter.name}" not generated (pass it via headers)`)
+    }
+  }
+
+  if (query.length > 0) spec.push(`query: { ${query.join('; ')} }`)
+
+  const requestBody = resolve<OpenApiRequestBody>(document, operation.requestBody)
+  if (requestBody?.content) {
+    const body = bodyType(requestBody.content)
+    if (body === null) {
+      warnings.push(`${label}: unsupported request body (${Object.keys(requestBody.content).join(', ')}) skipped`)
+      return null
+    }
+    spec.push(`body: ${requestBody.required ? body : `${body} | undefined`}`)
+  }
+
+  const successTypes: string[] = []
+  const errorTypes: string[] = []
+
+  for (const [status, response] of Object.entries(operation.responses ?? {})) {
+    const resolved = resolve<OpenApiResponse>(document, response)
+    const isSuccess = status.startsWith('2')
+    const content = resolved?.content ?? {}
+    const mediaTypes = Object.keys(content)
+
+    if (mediaTypes.length === 0) {
+      if (isSuccess) successTypes.push('undefined')
+      continue
+    }
+
+    const jsonType = mediaTypes.find(isJsonMediaType)
+    if (!jsonType) {
+      if (isSuccess) {
+        warnings.push(`${label}: non-JSON response (${mediaTypes.join(', ')}) skipped, use client.fetch`)
+        return null
+      }
+      continue
+    }
+
+    const type = schemaToType(content[jsonType]?.schema, 2)
+    const target = isSuccess ? successTypes : errorTypes
+    if (!target.includes(type)) target.push(type)
+  }
+
+  spec.push(`response: ${successTypes.join(' | ') || 'unknown'}`)
+  if (errorTypes.length > 0) spec.push(`error: ${errorTypes.join(' | ')}`)
+
+  const security = operation.security ?? document.security ?? []
+  const requiresAuth = security.length > 0 && !security.some(requirement => Object.keys(requirement).length === 0)
+
+  const endpointPath = path.replace(/\{([^}]+)\}/g, (_, param: string) => `:${pathParams.get(param) ?? toIdentifier(param)}`)
+  const fields = [`method: '${method.toUpperCase()}'`, `path: ${JSON.stringify(endpointPath)}`]
+  if (!requiresAuth) fields.push('requiresAuth: false')
+
+  const doc: string[] = []
+  const summary = operation.summary ?? operation.description
+  if (summary) doc.push(sanitizeComment(summary))
+  if (operation.deprecated) doc.push('@deprecated')
+
+  const lines: string[] = []
+  if (doc.length > 0) lines.push(`    /** ${doc.join(' ')} */`)
+  lines.push(`    ${propertyKey(name)}: endpoint<{ ${spec.join('; ')} }>()({ ${fields.join(', ')} })`)
+  return lines.join('\n')
+}
+
+/**
+ * Request body type for the first supported media type, null if none
+ */
+function bodyType(content: Record<string, OpenApiMediaType>): string | null {
+  for (const [mediaType, media] of Object.entries(content)) {
+    if (isJsonMediaType(mediaType)) return schemaToType(media.schema, 2)
+    if (mediaType === 'multipart/form-data') return 'FormData'
+    if (mediaType === 'application/x-www-form-urlencoded') return 'URLSearchParams'
+    if (mediaType === 'application/octet-stream' || /^(image|audio|video)\//.test(mediaType)) return 'Blob | ArrayBuffer'
+    if (mediaType.startsWith('text/')) return 'string'
+  }
+  return null
+}
+
+function readServers(servers: OpenApiServer[]): { allowedDomains: string[]; baseUrl?: string } {
+  const allowedDomains: string[] = []
+  let baseUrl: string | undefined
+
+  for (const server of servers) {
+    const url = server.url.replace(/\{([^}]+)\}/g, (match, name: string) => server.variables?.[name]?.default ?? match)
+    baseUrl ??= url
+
+    try {
+      const { host } = new URL(url)
+      if (host && !allowedDomains.includes(host)) allowedDomains.push(host)
+    } catch {
+      // Relative server URL - same origin, nothing to allow
+    }
+  }
+
+  return { allowedDomains, baseUrl }
+}
+
+/**
+ * Resolve local `#/...` reference (one level of indirection at a time)
+ */
+function resolve<T>(document: OpenApiDocument, value: T | OpenApiReference | undefined, seen = new Set<string>()): T | undefined {
+  if (!value || typeof value !== 'object' || !('$ref' in value) || typeof value.$ref !== 'string') {
+    return value as T | undefined
+  }
+  const ref = value.$ref
+  if (!ref.startsWith('#/') || seen.has(ref)) return undefined
+  seen.add(ref)
+
+  let target: unknown = document
+  for (const segment of ref.slice(2).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~')
+    target = (target as Record<string, unknown> | undefined)?.[key]
+  }
+  return resolve<T>(document, target as T | OpenApiReference | undefined, seen)
+}
+
+function refTypeName(ref: string): string {
+  const match = /^#\/components\/schemas\/(.+)$/.exec(ref)
+  return match ? toTypeName(match[1].replace(/~1/g, '/').replace(/~0/g, '~')) : 'unknown'
+}
+
+function isJsonMediaType(mediaType: string): boolean {
+  return /^application\/(.+\+)?json\b/.test(mediaType) || mediaType === '*/*'
+}
+
+function operationName(operation: OpenApiOperation, method: string, path: string): string {
+  if (operation.operationId) return toIdentifier(operation.operationId)
+  const segments = path.split('/').filter(Boolean).map(segment => {
+    const param = /^\{(.+)\}$/.exec(segment)
+    return param ? `by ${param[1]}` : segment
+  })
+  return toIdentifier([method, ...segments].join(' '))
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name
+  for (let i = 2; used.has(candidate); i++) candidate = `${name}${i}`
+  used.add(candidate)
+  return candidate
+}
+
+/**
+ * camelCase identifier: 'get-user_by id' => 'getUserById'
+ */
+function toIdentifier(value: string): string {
+  const parts = value.split(/[^A-Za-z0-9]+/).filter(Boolean)
+  const joined = parts.map((part, i) => i === 0
+    ? part.charAt(0).toLowerCase() + part.slice(1)
+    : part.charAt(0).toUpperCase() + part.slice(1)
+  ).join('')
+  if (!joined) return '_'
+  return /^[0-9]/.test(joined) ? `_${joined}` : joined
+}
+
+/**
+ * PascalCase type name: 'user.profile' => 'UserProfile', 'Error' => 'ErrorModel'
+ */
+function toTypeName(value: string): string {
+  const identifier = toIdentifier(value)
+  const name = identifier.charAt(0).toUpperCase() + identifier.slice(1)
+  return RESERVED_TYPE_NAMES.has(name) ? `${name}Model` : name
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key)
+}
+
+function literal(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value)
+}
+
+/**
+ * Parenthesize union members inside intersections
+ */
+function wrap(type: string): string {
+  return /^[^{]*[|&]/.test(type) && !type.startsWith('(') ? `(${type})` : type
+}
+
+function sanitizeComment(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim()
+}
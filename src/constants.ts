@@ -7,3 +7,98 @@
  * @default 60000 (60 seconds)
  */
 export const DEFAULT_REFRESH_EARLY_MS = 60_000
+
+/**
+ * Minimum delay before a background refresh
+ * Prevents back-to-back refreshes of very short-lived tokens
+ * @default 5000 (5 seconds)
+ */
+export const MIN_BACKGROUND_REFRESH_DELAY_MS = 5_000
+
+/**
+ * Maximum setTimeout delay (2^31 - 1 ms, ~24.8 days)
+ */
+export const MAX_TIMER_DELAY_MS = 2_147_483_647
+
+/**
+ * Default HTTP status codes treated as "token rejected" by 401 recovery
+ * 419 is used by some frameworks (e.g., Laravel) for expired sessions
+ */
+export const DEFAULT_UNAUTHORIZED_STATUSES = [401, 419]
+
+/**
+ * Allowed clock difference when checking ID token exp/iat
+ * @default 60000 (60 seconds)
+ */
+export const ID_TOKEN_CLOCK_TOLERANCE_MS = 60_000
+
+/**
+ * Max distance between JWT iat and the local clock for iat to be used as server time
+ * @default 300000 (5 minutes)
+ */
+export const IAT_SAMPLE_WINDOW_MS = 300_000
+
+/**
+ * Default refresh endpoint statuses that definitively end the session
+ * Other failures (network, 5xx) are retried and keep the session
+ */
+export const DEFAULT_DEFINITIVE_REFRESH_STATUSES = [400, 401, 403]
+
+/**
+ * Default SSE reconnection delay until the server sends `retry:`
+ * @default 3000 (3 seconds, same as browser EventSource)
+ */
+export const DEFAULT_SSE_RECONNECT_MS = 3_000
+
+/**
+ * HTTP statuses retried by `retry.retryOnStatus: true`
+ * Request timeout, rate limited and transient server/gateway errors
+ */
+export const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504]
+
+/**
+ * Default maximum number of responses in the worker cache
+ * @default 100
+ */
+export const DEFAULT_CACHE_MAX_ENTRIES = 100
+
+/**
+ * Default offline queue IndexedDB database name
+ */
+export const DEFAULT_OFFLINE_QUEUE_DB = 'FetchGuardOfflineQueue'
+
+/**
+ * Default maximum number of queued offline mutations
+ * @default 100
+ */
+export const DEFAULT_OFFLINE_QUEUE_MAX_ITEMS = 100
+
+/**
+ * Default delay before replaying the offline queue again after a network failure
+ * @default 30000 (30 seconds)
+ */
+export const DEFAULT_OFFLINE_QUEUE_RETRY_MS = 30_000
+
+/**
+ * Default failure rate that opens a circuit
+ * @default 0.5 (50% of requests in the window)
+ */
+export const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 0.5
+
+/**
+ * Default minimum requests in the window before a circuit can open
+ * @default 10
+ */
+export const DEFAULT_CIRCUIT_MINIMUM_REQUESTS = 10
+
+/**
+ * Default rolling window for circuit breaker outcomes
+ * @default 60000 (60 seconds)
+ */
+export const DEFAULT_CIRCUIT_WINDOW_MS = 60_000
+
+/**
+ * Default time a circuit stays open before a probe request
+ * @default 30000 (30 seconds)
+ */
+export const DEFAULT_CIRCUIT_OPEN_DURATION_MS = 30_000
@@ -0,0 +1,198 @@
+/**
+ * Declarative API endpoint definitions
+ *
+ * Describe each endpoint once (method, path template, query/body/response types)
+ * and get a typed object of functions built on FetchGuardClient.fetch.
+ * Path params come from `:name` segments of the template and are URI-encoded.
+ */
+
+import type { Result } from 'ts-micro-result'
+import type { FetchGuardClient } from './client'
+import type { QueryParams, RetryConfig, Schema } from './types'
+import { decodeJson } from './helpers'
+import { isFormData } from './utils/formdata'
+import { buildPath } from './utils/url'
+
+export type EndpointMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'
+
+/**
+ * Type-only description of an endpoint's payloads
+ */
+export interface EndpointSpec {
+  /** Query params appended to the URL */
+  query?: QueryParams
+  /** Request body (JSON-encoded unless FormData, Blob, ArrayBuffer or string) */
+  body?: unknown
+  /** Decoded 2xx body */
+  response?: unknown
+  /** Decoded 4xx/5xx body, available in `meta.params.body` of HTTP_ERROR */
+  error?: unknown
+}
+
+/** Carries the spec type on a definition (never set at runtime) */
+declare const endpointSpec: unique symbol
+
+export interface EndpointDefinition<TPath extends string = string, TSpec extends EndpointSpec = EndpointSpec> {
+  /** HTTP method. Default: 'GET' */
+  method?: EndpointMethod
+  /** Path template, relative to client baseUrl: '/users/:id' */
+  path: TPath
+  /** Whether the endpoint requires authentication. Default: true */
+  requiresAuth?: boolean
+  /** Request timeout in ms, overrides client requestTimeout */
+  timeout?: number
+  /** Retry config override, false disables client retry */
+  retry?: RetryConfig | false
+  /** Headers sent with every call (call headers take precedence) */
+  headers?: HeadersInit
+  /** Validates 2xx bodies (without it the body is cast to the response type) */
+  schema?: Schema<EndpointResponse<TSpec>>
+  /** Validates 4xx/5xx bodies */
+  errorSchema?: Schema<EndpointError<TSpec>>
+  readonly [endpointSpec]?: TSpec
+}
+
+/**
+ * Names of `:param` segments in a path template
+ *
+ * PathParamNames<'/users/:id/posts/:postId'> => 'id' | 'postId'
+ */
+export type PathParamNames<TPath extends string> =
+  TPath extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParamNames<`/${Rest}`>
+    : TPath extends `${string}:${infer Param}`
+      ? Param
+      : never
+
+export type PathParams<TPath extends string> = { [K in PathParamNames<TPath>]: string | number }
+
+export type EndpointResponse<TSpec> = TSpec extends { response: infer R } ? R : unknown
+export type EndpointError<TSpec> = TSpec extends { error: infer E } ? E : unknown
+
+type ParamsArgs<TPath extends string> =
+  [PathParamNames<TPath>] extends [never] ? { params?: never } : { params: PathParams<TPath> }
+
+type QueryArgs<TSpec> =
+  TSpec extends { query: infer Q }
+    ? {} extends Q ? { query?: Q } : { query: Q }
+    : { query?: QueryParams }
+
+type BodyArgs<TSpec> =
+  TSpec extends { body: infer B }
+    ? undefined extends B ? { body?: B } : { body: B }
+    : { body?: never }
+
+/**
+ * Arguments of a generated endpoint function
+ * Params are required when the path has any, query when it has required keys, body when declared.
+ */
+export type EndpointArgs<TPath extends string, TSpec> = ParamsArgs<TPath> & QueryArgs<TSpec> & BodyArgs<TSpec> & {
+  signal?: AbortSignal
+  headers?: HeadersInit
+}
+
+export type EndpointFunction<TPath extends string, TSpec> =
+  {} extends EndpointArgs<TPath, TSpec>
+    ? (args?: EndpointArgs<TPath, TSpec>) => Promise<Result<EndpointResponse<TSpec>>>
+    : (args: EndpointArgs<TPath, TSpec>) => Promise<Result<EndpointResponse<TSpec>>>
+
+export type Endpoints<TDefinitions extends Record<string, EndpointDefinition<any, any>>> = {
+  [K in keyof TDefinitions]: TDefinitions[K] extends EndpointDefinition<infer TPath, infer TSpec>
+    ? EndpointFunction<TPath, TSpec>
+    : never
+}
+
+/**
+ * Define a single endpoint with payload types
+ *
+ * Curried so the path literal is inferred while the spec is given explicitly.
+ *
+ * @example
+ * const getUser = endpoint<{ response: User }>()({ path: '/users/:id' })
+ */
+export function endpoint<TSpec extends EndpointSpec = {}>() {
+  return <const TPath extends string>(definition: EndpointDefinition<TPath, TSpec>): EndpointDefinition<TPath, TSpec> => definition
+}
+
+/**
+ * Build typed endpoint functions on top of a client
+ *
+ * Each function returns the decoded body (see decodeJson): non-2xx statuses
+ * become HTTP_ERROR, schema failures RESPONSE_VALIDATION_FAILED.
+ *
+ * @example
+ * const api = defineEndpoints(client, {
+ *   getUser: endpoint<{ response: User }>()({ path: '/users/:id' }),
+ *   listUsers: endpoint<{ query: { page?: number }; response: User[] }>()({ path: '/users' }),
+ *   createUser: endpoint<{ body: NewUser; response: User }>()({ method: 'POST', path: '/users', timeout: 5000 }),
+ *   health: { path: '/health', requiresAuth: false, retry: false }
+ * })
+ *
+ * const user = await api.getUser({ params: { id: 42 } })
+ */
+export function defineEndpoints<const TDefinitions extends Record<string, EndpointDefinition<any, any>>>(
+  client: FetchGuardClient,
+  definitions: TDefinitions
+): Endpoints<TDefinitions> {
+  const endpoints: Record<string, (args?: EndpointCallArgs) => Promise<Result<unknown>>> = {}
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    endpoints[name] = (args) => callEndpoint(client, definition, args)
+  }
+
+  return endpoints as Endpoints<TDefinitions>
+}
+
+interface EndpointCallArgs {
+  params?: Record<string, string | number>
+  query?: QueryParams
+  body?: unknown
+  signal?: AbortSignal
+  headers?: HeadersInit
+}
+
+async function callEndpoint(
+  client: FetchGuardClient,
+  definition: EndpointDefinition<string, any>,
+  args: EndpointCallArgs = {}
+): Promise<Result<unknown>> {
+  const headers = new Headers(definition.headers)
+  new Headers(args.headers).forEach((value, key) => headers.set(key, value))
+
+  let body: BodyInit | undefined
+  if (args.body !== undefined && args.body !== null) {
+    if (isRawBody(args.body)) {
+      body = args.body
+    } else {
+      body = JSON.stringify(args.body)
+      if (!headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json')
+      }
+    }
+  }
+
+  const result = await client.fetch(buildPath(definition.path, args.params), {
+    method: definition.method ?? 'GET',
+    headers,
+    body,
+    params: args.query,
+    signal: args.signal,
+    requiresAuth: definition.requiresAuth,
+    timeout: definition.timeout,
+    retry: definition.retry
+  })
+
+  return decodeJson(result, { schema: definition.schema, errorSchema: definition.errorSchema })
+}
+
+/**
+ * Bodies sent as-is (everything else is JSON-encoded)
+ */
+function isRawBody(body: unknown): body is BodyInit {
+  return typeof body === 'string'
+    || isFormData(body)
+    || body instanceof URLSearchParams
+    || body instanceof ArrayBuffer
+    || ArrayBuffer.isView(body)
+    || (typeof Blob !== 'undefined' && body instanceof Blob)
+}
@@ -28,6 +28,7 @@ export const ERROR_CODES = {
   LOGIN_FAILED: 'LOGIN_FAILED',
   LOGOUT_FAILED: 'LOGOUT_FAILED',
   NOT_AUTHENTICATED: 'NOT_AUTHENTICATED',
+  ID_TOKEN_INVALID: 'ID_TOKEN_INVALID',
 
   // Domain
   DOMAIN_NOT_ALLOWED: 'DOMAIN_NOT_ALLOWED',
@@ -37,8 +38,12 @@ export const ERROR_CODES = {
   REQUEST_CANCELLED: 'REQUEST_CANCELLED',
   HTTP_ERROR: 'HTTP_ERROR',
   RESPONSE_PARSE_FAILED: 'RESPONSE_PARSE_FAILED',
+  RESPONSE_VALIDATION_FAILED: 'RESPONSE_VALIDATION_FAILED',
   QUEUE_FULL: 'QUEUE_FULL',
-  REQUEST_TIMEOUT: 'REQUEST_TIMEOUT'
+  REQUEST_TIMEOUT: 'REQUEST_TIMEOUT',
+  QUEUE_TIMEOUT: 'QUEUE_TIMEOUT',
+  REQUEST_QUEUED: 'REQUEST_QUEUED',
+  CIRCUIT_OPEN: 'CIRCUIT_OPEN'
 } as const
 
 /**
@@ -33,6 +33,7 @@ export const AuthErrors = {
   LoginFailed: defineError(ERROR_CODES.LOGIN_FAILED, 'Login failed'),
   LogoutFailed: defineError(ERROR_CODES.LOGOUT_FAILED, 'Logout failed'),
   NotAuthenticated: defineError(ERROR_CODES.NOT_AUTHENTICATED, 'User is not authenticated'),
+  IdTokenInvalid: defineError(ERROR_CODES.ID_TOKEN_INVALID, 'ID token validation failed'),
 } as const
 
 /**
@@ -55,10 +56,18 @@ export const RequestErrors = {
 
   // Response parsing errors
   ResponseParseFailed: defineError(ERROR_CODES.RESPONSE_PARSE_FAILED, 'Failed to parse response body'),
+  ResponseValidationFailed: defineError(ERROR_CODES.RESPONSE_VALIDATION_FAILED, 'Response body failed schema validation'),
 
   // Queue errors
   QueueFull: defineErrorAdvanced(ERROR_CODES.QUEUE_FULL, 'Request queue full ({size}/{maxSize})'),
 
   // Timeout errors
   Timeout: defineError(ERROR_CODES.REQUEST_TIMEOUT, 'Request timed out'),
+  QueueTimeout: defineError(ERROR_CODES.QUEUE_TIMEOUT, 'Request timed out waiting in queue'),
+
+  // Offline queue (not a failure - request will be replayed, see onOfflineQueue)
+  Queued: defineError(ERROR_CODES.REQUEST_QUEUED, 'Request queued for replay when back online'),
+
+  // Circuit breaker (origin failing - request not sent)
+  CircuitOpen: defineErrorAdvanced(ERROR_CODES.CIRCUIT_OPEN, 'Circuit open for {origin}'),
 } as const
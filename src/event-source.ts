@@ -0,0 +1,96 @@
+import type { SseEvent, SseError, EventSourceState } from './types'
+
+/**
+ * Authenticated event source handle returned by api.eventSource()
+ *
+ * The SSE connection, parser and reconnect loop live in the worker;
+ * this object only dispatches what the worker forwards.
+ *
+ * @typeParam TEventType - Named event types the server sends (besides 'message')
+ */
+export class FetchGuardEventSource<TEventType extends string = string> {
+  private state: EventSourceState = 'connecting'
+  private readonly eventListeners = new Map<string, Set<(event: SseEvent) => void>>()
+  private readonly openListeners = new Set<() => void>()
+  private readonly errorListeners = new Set<(error: SseError) => void>()
+
+  constructor(
+    /** Worker message ID of this stream */
+    readonly id: string,
+    /** Resolved absolute URL */
+    readonly url: string,
+    private readonly onClose: () => void
+  ) {}
+
+  /**
+   * Current connection state
+   */
+  get readyState(): EventSourceState {
+    return this.state
+  }
+
+  /**
+   * Subscribe to events of a type ('message' for events without `event:` field)
+   * Returns unsubscribe function
+   */
+  on(type: TEventType | 'message', cb: (event: SseEvent) => void): () => void {
+    let listeners = this.eventListeners.get(type)
+    if (!listeners) {
+      listeners = new Set()
+      this.eventListeners.set(type, listeners)
+    }
+    listeners.add(cb)
+    return () => listeners.delete(cb)
+  }
+
+  /**
+   * Subscribe to (re)connections
+   */
+  onOpen(cb: () => void): () => void {
+    this.openListeners.add(cb)
+    return () => this.openListeners.delete(cb)
+  }
+
+  /**
+   * Subscribe to connection errors
+   * `error.reconnectIn` is set while the worker keeps reconnecting; absent when the stream closed
+   */
+  onError(cb: (error: SseError) => void): () => void {
+    this.errorListeners.add(cb)
+    return () => this.errorListeners.delete(cb)
+  }
+
+  /**
+   * Close the stream (aborts connection and reconnect loop in worker)
+   */
+  close(): void {
+    if (this.state === 'closed') return
+    this.state = 'closed'
+    this.onClose()
+  }
+
+  /** @internal SSE_OPEN from worker */
+  handleOpen(): void {
+    if (this.state === 'closed') return
+    this.state = 'open'
+    this.openListeners.forEach(cb => cb())
+  }
+
+  /** @internal SSE_EVENT from worker */
+  handleEvent(event: SseEvent): void {
+    if (this.state === 'closed') return
+    this.eventListeners.get(event.type)?.forEach(cb => cb(event))
+  }
+
+  /** @internal SSE_ERROR from worker */
+  handleError(error: SseError): void {
+    if (this.state === 'closed') return
+    if (error.reconnectIn === undefined) {
+      // Worker gave up - no CANCEL needed
+      this.state = 'closed'
+    } else {
+      this.state = 'connecting'
+    }
+    this.errorListeners.forEach(cb => cb(error))
+  }
+}
@@ -5,8 +5,9 @@
  * by providing type-safe helpers for common operations.
  */
 
-import type { Result } from 'ts-micro-result'
-import type { FetchEnvelope } from './types'
+import { ok, err, type Result } from 'ts-micro-result'
+import type { FetchEnvelope, EnvelopeBody, DecodeJsonOptions, Schema } from './types'
+import { RequestErrors } from './errors'
 
 /**
  * Check if result is a network/transport error (not an HTTP response)
@@ -79,6 +80,81 @@ export function parseJson<T = unknown>(result: Result<FetchEnvelope>): T | null
   }
 }
 
+/**
+ * Get schema issues from a thrown validation error
+ */
+function getSchemaIssues(error: unknown): unknown[] {
+  const issues = (error as { issues?: unknown } | null)?.issues
+  if (Array.isArray(issues)) return issues
+  return [{ message: error instanceof Error ? error.message : String(error) }]
+}
+
+/**
+ * Run schema, mapping thrown errors to RESPONSE_VALIDATION_FAILED
+ */
+function validate<T>(schema: Schema<T>, value: unknown, status: number): Result<T> {
+  try {
+    return ok(schema.parse(value))
+  } catch (error) {
+    return err(RequestErrors.ResponseValidationFailed(), { params: { status, issues: getSchemaIssues(error) } })
+  }
+}
+
+/**
+ * Decode JSON response into a typed Result
+ *
+ * - Network errors pass through unchanged
+ * - 2xx: body parsed and validated with `schema` → ok(T)
+ * - Other statuses: HTTP_ERROR with `meta.params = { status, body }`,
+ *   body validated with `errorSchema` when provided
+ * - Invalid JSON in a 2xx body: RESPONSE_PARSE_FAILED
+ * - Schema rejects the body: RESPONSE_VALIDATION_FAILED with `meta.params = { status, issues }`
+ * - Empty 2xx body (e.g. 204) is decoded as undefined
+ *
+ * @example
+ * const User = z.object({ id: z.string(), name: z.string() })
+ * const user = decodeJson(await api.get('/me'), { schema: User })
+ * if (user.ok) console.log(user.data.name)
+ */
+export function decodeJson<T = unknown, E = unknown>(
+  result: Result<FetchEnvelope<EnvelopeBody>>,
+  options: DecodeJsonOptions<T, E> = {}
+): Result<T> {
+  if (!result.ok) {
+    return err(result.errors, result.meta)
+  }
+
+  const { status, body } = result.data
+  if (typeof body !== 'string') {
+    return err(RequestErrors.ResponseParseFailed({ message: 'Response body is binary, expected JSON text' }))
+  }
+
+  if (status < 200 || status >= 300) {
+    // Error bodies are often plain text - keep raw text when not JSON
+    let errorBody: unknown = body
+    try {
+      errorBody = body ? JSON.parse(body) : undefined
+    } catch {
+      // Not JSON
+    }
+    if (options.errorSchema) {
+      const decoded = validate(options.errorSchema, errorBody, status)
+      if (!decoded.ok) return decoded as Result<never>
+      errorBody = decoded.data
+    }
+    return err(RequestErrors.HttpError({ status }), { params: { status, body: errorBody } })
+  }
+
+  let value: unknown
+  try {
+    value = body ? JSON.parse(body) : undefined
+  } catch (e) {
+    return err(RequestErrors.ResponseParseFailed({ message: String(e) }), { params: { status, body } })
+  }
+
+  return options.schema ? validate(options.schema, value, status) : ok(value as T)
+}
+
 /**
  * Get human-readable error message from result
  *
@@ -1,30 +1,80 @@
 // Main exports
 export { createClient, FetchGuardClient } from './client'
+export { FetchGuardEventSource } from './event-source'
+export { defineEndpoints, endpoint } from './endpoints'
+export type {
+  EndpointDefinition,
+  EndpointSpec,
+  EndpointMethod,
+  EndpointArgs,
+  EndpointFunction,
+  EndpointResponse,
+  EndpointError,
+  Endpoints,
+  PathParamNames,
+  PathParams
+} from './endpoints'
 export type {
   FetchGuardOptions,
   FetchGuardRequestInit,
   TokenProvider,
   ProviderPresetConfig,
+  CredentialsPresetConfig,
+  OAuthPkcePresetConfig,
+  OidcPresetConfig,
+  ParserConfig,
+  JwtParserConfig,
+  AuthorizeOptions,
   RefreshTokenStorage,
   TokenParser,
   AuthStrategy,
   FetchEnvelope,
+  StreamStart,
+  StreamResponse,
+  TransferProgress,
+  BinaryResponseType,
+  EnvelopeBody,
+  Schema,
+  DecodeJsonOptions,
+  JsonRequestOptions,
+  HttpErrorParams,
+  ValidationErrorParams,
+  SseEvent,
+  SseError,
+  EventSourceOptions,
+  EventSourceState,
   TokenInfo,
   ExchangeTokenOptions,
+  AuthCallOptions,
   WorkerConfig,
   AuthResult,
   SerializedFormData,
   SerializedFile,
   SerializedFormDataEntry,
   NetworkErrorDetail,
+  HttpRetryDetail,
+  RetryContext,
   TransportResult,
   StorageErrorContext,
   StorageErrorCallback,
   DebugHooks,
   RefreshReason,
+  RefreshFailure,
+  RefreshRetryConfig,
   RetryConfig,
   DedupeConfig,
-  RequestMetrics
+  RequestMetrics,
+  UnauthorizedRecoveryConfig,
+  BackgroundRefreshConfig,
+  CacheConfig,
+  OfflineQueueConfig,
+  OfflineQueueEvent,
+  CircuitBreakerConfig,
+  CircuitState,
+  RateLimitRule,
+  QueryParams,
+  QueryParamValue,
+  ArrayFormat
 } from './types'
 
 // Message protocol types (for advanced usage)
@@ -69,17 +119,26 @@ export type { IndexedDBStorageOptions } from './provider/storage/indexeddb'
 // Parser modules
 export { bodyParser } from './provider/parser/body'
 export { cookieParser } from './provider/parser/cookie'
+export { oauthParser } from './provider/parser/oauth'
+export { createConfigurableParser } from './provider/parser/configurable'
 
 // Strategy modules
 export { cookieStrategy, createCookieStrategy } from './provider/strategy/cookie'
 export { bodyStrategy, createBodyStrategy } from './provider/strategy/body'
+export { createOAuthStrategy } from './provider/strategy/oauth'
 
 // Preset providers (recommended)
 export {
   createCookieProvider,
-  createBodyProvider
+  createBodyProvider,
+  createOAuthProvider,
+  createOidcProvider
 } from './provider/presets'
 
+// JWT utilities (decode only - verification happens in worker)
+export { decodeJwt } from './utils/jwt'
+export type { DecodedJwt } from './utils/jwt'
+
 // FormData utilities (for advanced usage)
 export {
   serializeFormData,
@@ -88,9 +147,14 @@ export {
   isSerializedFormData
 } from './utils/formdata'
 
+// URL utilities (for building URLs outside of client methods)
+export { buildUrl, buildPath, serializeParams } from './utils/url'
+
 // Binary utilities (for decoding binary responses)
 export {
   base64ToArrayBuffer,
+  base64UrlEncode,
+  base64UrlDecode,
   isBinaryContentType
 } from './utils/binary'
 
@@ -101,6 +165,7 @@ export {
   isClientError,
   isServerError,
   parseJson,
+  decodeJson,
   getErrorMessage,
   getErrorBody,
   getStatus,
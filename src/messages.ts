@@ -1,5 +1,5 @@
 import type { ErrorDetail, Result, ResultMeta } from 'ts-micro-result'
-import type { WorkerConfig, FetchGuardRequestInit, ProviderPresetConfig, AuthResult, FetchEnvelope, RefreshReason } from './types'
+import type { WorkerConfig, FetchGuardRequestInit, ProviderPresetConfig, AuthResult, FetchEnvelope, RefreshReason, RefreshFailure, StreamStart, EventSourceRequest, SseEvent, SseError, TransferProgress, EnvelopeBody, OfflineQueueEvent } from './types'
 
 /**
  * MESSAGE PAYLOADS - SINGLE SOURCE OF TRUTH
@@ -21,15 +21,24 @@ import type { WorkerConfig, FetchGuardRequestInit, ProviderPresetConfig, AuthRes
  * ```
  */
 
+/**
+ * PROGRESS payload - which side of the request the bytes belong to
+ */
+export type ProgressPayload = TransferProgress & { direction: 'upload' | 'download' }
+
 /**
  * Payloads for messages sent from Main thread → Worker thread
  */
 export interface MainPayloads {
   SETUP: { config: WorkerConfig; providerConfig: ProviderPresetConfig | string | null }
-  FETCH: { url: string; options?: FetchGuardRequestInit }
+  FETCH: { url: string; options?: FetchGuardRequestInit; reportUploadProgress?: boolean; reportDownloadProgress?: boolean; deadline?: number }  // deadline: epoch ms, worker aborts after it
+  FETCH_STREAM: { url: string; options?: FetchGuardRequestInit; port: MessagePort; deadline?: number }  // Body streamed over port (transferred), deadline until headers
+  EVENT_SOURCE: { url: string; options?: EventSourceRequest }  // SSE stream, closed with CANCEL
   AUTH_CALL: { method: string; args: unknown[]; emitEvent?: boolean }  // Generic auth method call (login, logout, loginWithPhone, etc.)
   CANCEL: undefined
   PING: { timestamp: number }
+  DISCONNECT: undefined  // Client destroyed (shared worker: release this tab's port)
+  VISIBILITY: { hidden: boolean }  // Page visibility (pauses background refresh)
 }
 
 /**
@@ -43,9 +52,20 @@ export interface WorkerPayloads {
   LOG: { level: 'info' | 'warn' | 'error'; message: string }
   AUTH_STATE_CHANGED: AuthResult
   AUTH_CALL_RESULT: AuthResult
-  FETCH_RESULT: FetchEnvelope
-  FETCH_ERROR: { error: string; status?: number }
+  FETCH_RESULT: FetchEnvelope<EnvelopeBody>
+  FETCH_ERROR: { error: string; status?: number; timedOut?: boolean }  // timedOut: aborted at the request deadline
+  FETCH_QUEUED: { queueId: string }  // Mutation stored in the offline queue instead of sent
+  STREAM_START: StreamStart
+  PROGRESS: ProgressPayload  // For FETCH with reportUploadProgress/reportDownloadProgress
+  SSE_OPEN: { status: number }
+  SSE_EVENT: SseEvent
+  SSE_ERROR: SseError
   TOKEN_REFRESHED: { reason: RefreshReason }
+  CROSS_TAB_LOGOUT: undefined
+  CLOCK_SKEW: { skewMs: number }
+  REFRESH_FAILED: RefreshFailure
+  SESSION_EXPIRED: RefreshFailure
+  OFFLINE_QUEUE: OfflineQueueEvent
 }
 
 /**
@@ -79,9 +99,13 @@ export const MSG = Object.freeze({
   // Main -> Worker messages
   SETUP: 'SETUP',
   FETCH: 'FETCH',
+  FETCH_STREAM: 'FETCH_STREAM',
+  EVENT_SOURCE: 'EVENT_SOURCE',
   AUTH_CALL: 'AUTH_CALL',
   CANCEL: 'CANCEL',
   PING: 'PING',
+  DISCONNECT: 'DISCONNECT',
+  VISIBILITY: 'VISIBILITY',
 
   // Worker -> Main messages
   ERROR: 'ERROR',
@@ -93,5 +117,16 @@ export const MSG = Object.freeze({
   AUTH_CALL_RESULT: 'AUTH_CALL_RESULT',
   FETCH_RESULT: 'FETCH_RESULT',
   FETCH_ERROR: 'FETCH_ERROR',
-  TOKEN_REFRESHED: 'TOKEN_REFRESHED'
+  FETCH_QUEUED: 'FETCH_QUEUED',
+  STREAM_START: 'STREAM_START',
+  PROGRESS: 'PROGRESS',
+  SSE_OPEN: 'SSE_OPEN',
+  SSE_EVENT: 'SSE_EVENT',
+  SSE_ERROR: 'SSE_ERROR',
+  TOKEN_REFRESHED: 'TOKEN_REFRESHED',
+  CROSS_TAB_LOGOUT: 'CROSS_TAB_LOGOUT',
+  CLOCK_SKEW: 'CLOCK_SKEW',
+  REFRESH_FAILED: 'REFRESH_FAILED',
+  SESSION_EXPIRED: 'SESSION_EXPIRED',
+  OFFLINE_QUEUE: 'OFFLINE_QUEUE'
 }) as { readonly [K in MessageType]: K }
@@ -8,6 +8,7 @@ import type {
 } from '../types'
 import { ok, err, type Result } from 'ts-micro-result'
 import { AuthErrors, RequestErrors } from '../errors'
+import { observeServerDate } from '../utils/clock'
 
 /**
  * Custom auth method type
@@ -40,6 +41,8 @@ export interface ProviderConfig {
  * - If refreshToken exists → use token from worker memory
  * - Cookie-based (no storage) → always null
  *
+ * Auth responses feed the worker's server clock estimate (Date header).
+ *
  * Custom methods:
  * - User can add custom auth methods (loginWithPhone, loginWithGoogle, etc.)
  * - Custom methods will be spread into provider object
@@ -53,8 +56,21 @@ export function createProvider(config: ProviderConfig): TokenProvider {
         currentRefreshToken = await config.refreshStorage.get()
       }
 
+      // Nothing to refresh with - not signed in (definitive, not worth retrying)
+      if (currentRefreshToken === null && config.refreshStorage) {
+        return err(AuthErrors.TokenRefreshFailed({ message: 'No refresh token available' }))
+      }
+
+      let response: Response
+      try {
+        response = await config.strategy.refresh(currentRefreshToken)
+      } catch (error) {
+        // Refresh endpoint unreachable - transient, worth retrying
+        return err(RequestErrors.NetworkError({ message: String(error) }))
+      }
+
       try {
-        const response = await config.strategy.refresh(currentRefreshToken)
+        observeServerDate(response)
 
         if (!response.ok) {
           // Read response body for error details
@@ -73,13 +89,15 @@ export function createProvider(config: ProviderConfig): TokenProvider {
 
         return ok(tokenInfo)
       } catch (error) {
-        return err(RequestErrors.NetworkError({ message: String(error) }))
+        // Endpoint answered but the response is unusable (parser failed) - retrying won't help
+        return err(AuthErrors.TokenRefreshFailed({ message: String(error) }))
       }
     },
 
     async login(payload: unknown, url?: string) {
       try {
         const response = await config.strategy.login(payload, url)
+        observeServerDate(response)
 
         if (!response.ok) {
           // Read response body for error details
@@ -105,6 +123,7 @@ export function createProvider(config: ProviderConfig): TokenProvider {
     async logout(payload?: unknown) {
       try {
         const response = await config.strategy.logout(payload)
+        observeServerDate(response)
 
         if (!response.ok) {
           // Read response body for error details
@@ -134,6 +153,7 @@ export function createProvider(config: ProviderConfig): TokenProvider {
 
       try {
         const response = await config.strategy.exchangeToken(accessToken, url, options)
+        observeServerDate(response)
 
         if (!response.ok) {
           const body = await response.text().catch(() => '')
@@ -0,0 +1,178 @@
+import { decodeJwt, verifyJwtSignature, isSupportedJwsAlgorithm } from '../../utils/jwt'
+
+/**
+ * OpenID Connect helpers - discovery and ID token validation
+ *
+ * Runs in worker only. Failures throw Error with a readable message;
+ * the OIDC provider converts them to Result errors.
+ */
+
+/**
+ * Subset of OpenID Provider Metadata used by FetchGuard
+ */
+export interface OidcMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+  end_session_endpoint?: string
+  revocation_endpoint?: string
+}
+
+/**
+ * Expected values for ID token validation
+ */
+export interface IdTokenExpectations {
+  issuer: string
+  clientId: string
+  /** Nonce sent in authorization request (only checked when provided) */
+  nonce?: string
+  /** Allowed clock difference for exp/iat in ms */
+  clockToleranceMs: number
+  now: number
+}
+
+/**
+ * IdP could not be reached (discovery or JWKS request failed)
+ * Worth retrying - unlike an ID token that fails validation.
+ */
+export class OidcFetchError extends Error {
+  name = 'OidcFetchError'
+}
+
+/**
+ * GET JSON document from the IdP, transport failures and error statuses as OidcFetchError
+ */
+async function fetchIdpJson<T>(url: string, what: string): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(url, { headers: { 'Accept': 'application/json' } })
+  } catch (error) {
+    throw new OidcFetchError(`${what} request failed: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (!response.ok) {
+    throw new OidcFetchError(`${what} request failed with HTTP ${response.status}`)
+  }
+  return await response.json() as T
+}
+
+/** Discovery results per issuer (promise, so concurrent callers share one fetch) */
+const metadataCache = new Map<string, Promise<OidcMetadata>>()
+
+/** JWKS per jwks_uri */
+const jwksCache = new Map<string, JsonWebKey[]>()
+
+/**
+ * Fetch and cache `${issuer}/.well-known/openid-configuration`
+ * Failed lookups are not cached.
+ */
+export function discoverOidc(issuer: string): Promise<OidcMetadata> {
+  const cached = metadataCache.get(issuer)
+  if (cached) {
+    return cached
+  }
+
+  const pending = (async () => {
+    const url = `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`
+    const metadata = await fetchIdpJson<OidcMetadata>(url, 'OIDC discovery')
+    // Issuer in metadata MUST match the one we were configured with (OIDC Discovery 4.3)
+    if (metadata.issuer !== issuer) {
+      throw new Error(`OIDC issuer mismatch: expected ${issuer}, got ${metadata.issuer}`)
+    }
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+      throw new Error('OIDC metadata is missing required endpoints')
+    }
+    return metadata
+  })()
+
+  metadataCache.set(issuer, pending)
+  pending.catch(() => metadataCache.delete(issuer))
+  return pending
+}
+
+async function loadJwks(jwksUri: string): Promise<JsonWebKey[]> {
+  const json = await fetchIdpJson<{ keys?: JsonWebKey[] }>(jwksUri, 'JWKS')
+  const keys = Array.isArray(json.keys) ? json.keys : []
+  jwksCache.set(jwksUri, keys)
+  return keys
+}
+
+function findKey(keys: JsonWebKey[], kid: string | undefined): JsonWebKey | undefined {
+  const candidates = keys.filter(key => (key as { use?: string }).use !== 'enc')
+  if (kid) {
+    return candidates.find(key => (key as { kid?: string }).kid === kid)
+  }
+  // No kid - only unambiguous when the set has a single signing key
+  return candidates.length === 1 ? candidates[0] : undefined
+}
+
+/**
+ * Find signing key by kid, reloading JWKS once on miss (key rotation)
+ */
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<JsonWebKey> {
+  const cached = jwksCache.get(jwksUri)
+  const key = (cached && findKey(cached, kid)) || findKey(await loadJwks(jwksUri), kid)
+  if (!key) {
+    throw new Error(`No signing key found for kid ${kid ?? '(none)'}`)
+  }
+  return key
+}
+
+/**
+ * Validate ID token claims (OIDC Core 3.1.3.7)
+ * @returns Error message, or null if claims are valid
+ */
+export function validateIdTokenClaims(claims: Record<string, unknown>, expected: IdTokenExpectations): string | null {
+  if (claims.iss !== expected.issuer) {
+    return 'Invalid issuer'
+  }
+
+  const aud = claims.aud
+  const audiences = Array.isArray(aud) ? aud : [aud]
+  if (!audiences.includes(expected.clientId)) {
+    return 'Invalid audience'
+  }
+  if (audiences.length > 1 && claims.azp !== undefined && claims.azp !== expected.clientId) {
+    return 'Invalid authorized party'
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 + expected.clockToleranceMs <= expected.now) {
+    return 'ID token expired'
+  }
+  if (typeof claims.iat === 'number' && claims.iat * 1000 - expected.clockToleranceMs > expected.now) {
+    return 'ID token issued in the future'
+  }
+
+  if (expected.nonce !== undefined && claims.nonce !== expected.nonce) {
+    return 'Invalid nonce'
+  }
+
+  return null
+}
+
+/**
+ * Verify ID token signature against JWKS and validate claims
+ * @returns Decoded claims
+ * @throws OidcFetchError if the JWKS could not be loaded
+ * @throws Error if token is malformed, signature is invalid or claims fail validation
+ */
+export async function verifyIdToken(idToken: string, jwksUri: string, expected: IdTokenExpectations): Promise<Record<string, unknown>> {
+  const jwt = decodeJwt(idToken)
+  if (!jwt) {
+    throw new Error('Malformed ID token')
+  }
+  if (!isSupportedJwsAlgorithm(jwt.header.alg)) {
+    throw new Error(`Unsupported ID token algorithm: ${String(jwt.header.alg)}`)
+  }
+
+  const key = await getSigningKey(jwksUri, jwt.header.kid)
+  if (!(await verifyJwtSignature(jwt, key))) {
+    throw new Error('Invalid ID token signature')
+  }
+
+  const error = validateIdTokenClaims(jwt.payload, expected)
+  if (error) {
+    throw new Error(error)
+  }
+  return jwt.payload
+}
@@ -0,0 +1,26 @@
+import { base64UrlEncode } from '../../utils/binary'
+
+/**
+ * PKCE helpers (RFC 7636)
+ *
+ * Runs in worker only - the code verifier never leaves the worker
+ * (it is persisted to IndexedDB to survive the authorization redirect).
+ */
+
+/**
+ * Generate cryptographically random base64url string
+ * 32 bytes => 43 chars, within the 43-128 chars allowed for code verifiers
+ */
+export function generateRandomString(byteLength: number = 32): string {
+  const bytes = new Uint8Array(byteLength)
+  crypto.getRandomValues(bytes)
+  return base64UrlEncode(bytes)
+}
+
+/**
+ * Create S256 code challenge: base64url(SHA-256(verifier))
+ */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+  return base64UrlEncode(new Uint8Array(digest))
+}
@@ -0,0 +1,133 @@
+import type { TokenInfo, TokenParser, ParserConfig, JwtParserConfig } from '../../types'
+import { normalizeExpiresAt } from './normalize'
+import { decodeJwt } from '../../utils/jwt'
+import { serverNow, observeServerTime } from '../../utils/clock'
+import { IAT_SAMPLE_WINDOW_MS } from '../../constants'
+
+/**
+ * Read value at dot path (e.g. 'data.tokens.access')
+ * Empty path returns the value itself
+ */
+export function getByPath(value: unknown, path: string): unknown {
+  if (!path) return value
+
+  let current = value
+  for (const key of path.split('.')) {
+    if (current == null || typeof current !== 'object') {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current
+}
+
+/**
+ * Read token from response header, stripping auth scheme (e.g. "Bearer ")
+ */
+function readTokenHeader(response: Response, header: string): string | undefined {
+  const value = response.headers.get(header)
+  if (!value) return undefined
+  return value.replace(/^Bearer\s+/i, '').trim() || undefined
+}
+
+/**
+ * Derive expiry (server clock) and mapped user claims from JWT access token
+ */
+function readJwtClaims(
+  token: string,
+  response: Response,
+  config: JwtParserConfig
+): { expiresAt?: number; user?: Record<string, unknown> } {
+  const jwt = decodeJwt(token)
+  if (!jwt) return {}
+
+  const { exp, iat } = jwt.payload
+  const result: { expiresAt?: number; user?: Record<string, unknown> } = {}
+
+  // A fresh token is issued "now" - use iat as server time when Date is not exposed.
+  // An iat far from the local clock more likely belongs to a reused token.
+  if (config.clockSkew !== false && typeof iat === 'number' && !response.headers.has('Date')
+    && Math.abs(iat * 1000 - Date.now()) <= IAT_SAMPLE_WINDOW_MS) {
+    observeServerTime(iat * 1000)
+  }
+
+  if (typeof exp === 'number') {
+    result.expiresAt = exp * 1000
+  }
+
+  if (config.userClaims) {
+    result.user = {}
+    for (const [field, claim] of Object.entries(config.userClaims)) {
+      result.user[field] = getByPath(jwt.payload, claim)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Configurable parser - parse token response using declarative field paths
+ *
+ * Defaults match bodyParser: { data: { accessToken, refreshToken, expiresAt, user } }
+ * Fields missing from the response are omitted, so the worker keeps their current value.
+ * With `jwt`, expiry and user claims are decoded from the access token itself.
+ *
+ * @param config - Field paths, expiry mode, optional token header and JWT mode
+ * @param includeRefreshToken - false for cookie-auth (refresh token lives in httpOnly cookie)
+ */
+export function createConfigurableParser(config: ParserConfig, includeRefreshToken: boolean = true): TokenParser {
+  const {
+    tokenPath = 'data.accessToken',
+    refreshTokenPath = 'data.refreshToken',
+    expiresPath = 'data.expiresAt',
+    expiresMode = 'absolute',
+    userPath = 'data.user',
+    tokenHeader,
+    jwt
+  } = config
+  const jwtConfig: JwtParserConfig | undefined = jwt === true ? {} : jwt || undefined
+
+  return {
+    async parse(response) {
+      // Body may be empty when token comes from header
+      const json = await response.clone().json().catch(() => ({}))
+
+      const tokenInfo: TokenInfo = {
+        token: (tokenHeader && readTokenHeader(response, tokenHeader)) || (getByPath(json, tokenPath) as string | undefined)
+      }
+
+      const expires = getByPath(json, expiresPath)
+      if (expires != null) {
+        const seconds = Number(expires)
+        tokenInfo.expiresAt = expiresMode === 'relative'
+          ? (Number.isFinite(seconds) ? serverNow() + seconds * 1000 : undefined)
+          : normalizeExpiresAt(expires)
+      }
+
+      if (includeRefreshToken) {
+        const refreshToken = getByPath(json, refreshTokenPath)
+        if (refreshToken != null) {
+          tokenInfo.refreshToken = refreshToken as string
+        }
+      }
+
+      let user = getByPath(json, userPath)
+
+      if (jwtConfig && typeof tokenInfo.token === 'string') {
+        const claims = readJwtClaims(tokenInfo.token, response, jwtConfig)
+        if (claims.expiresAt !== undefined) {
+          tokenInfo.expiresAt = claims.expiresAt
+        }
+        if (claims.user) {
+          user = user && typeof user === 'object' ? { ...user, ...claims.user } : claims.user
+        }
+      }
+
+      if (user !== undefined) {
+        tokenInfo.user = user
+      }
+
+      return tokenInfo
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import type { TokenInfo, TokenParser } from '../../types'
+import { serverNow } from '../../utils/clock'
+
+/**
+ * OAuth parser - parse standard OAuth 2.0 token response (RFC 6749, section 5.1)
+ * Expects response format: { access_token, expires_in?, refresh_token? }
+ *
+ * refresh_token is only included when present, so a refresh response
+ * without rotation keeps the current refresh token.
+ */
+export const oauthParser: TokenParser = {
+  async parse(response) {
+    const json = await response.clone().json()
+    const expiresIn = Number(json.expires_in)
+
+    const tokenInfo: TokenInfo = {
+      token: json.access_token,
+      expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? serverNow() + expiresIn * 1000 : undefined
+    }
+    if (json.refresh_token) {
+      tokenInfo.refreshToken = json.refresh_token
+    }
+    return tokenInfo
+  }
+}
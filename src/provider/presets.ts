@@ -2,9 +2,19 @@ import { createProvider } from './create-provider'
 import { createIndexedDBStorage } from './storage/indexeddb'
 import { bodyParser } from './parser/body'
 import { cookieParser } from './parser/cookie'
+import { createConfigurableParser } from './parser/configurable'
 import { createCookieStrategy } from './strategy/cookie'
 import { createBodyStrategy } from './strategy/body'
-import type { TokenProvider } from '../types'
+import { oauthParser } from './parser/oauth'
+import { createOAuthStrategy } from './strategy/oauth'
+import { generateRandomString, createCodeChallenge } from './oauth/pkce'
+import { discoverOidc, verifyIdToken, OidcFetchError, type OidcMetadata } from './oauth/oidc'
+import { ok, err, type Result } from 'ts-micro-result'
+import { AuthErrors, InitErrors, RequestErrors } from '../errors'
+import { ERROR_CODES } from '../error-codes'
+import { ID_TOKEN_CLOCK_TOLERANCE_MS } from '../constants'
+import { serverNow } from '../utils/clock'
+import type { TokenProvider, TokenParser, TokenInfo, AuthorizeOptions, ParserConfig } from '../types'
 
 /**
  * Cookie Provider - uses httpOnly cookies
@@ -18,11 +28,12 @@ export function createCookieProvider(config: {
   loginUrl: string
   logoutUrl: string
   headers?: Record<string, string>
+  parser?: ParserConfig
   defaultHeaders?: Record<string, string>
 }): TokenProvider {
   return createProvider({
     refreshStorage: undefined,
-    parser: cookieParser,
+    parser: config.parser ? createConfigurableParser(config.parser, false) : cookieParser,
     strategy: createCookieStrategy(config)
   })
 }
@@ -40,11 +51,315 @@ export function createBodyProvider(config: {
   logoutUrl: string
   refreshTokenKey?: string
   headers?: Record<string, string>
+  parser?: ParserConfig
   defaultHeaders?: Record<string, string>
 }): TokenProvider {
   return createProvider({
     refreshStorage: createIndexedDBStorage('FetchGuardDB', config.refreshTokenKey || 'refreshToken'),
-    parser: bodyParser,
+    parser: config.parser ? createConfigurableParser(config.parser) : bodyParser,
     strategy: createBodyStrategy(config)
   })
 }
+
+/** Max time between authorize() and completeLogin() */
+const PKCE_MAX_AGE_MS = 10 * 60 * 1000
+
+/**
+ * Config shared by OAuth-based presets
+ */
+interface OAuthProviderConfig {
+  authorizationUrl: string
+  tokenUrl: string
+  clientId: string
+  redirectUri: string
+  scope?: string
+  revocationUrl?: string
+  refreshTokenKey?: string
+  headers?: Record<string, string>
+  authorizationParams?: Record<string, string>
+  defaultHeaders?: Record<string, string>
+}
+
+/**
+ * Build Authorization Code + PKCE provider
+ *
+ * @param parser - Token response parser
+ * @param useNonce - Send OIDC nonce; it is passed to login payload as `nonce`
+ */
+function createPkceProvider(config: OAuthProviderConfig, parser: TokenParser, useNonce: boolean): TokenProvider {
+  const refreshTokenKey = config.refreshTokenKey || 'refreshToken'
+  const refreshStorage = createIndexedDBStorage('FetchGuardDB', refreshTokenKey)
+  // Pending authorization request ({ state, verifier, nonce?, createdAt }) as JSON
+  const pkceStorage = createIndexedDBStorage('FetchGuardDB', `${refreshTokenKey}:pkce`)
+
+  const provider = createProvider({
+    refreshStorage,
+    parser,
+    strategy: createOAuthStrategy(config),
+    customMethods: {
+      async authorize(rawOptions?: unknown) {
+        const options = (rawOptions ?? {}) as AuthorizeOptions
+        const state = generateRandomString(16)
+        const verifier = generateRandomString(32)
+        const nonce = useNonce ? generateRandomString(16) : undefined
+        const challenge = await createCodeChallenge(verifier)
+
+        await pkceStorage.set(JSON.stringify({ state, verifier, nonce, createdAt: Date.now() }))
+
+        const url = new URL(config.authorizationUrl)
+        const params: Record<string, string> = {
+          ...config.authorizationParams,
+          ...options.params,
+          response_type: 'code',
+          client_id: config.clientId,
+          redirect_uri: config.redirectUri,
+          state,
+          code_challenge: challenge,
+          code_challenge_method: 'S256'
+        }
+        const scope = options.scope ?? config.scope
+        if (scope) {
+          params.scope = scope
+        }
+        if (nonce) {
+          params.nonce = nonce
+        }
+        for (const [key, value] of Object.entries(params)) {
+          url.searchParams.set(key, value)
+        }
+
+        return ok({ redirectUrl: url.toString() })
+      },
+
+      async completeLogin(callbackUrl?: unknown) {
+        const params = new URL(String(callbackUrl)).searchParams
+
+        const error = params.get('error')
+        if (error) {
+          const description = params.get('error_description')
+          return err(AuthErrors.LoginFailed({ message: description ? `${error}: ${description}` : error }))
+        }
+
+        const stored = await pkceStorage.get()
+        // One-time use - clear before exchanging so a replayed callback fails
+        await pkceStorage.set(null)
+
+        let pending: { state?: string; verifier?: string; nonce?: string; createdAt?: number } = {}
+        try {
+          pending = stored ? JSON.parse(stored) : {}
+        } catch {
+          // Corrupted entry - treated as missing
+        }
+
+        if (!pending.verifier || !pending.state) {
+          return err(AuthErrors.LoginFailed({ message: 'No pending authorization request' }))
+        }
+        if (params.get('state') !== pending.state) {
+          return err(AuthErrors.LoginFailed({ message: 'Authorization state mismatch' }))
+        }
+        if (!pending.createdAt || Date.now() - pending.createdAt > PKCE_MAX_AGE_MS) {
+          return err(AuthErrors.LoginFailed({ message: 'Authorization request expired' }))
+        }
+
+        const code = params.get('code')
+        if (!code) {
+          return err(AuthErrors.LoginFailed({ message: 'No authorization code in callback URL' }))
+        }
+
+        return provider.login({ code, codeVerifier: pending.verifier, nonce: pending.nonce })
+      }
+    }
+  })
+
+  // Revoke persisted refresh token on logout - best effort: if the IdP is unreachable
+  // or rejects the revocation, the user is still signed out locally
+  const baseLogout = provider.logout
+  provider.logout = async (payload?: unknown) => {
+    const token = await refreshStorage.get()
+    const result = await baseLogout({ ...(payload as object | undefined), token })
+    if (result.ok) {
+      return result
+    }
+
+    await refreshStorage.set(null)
+    return ok({ token: '', refreshToken: undefined, expiresAt: undefined, user: null })
+  }
+
+  return provider
+}
+
+/**
+ * OAuth Provider - Authorization Code + PKCE against an external IdP
+ * Suitable for SPAs using a third-party identity provider
+ *
+ * Access token: Worker memory
+ * Refresh token: IndexedDB (persists across reload)
+ * Code verifier: IndexedDB (survives the redirect, deleted on first use)
+ *
+ * Custom methods:
+ * - authorize(options?) → { redirectUrl } to navigate to
+ * - completeLogin(callbackUrl) → validates state, exchanges code for tokens
+ */
+export function createOAuthProvider(config: OAuthProviderConfig): TokenProvider {
+  return createPkceProvider(config, oauthParser, false)
+}
+
+/**
+ * Token response of an OIDC provider before ID token validation
+ */
+type OidcTokenInfo = TokenInfo & { idToken?: string }
+
+/**
+ * OpenID Connect Provider - OAuth PKCE flow with discovery and ID token validation
+ *
+ * Endpoints are discovered from `${issuer}/.well-known/openid-configuration` on first use.
+ * Every ID token (login and refresh) is verified against the JWKS before the worker
+ * updates its state; its claims become `AuthResult.user`.
+ * Refresh responses without an ID token keep the current user.
+ *
+ * logout: when endSession is enabled and the IdP has an end_session_endpoint,
+ * the result carries `redirectUrl` for RP-initiated logout.
+ */
+export function createOidcProvider(config: {
+  issuer: string
+  clientId: string
+  redirectUri: string
+  scope?: string
+  postLogoutRedirectUri?: string
+  endSession?: boolean
+  refreshTokenKey?: string
+  headers?: Record<string, string>
+  authorizationParams?: Record<string, string>
+  defaultHeaders?: Record<string, string>
+}): TokenProvider {
+  const refreshStorage = createIndexedDBStorage('FetchGuardDB', config.refreshTokenKey || 'refreshToken')
+  let inner: Promise<TokenProvider> | null = null
+  // Last validated ID token, sent as id_token_hint on RP-initiated logout (memory only)
+  let idTokenHint: string | null = null
+
+  const build = (metadata: OidcMetadata): TokenProvider => {
+    // Carries id_token with the result of the same response (concurrent login/refresh
+    // must not validate each other's token) - removed by the login/refresh wrappers
+    const parser: TokenParser = {
+      async parse(response) {
+        const json = await response.clone().json()
+        const tokenInfo: OidcTokenInfo = await oauthParser.parse(response)
+        if (typeof json.id_token === 'string') {
+          tokenInfo.idToken = json.id_token
+        }
+        return tokenInfo
+      }
+    }
+
+    const provider = createPkceProvider({
+      ...config,
+      scope: config.scope ?? 'openid profile',
+      authorizationUrl: metadata.authorization_endpoint,
+      tokenUrl: metadata.token_endpoint,
+      revocationUrl: metadata.revocation_endpoint
+    }, parser, true)
+
+    const withIdToken = async (result: Result<TokenInfo>, nonce: string | undefined, required: boolean): Promise<Result<TokenInfo>> => {
+      if (!result.ok) {
+        return result
+      }
+
+      const { idToken, ...tokenInfo } = result.data as OidcTokenInfo
+      if (!idToken) {
+        return required ? err(AuthErrors.IdTokenInvalid({ message: 'No ID token in response' })) : ok(tokenInfo)
+      }
+
+      try {
+        const claims = await verifyIdToken(idToken, metadata.jwks_uri, {
+          issuer: metadata.issuer,
+          clientId: config.clientId,
+          nonce,
+          clockToleranceMs: ID_TOKEN_CLOCK_TOLERANCE_MS,
+          now: serverNow()
+        })
+        idTokenHint = idToken
+        return ok({ ...tokenInfo, user: claims })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        // IdP briefly unreachable is transient - the refresh is retried, the session kept
+        return error instanceof OidcFetchError
+          ? err(RequestErrors.NetworkError({ message }))
+          : err(AuthErrors.IdTokenInvalid({ message }))
+      }
+    }
+
+    const baseLogin = provider.login
+    provider.login = async (payload: unknown, url?: string) => {
+      const { nonce } = (payload ?? {}) as { nonce?: string }
+      const result = await withIdToken(await baseLogin(payload, url), nonce, true)
+      if (!result.ok) {
+        // Do not keep a refresh token from a rejected login
+        await refreshStorage.set(null)
+      }
+      return result
+    }
+
+    // Token endpoint answered (and rotated the stored refresh token) but the ID token could
+    // not be checked yet - the worker still holds the old refresh token, so retry from storage
+    let retryFromStorage = false
+    const baseRefresh = provider.refreshToken
+    provider.refreshToken = async (refreshToken: string | null) => {
+      const response = await baseRefresh(retryFromStorage ? null : refreshToken)
+      const result = await withIdToken(response, undefined, false)
+      retryFromStorage = response.ok && !result.ok && result.errors[0]?.code === ERROR_CODES.NETWORK_ERROR
+      return result
+    }
+
+    const baseLogout = provider.logout
+    provider.logout = async (payload?: unknown) => {
+      const result = await baseLogout(payload)
+      const hint = idTokenHint
+      if (result.ok) {
+        idTokenHint = null
+      }
+      if (!result.ok || !config.endSession || !metadata.end_session_endpoint) {
+        return result
+      }
+
+      const url = new URL(metadata.end_session_endpoint)
+      if (hint) {
+        url.searchParams.set('id_token_hint', hint)
+      }
+      url.searchParams.set('client_id', config.clientId)
+      if (config.postLogoutRedirectUri) {
+        url.searchParams.set('post_logout_redirect_uri', config.postLogoutRedirectUri)
+      }
+      return ok({ ...result.data, redirectUrl: url.toString() })
+    }
+
+    return provider
+  }
+
+  const getInner = (): Promise<TokenProvider> => {
+    if (!inner) {
+      inner = discoverOidc(config.issuer).then(build)
+      inner.catch(() => { inner = null })
+    }
+    return inner
+  }
+
+  // Delegate every method to the provider built from discovered metadata
+  const delegate = (method: string) => async (...args: unknown[]): Promise<Result<TokenInfo>> => {
+    let provider: TokenProvider
+    try {
+      provider = await getInner()
+    } catch (error) {
+      return err(InitErrors.ProviderInitFailed({ message: error instanceof Error ? error.message : String(error) }))
+    }
+    return provider[method](...args)
+  }
+
+  return {
+    refreshToken: delegate('refreshToken'),
+    login: delegate('login'),
+    logout: delegate('logout'),
+    exchangeToken: delegate('exchangeToken'),
+    authorize: delegate('authorize'),
+    completeLogin: delegate('completeLogin')
+  } as TokenProvider
+}
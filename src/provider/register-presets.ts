@@ -1,4 +1,4 @@
-import { createCookieProvider, createBodyProvider } from './presets'
+import { createCookieProvider, createBodyProvider, createOAuthProvider, createOidcProvider } from './presets'
 import type { TokenProvider, ProviderPresetConfig } from '../types'
 
 /**
@@ -16,6 +16,7 @@ export function buildProviderFromPreset(config: ProviderPresetConfig, defaultHea
         loginUrl: config.loginUrl,
         logoutUrl: config.logoutUrl,
         headers: config.headers,
+        parser: config.parser,
         defaultHeaders
       })
 
@@ -26,6 +27,35 @@ export function buildProviderFromPreset(config: ProviderPresetConfig, defaultHea
         logoutUrl: config.logoutUrl,
         refreshTokenKey: config.refreshTokenKey,
         headers: config.headers,
+        parser: config.parser,
+        defaultHeaders
+      })
+
+    case 'oauth-pkce':
+      return createOAuthProvider({
+        authorizationUrl: config.authorizationUrl,
+        tokenUrl: config.tokenUrl,
+        clientId: config.clientId,
+        redirectUri: config.redirectUri,
+        scope: config.scope,
+        revocationUrl: config.revocationUrl,
+        refreshTokenKey: config.refreshTokenKey,
+        headers: config.headers,
+        authorizationParams: config.authorizationParams,
+        defaultHeaders
+      })
+
+    case 'oidc':
+      return createOidcProvider({
+        issuer: config.issuer,
+        clientId: config.clientId,
+        redirectUri: config.redirectUri,
+        scope: config.scope,
+        endSession: config.endSession,
+        postLogoutRedirectUri: config.postLogoutRedirectUri,
+        refreshTokenKey: config.refreshTokenKey,
+        headers: config.headers,
+        authorizationParams: config.authorizationParams,
         defaultHeaders
       })
 
@@ -33,3 +63,18 @@ export function buildProviderFromPreset(config: ProviderPresetConfig, defaultHea
       throw new Error(`Unknown provider type: ${String((config as { type?: unknown }).type)}`)
   }
 }
+
+/**
+ * Stable key identifying a preset's auth server
+ * Used to scope cross-tab locks and channels per provider
+ */
+export function getPresetKey(config: ProviderPresetConfig): string {
+  switch (config.type) {
+    case 'oauth-pkce':
+      return `${config.type}:${config.tokenUrl}`
+    case 'oidc':
+      return `${config.type}:${config.issuer}`
+    default:
+      return `${config.type}:${config.refreshUrl}`
+  }
+}
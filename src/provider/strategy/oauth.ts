@@ -0,0 +1,101 @@
+import type { AuthStrategy, ExchangeTokenOptions } from '../../types'
+
+/**
+ * OAuth strategy - Authorization Code + PKCE against an external IdP
+ *
+ * All token endpoint calls use application/x-www-form-urlencoded bodies (RFC 6749).
+ * Credentials (cookies) are NOT sent - external IdPs rarely allow credentialed CORS.
+ *
+ * - refresh: grant_type=refresh_token
+ * - login: grant_type=authorization_code, payload = { code, codeVerifier }
+ * - logout: revoke token (RFC 7009) if revocationUrl is configured, payload = { token }
+ * - exchangeToken: grant_type=token-exchange (RFC 8693)
+ *
+ * Header priority (lowest to highest):
+ * - defaultHeaders (from FetchGuardOptions)
+ * - headers (from ProviderPresetConfig)
+ * - Content-Type: application/x-www-form-urlencoded
+ */
+export function createOAuthStrategy(config: {
+  tokenUrl: string
+  clientId: string
+  redirectUri: string
+  scope?: string
+  revocationUrl?: string
+  headers?: Record<string, string>
+  defaultHeaders?: Record<string, string>
+}): AuthStrategy {
+  const baseHeaders = {
+    ...config.defaultHeaders,
+    ...config.headers,
+    'Accept': 'application/json',
+    'Content-Type': 'application/x-www-form-urlencoded'
+  }
+
+  const postForm = (url: string, params: Record<string, string>, method: string = 'POST', headers?: Record<string, string>) =>
+    fetch(url, {
+      method,
+      headers: { ...baseHeaders, ...headers },
+      body: new URLSearchParams(params)
+    })
+
+  return {
+    async refresh(refreshToken) {
+      if (!refreshToken) {
+        throw new Error('No refresh token available')
+      }
+
+      return postForm(config.tokenUrl, {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: config.clientId,
+        ...(config.scope ? { scope: config.scope } : {})
+      })
+    },
+
+    async login(payload, url) {
+      const { code, codeVerifier } = (payload ?? {}) as { code?: string; codeVerifier?: string }
+      if (!code || !codeVerifier) {
+        throw new Error('Authorization code and code verifier are required')
+      }
+
+      return postForm(url || config.tokenUrl, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: config.redirectUri,
+        client_id: config.clientId,
+        code_verifier: codeVerifier
+      })
+    },
+
+    async logout(payload) {
+      const { token } = (payload ?? {}) as { token?: string | null }
+      if (!config.revocationUrl || !token) {
+        // Nothing to revoke server-side - local logout only
+        return new Response(null, { status: 204 })
+      }
+
+      return postForm(config.revocationUrl, {
+        token,
+        token_type_hint: 'refresh_token',
+        client_id: config.clientId
+      })
+    },
+
+    async exchangeToken(accessToken: string, url: string, options: ExchangeTokenOptions = {}) {
+      const { method = 'POST', payload, headers } = options
+      const extra: Record<string, string> = {}
+      for (const [key, value] of Object.entries(payload ?? {})) {
+        extra[key] = String(value)
+      }
+
+      return postForm(url, {
+        grant_type: 'urn:ietf:params:oauth:grant-type:token-exchange',
+        subject_token: accessToken,
+        subject_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+        client_id: config.clientId,
+        ...extra
+      }, method, headers)
+    }
+  }
+}
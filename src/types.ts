@@ -23,6 +23,8 @@ export interface TokenInfo {
   expiresAt?: number | null
   refreshToken?: string | null
   user?: unknown
+  /** URL the main thread should navigate to (e.g. OAuth authorization endpoint) */
+  redirectUrl?: string
 }
 
 /**
@@ -40,6 +42,21 @@ export interface ExchangeTokenOptions {
   headers?: Record<string, string>
 }
 
+/**
+ * Options for auth calls (login, logout, call, ...)
+ */
+export interface AuthCallOptions {
+  /** Whether to emit AUTH_STATE_CHANGED event. Default: true */
+  emitEvent?: boolean
+  /** Timeout in ms, including time waiting in the request queue. Default: 15000 */
+  timeout?: number
+  /**
+   * Abort the call. Once sent, the worker still completes it (auth state is
+   * not left half-updated) - only the result is discarded
+   */
+  signal?: AbortSignal
+}
+
 /**
  * Auth result returned from auth operations and auth state changes
  * Used by: login(), logout(), refreshToken(), onAuthStateChanged()
@@ -53,6 +70,9 @@ export interface AuthResult {
 
   /** Token expiry timestamp in milliseconds (if available) */
   expiresAt?: number | null
+
+  /** URL to navigate to - only set in auth call results (e.g. OAuth authorize) */
+  redirectUrl?: string
 }
 
 /**
@@ -182,9 +202,83 @@ export interface AuthStrategy {
 }
 
 /**
- * Provider preset configuration for built-in auth strategies
+ * Declarative token response parser config (serializable, sent to worker)
+ *
+ * Paths use dot notation relative to the JSON body ('' = whole body).
+ * Defaults match the built-in shape: { data: { accessToken, refreshToken, expiresAt, user } }
  */
-export interface ProviderPresetConfig {
+export interface ParserConfig {
+  /** Path to access token (default: 'data.accessToken') */
+  tokenPath?: string
+  /** Path to refresh token, ignored for cookie-auth (default: 'data.refreshToken') */
+  refreshTokenPath?: string
+  /** Path to expiry (default: 'data.expiresAt') */
+  expiresPath?: string
+  /**
+   * How to read expiry value (default: 'absolute')
+   * - absolute: timestamp in ms/seconds or ISO string
+   * - relative: seconds from now (e.g. OAuth `expires_in`)
+   */
+  expiresMode?: 'absolute' | 'relative'
+  /** Path to user info (default: 'data.user') */
+  userPath?: string
+  /**
+   * Read access token from this response header instead of body (e.g. 'Authorization')
+   * "Bearer " prefix is stripped. Falls back to tokenPath when header is missing.
+   * Cross-origin auth APIs must list it in Access-Control-Expose-Headers.
+   */
+  tokenHeader?: string
+  /**
+   * Treat access token as JWT and decode its payload in worker
+   * - `exp` becomes expiresAt (body expiry is used only when token has no `exp`)
+   * - `true` enables with defaults
+   */
+  jwt?: boolean | JwtParserConfig
+}
+
+/**
+ * JWT access token parsing options
+ */
+export interface JwtParserConfig {
+  /**
+   * Map user fields to token claims, e.g. { id: 'sub', roles: 'realm_access.roles' }
+   * Merged over the body user when both exist
+   */
+  userClaims?: Record<string, string>
+  /**
+   * Use `iat` as a server time sample for clock skew compensation when the
+   * response has no `Date` header (default: true)
+   * Only an `iat` within 5 minutes of the local clock counts - an older one
+   * usually means the token was reused rather than issued now.
+   * Cross-origin auth APIs should list `Date` in Access-Control-Expose-Headers instead.
+   */
+  clockSkew?: boolean
+}
+
+/**
+ * Refresh failure handling for automatic refresh
+ *
+ * Definitive rejections (definitiveStatuses, missing refresh token, invalid response)
+ * clear the session. Transient failures (network errors, 5xx, timeouts) are retried
+ * and the current session is kept if all attempts fail.
+ */
+export interface RefreshRetryConfig {
+  /** Retries after a transient failure (default: 2) */
+  maxAttempts?: number
+  /** Delay before first retry in milliseconds (default: 1000) */
+  delay?: number
+  /** Exponential backoff multiplier (default: 2) */
+  backoff?: number
+  /** Maximum delay in milliseconds (default: 10000) */
+  maxDelay?: number
+  /** Refresh endpoint statuses that end the session (default: [400, 401, 403]) */
+  definitiveStatuses?: number[]
+}
+
+/**
+ * Preset config for first-party credentials auth (cookie or body refresh token)
+ */
+export interface CredentialsPresetConfig {
   type: 'cookie-auth' | 'body-auth'
   refreshUrl: string
   loginUrl: string
@@ -192,6 +286,84 @@ export interface ProviderPresetConfig {
   refreshTokenKey?: string
   /** Custom headers to include in all auth requests (login, logout, refresh) */
   headers?: Record<string, string>
+  /** Token response shape (default: { data: { accessToken, refreshToken, expiresAt, user } }) */
+  parser?: ParserConfig
+  /** Retry policy for transient refresh failures */
+  refreshRetry?: RefreshRetryConfig
+}
+
+/**
+ * Preset config for OAuth 2.0 Authorization Code + PKCE against an external IdP
+ *
+ * Code verifier is generated and kept in worker (persisted to IndexedDB across the redirect).
+ * Refresh token is persisted to IndexedDB under refreshTokenKey.
+ */
+export interface OAuthPkcePresetConfig {
+  type: 'oauth-pkce'
+  /** IdP authorization endpoint */
+  authorizationUrl: string
+  /** IdP token endpoint (code exchange + refresh) */
+  tokenUrl: string
+  clientId: string
+  /** Redirect URI registered with the IdP */
+  redirectUri: string
+  /** Space-separated scopes */
+  scope?: string
+  /** Token revocation endpoint (RFC 7009) - called on logout if set, best effort (logout succeeds locally if it fails) */
+  revocationUrl?: string
+  refreshTokenKey?: string
+  /** Custom headers to include in token endpoint requests */
+  headers?: Record<string, string>
+  /** Extra query params for authorization URL (e.g. audience, prompt) */
+  authorizationParams?: Record<string, string>
+  /** Retry policy for transient refresh failures */
+  refreshRetry?: RefreshRetryConfig
+}
+
+/**
+ * Preset config for OpenID Connect (Authorization Code + PKCE with discovery)
+ *
+ * Endpoints come from `${issuer}/.well-known/openid-configuration`.
+ * ID tokens are validated (signature, iss, aud, nonce, exp) and their claims become `AuthResult.user`.
+ */
+export interface OidcPresetConfig {
+  type: 'oidc'
+  /** Issuer identifier, must equal `issuer` in discovery metadata */
+  issuer: string
+  clientId: string
+  /** Redirect URI registered with the IdP */
+  redirectUri: string
+  /** Space-separated scopes (default: 'openid profile') */
+  scope?: string
+  /**
+   * Return end_session_endpoint URL from logout as `redirectUrl` (default: false)
+   * Includes id_token_hint with the last ID token validated since the worker started
+   */
+  endSession?: boolean
+  /** post_logout_redirect_uri for end session */
+  postLogoutRedirectUri?: string
+  refreshTokenKey?: string
+  /** Custom headers to include in token endpoint requests */
+  headers?: Record<string, string>
+  /** Extra query params for authorization URL (e.g. prompt, ui_locales) */
+  authorizationParams?: Record<string, string>
+  /** Retry policy for transient refresh failures */
+  refreshRetry?: RefreshRetryConfig
+}
+
+/**
+ * Provider preset configuration for built-in auth strategies
+ */
+export type ProviderPresetConfig = CredentialsPresetConfig | OAuthPkcePresetConfig | OidcPresetConfig
+
+/**
+ * Options for building OAuth authorization URL
+ */
+export interface AuthorizeOptions {
+  /** Override configured scope */
+  scope?: string
+  /** Extra query params (merged over authorizationParams) */
+  params?: Record<string, string>
 }
 
 /**
@@ -209,6 +381,18 @@ export interface FetchGuardOptions {
   /** List of allowed domains (wildcard supported) */
   allowedDomains?: string[]
 
+  /**
+   * Base URL for relative request paths (e.g., 'https://api.example.com/v1')
+   * Absolute request URLs ignore baseUrl. Can be overridden per-request.
+   */
+  baseUrl?: string
+
+  /**
+   * How array values in `params` are serialized (default: 'repeat')
+   * Can be overridden per-request.
+   */
+  paramsArrayFormat?: ArrayFormat
+
   /** Early refresh time for tokens (ms) */
   refreshEarlyMs?: number
 
@@ -238,8 +422,9 @@ export interface FetchGuardOptions {
 
   /**
    * Default request timeout in milliseconds (default: 30000)
-   * How long to wait for a request to complete before timing out.
-   * Can be overridden per-request via fetch options.
+   * Deadline covering queue wait and network: QUEUE_TIMEOUT if the request never
+   * left the queue, otherwise REQUEST_TIMEOUT and the worker aborts the fetch.
+   * Applies per attempt when retrying. Can be overridden per-request via fetch options.
    */
   requestTimeout?: number
 
@@ -262,6 +447,69 @@ export interface FetchGuardOptions {
    */
   dedupe?: DedupeConfig
 
+  /**
+   * Automatic 401 recovery configuration
+   * When enabled, the worker refreshes the token and replays the request once
+   * if the server rejects it with 401/419 (e.g., token revoked before expiry).
+   */
+  unauthorizedRecovery?: UnauthorizedRecoveryConfig
+
+  /**
+   * Coordinate refresh and logout across tabs (dedicated mode, default: false)
+   *
+   * - Refresh runs under a Web Locks lock named per provider, so only one tab
+   *   uses a (rotating) refresh token at a time
+   * - Inside the lock the refresh token is read from the provider's storage,
+   *   so a token another tab just rotated is never reused
+   * - Logout in one tab signs out all tabs (see onCrossTabLogout)
+   *
+   * Not needed in shared mode (one worker already serves all tabs).
+   */
+  crossTabSync?: boolean
+
+  /**
+   * Refresh in the background at `expiresAt - refreshEarlyMs` (default: false)
+   *
+   * Keeps idle tabs (and cookie sessions) alive instead of refreshing lazily
+   * on the next request. Paused while the page is hidden.
+   */
+  backgroundRefresh?: boolean | BackgroundRefreshConfig
+
+  /**
+   * Cache GET responses in the worker with HTTP semantics (default: false)
+   *
+   * Honours Cache-Control / Expires, revalidates with ETag / Last-Modified
+   * (304 returns the cached envelope) and is purged on login, logout,
+   * exchangeToken and session end. The request `cache` option is respected.
+   */
+  cache?: boolean | CacheConfig
+
+  /**
+   * Persist mutations made while offline and replay them when back online (default: false)
+   *
+   * POST/PUT/PATCH/DELETE requests sent while offline (or failing with NETWORK_ERROR)
+   * are stored in IndexedDB by the worker and resolve with REQUEST_QUEUED.
+   * See onOfflineQueue() for pending/synced/failed events.
+   */
+  offlineQueue?: boolean | OfflineQueueConfig
+
+  /**
+   * Per-origin circuit breaker (default: false)
+   *
+   * Opens after a failure rate of NETWORK_ERROR, timeouts or 5xx; while open,
+   * requests to that origin fail fast with CIRCUIT_OPEN instead of queueing.
+   * See debug.onCircuitStateChange for state changes.
+   */
+  circuitBreaker?: boolean | CircuitBreakerConfig
+
+  /**
+   * Token-bucket rate limiting in the request queue (default: none)
+   *
+   * Requests over the limit wait in the queue (still bounded by the request timeout)
+   * instead of being sent. First matching rule applies.
+   */
+  rateLimit?: RateLimitRule | RateLimitRule[]
+
   /**
    * Custom worker factory function
    *
@@ -286,6 +534,34 @@ export interface FetchGuardOptions {
    * ```
    */
   workerFactory?: () => Worker
+
+  /**
+   * Worker mode (default: 'dedicated')
+   *
+   * - 'dedicated': each tab runs its own Worker (own token state, own refresh)
+   * - 'shared': all tabs of the same origin connect to one SharedWorker, sharing
+   *   token state and refresh. AUTH_STATE_CHANGED is broadcast to every tab.
+   *   Falls back to 'dedicated' when SharedWorker is unavailable (e.g., Android Chrome).
+   */
+  mode?: 'dedicated' | 'shared'
+
+  /**
+   * Custom SharedWorker factory (shared mode only)
+   *
+   * Same purpose as workerFactory, for custom worker files in shared mode.
+   * workerFactory is still used for the dedicated fallback.
+   *
+   * @example
+   * ```ts
+   * const api = createClient({
+   *   provider: 'my-auth',
+   *   mode: 'shared',
+   *   sharedWorkerFactory: () => new SharedWorker(new URL('./my-worker.ts', import.meta.url), { type: 'module', name: 'my-app-auth' }),
+   *   workerFactory: () => new Worker(new URL('./my-worker.ts', import.meta.url), { type: 'module' })
+   * })
+   * ```
+   */
+  sharedWorkerFactory?: () => SharedWorker
 }
 
 /**
@@ -295,18 +571,91 @@ export interface WorkerConfig {
   allowedDomains: string[]
   refreshEarlyMs: number
   defaultHeaders: Record<string, string>
+  unauthorizedRecovery?: UnauthorizedRecoveryConfig
+  crossTabSync?: boolean
+  backgroundRefresh?: BackgroundRefreshConfig
+  cache?: CacheConfig
+  offlineQueue?: OfflineQueueConfig
 }
 
 /**
  * Extended RequestInit with FetchGuard-specific options
  */
 export interface FetchGuardRequestInit extends RequestInit {
+  /** Base URL override for this request (client-side only, not sent to worker) */
+  baseUrl?: string
+  /** Query params appended to the URL (client-side only, not sent to worker) */
+  params?: QueryParams
+  /** Array format override for params (client-side only, not sent to worker) */
+  paramsArrayFormat?: ArrayFormat
   /** Whether this request requires authentication. Default: true */
   requiresAuth?: boolean
   /** Include response headers in result metadata and FETCH_RESULT payload */
   includeHeaders?: boolean
+  /** Refresh and replay once on 401/419. Overrides unauthorizedRecovery.enabled */
+  retryOnUnauthorized?: boolean
+  /** Allow replaying non-idempotent requests (POST, PATCH). Overrides unauthorizedRecovery.replayUnsafe */
+  replayUnsafe?: boolean
+  /**
+   * Upload progress callback (client-side only, not sent to worker)
+   * Worker sends the request via XMLHttpRequest to report bytes sent
+   */
+  onUploadProgress?: (progress: TransferProgress) => void
+  /**
+   * Download progress callback (client-side only, not sent to worker)
+   * Total comes from Content-Length (null when missing or body is compressed)
+   */
+  onDownloadProgress?: (progress: TransferProgress) => void
+  /**
+   * Return body as ArrayBuffer (transferred, zero-copy) or Blob instead of text/base64
+   */
+  responseType?: BinaryResponseType
+  /**
+   * Request deadline in ms, overrides requestTimeout (enforced in client and worker)
+   * Per attempt: with retry, each attempt gets a fresh deadline and nothing bounds
+   * the total - use signal: AbortSignal.timeout(ms) for that.
+   */
+  timeout?: number
+  /** Retry config override, false disables client retry (client-side only, not sent to worker) */
+  retry?: RetryConfig | false
+  /** Queue this mutation when offline (requires offlineQueue). Default: true */
+  queueOffline?: boolean
+}
+
+/**
+ * Binary response body types for FetchGuardRequestInit.responseType
+ */
+export type BinaryResponseType = 'arraybuffer' | 'blob'
+
+/**
+ * Upload/download progress (bytes transferred)
+ */
+export interface TransferProgress {
+  loaded: number
+  /** Total body size, null when not computable */
+  total: number | null
 }
 
+/**
+ * Query param value
+ * null/undefined are skipped, arrays are serialized per ArrayFormat
+ */
+export type QueryParamValue = string | number | boolean | null | undefined | Array<string | number | boolean>
+
+/**
+ * Query params object for FetchGuardRequestInit.params
+ */
+export type QueryParams = Record<string, QueryParamValue>
+
+/**
+ * Array serialization format for query params
+ * - 'repeat': ids=1&ids=2 (default)
+ * - 'brackets': ids[]=1&ids[]=2
+ * - 'comma': ids=1,2
+ * - 'index': ids[0]=1&ids[1]=2
+ */
+export type ArrayFormat = 'repeat' | 'brackets' | 'comma' | 'index'
+
 /**
  * Fetch envelope - raw HTTP response from worker
  *
@@ -314,17 +663,133 @@ export interface FetchGuardRequestInit extends RequestInit {
  * Client receives envelope and decides ok/err based on business logic.
  *
  * - status: HTTP status code (2xx, 3xx, 4xx, 5xx)
- * - body: string (text/JSON) or base64 (binary)
+ * - body: string (text/JSON) or base64 (binary); ArrayBuffer/Blob with responseType
  * - contentType: always present, indicates how to decode body
  * - headers: empty object if includeHeaders: false
  */
-export interface FetchEnvelope {
+export interface FetchEnvelope<TBody extends EnvelopeBody = string> {
   status: number
-  body: string
+  body: TBody
   contentType: string
   headers: Record<string, string>
 }
 
+/**
+ * Possible FetchEnvelope body types
+ */
+export type EnvelopeBody = string | ArrayBuffer | Blob
+
+/**
+ * Minimal schema interface for JSON decoding
+ * Zod schemas fit as-is: parse returns the value or throws.
+ * Thrown errors with an `issues` array keep their issues.
+ */
+export interface Schema<T> {
+  parse(input: unknown): T
+}
+
+/**
+ * Schemas for decodeJson / getJson
+ */
+export interface DecodeJsonOptions<T, E = unknown> {
+  /** Validates 2xx bodies (without it the body is cast to T) */
+  schema?: Schema<T>
+  /** Validates 4xx/5xx bodies, available in `meta.params.body` of HTTP_ERROR */
+  errorSchema?: Schema<E>
+}
+
+/**
+ * Options for getJson/postJson/... client methods
+ */
+export type JsonRequestOptions<T, E = unknown> =
+  Omit<FetchGuardRequestInit, 'method' | 'body' | 'responseType'> & DecodeJsonOptions<T, E>
+
+/**
+ * meta.params of HTTP_ERROR from decodeJson
+ */
+export interface HttpErrorParams<E = unknown> {
+  status: number
+  /** Error body (decoded with errorSchema; parsed JSON or raw text without it) */
+  body: E
+}
+
+/**
+ * meta.params of RESPONSE_VALIDATION_FAILED
+ */
+export interface ValidationErrorParams {
+  status: number
+  /** Schema issues (`error.issues` when present, otherwise [{ message }]) */
+  issues: unknown[]
+}
+
+/**
+ * Streamed response metadata (sent before the body)
+ */
+export interface StreamStart {
+  status: number
+  contentType: string
+  headers: Record<string, string>
+}
+
+/**
+ * Streamed response returned by fetchStream
+ * Body chunks are pulled from the worker on demand (backpressure)
+ */
+export interface StreamResponse extends StreamStart {
+  body: ReadableStream<Uint8Array>
+}
+
+/**
+ * Server-Sent Event delivered to the main thread
+ */
+export interface SseEvent {
+  /** Event name from `event:` field (default: 'message') */
+  type: string
+  data: string
+  lastEventId: string
+}
+
+/**
+ * Options for api.eventSource()
+ */
+export interface EventSourceOptions {
+  baseUrl?: string
+  params?: QueryParams
+  paramsArrayFormat?: ArrayFormat
+  headers?: Record<string, string>
+  /** Attach Authorization header (default: true) */
+  requiresAuth?: boolean
+  /** Resume from this event ID (sent as Last-Event-ID on first connect) */
+  lastEventId?: string
+  /**
+   * Reconnection delay until the server sends `retry:`
+   * @default 3000
+   */
+  reconnectDelay?: number
+  /** Close the stream when aborted */
+  signal?: AbortSignal
+}
+
+/**
+ * Event source options sent to worker (URL-building options and signal resolved in client)
+ */
+export type EventSourceRequest = Omit<EventSourceOptions, 'baseUrl' | 'params' | 'paramsArrayFormat' | 'signal'>
+
+/**
+ * SSE connection failure
+ * `reconnectIn` is set when the worker will reconnect, absent when the stream is closed for good
+ */
+export interface SseError {
+  message: string
+  status?: number
+  reconnectIn?: number
+}
+
+/**
+ * Event source connection state (mirrors EventSource.readyState)
+ */
+export type EventSourceState = 'connecting' | 'open' | 'closed'
+
 
 /**
  * Serialized file data for transfer over postMessage
@@ -365,14 +830,51 @@ export interface SerializedFormDataResult {
  * Used when no HTTP response is received (connection failed, timeout, cancelled)
  */
 export interface NetworkErrorDetail {
-  code: 'NETWORK_ERROR' | 'REQUEST_CANCELLED' | 'RESPONSE_PARSE_FAILED'
+  code: 'NETWORK_ERROR' | 'REQUEST_CANCELLED' | 'REQUEST_TIMEOUT' | 'RESPONSE_PARSE_FAILED'
+  message: string
+}
+
+/**
+ * HTTP response detail for status retries (see RetryConfig.retryOnStatus)
+ */
+export interface HttpRetryDetail {
+  code: 'HTTP_ERROR'
   message: string
+  status: number
+}
+
+/**
+ * Context passed to RetryConfig.shouldRetry
+ */
+export interface RetryContext {
+  /** Attempt that just failed (1 = initial request) */
+  attempt: number
+  /** Uppercased request method */
+  method: string
+  /** HTTP status (status retries only) */
+  status?: number
+  /** Server-requested delay in ms from Retry-After / RateLimit-Reset (status retries only) */
+  retryAfter?: number
 }
 
 /**
  * Reason for token refresh
  */
-export type RefreshReason = 'expired' | 'proactive' | 'manual'
+export type RefreshReason = 'expired' | 'proactive' | 'manual' | 'unauthorized'
+
+/**
+ * Details of a failed refresh (REFRESH_FAILED / SESSION_EXPIRED events)
+ */
+export interface RefreshFailure {
+  /** What triggered the refresh */
+  reason: RefreshReason
+  /** Error code from provider (e.g. TOKEN_REFRESH_FAILED, NETWORK_ERROR) */
+  code: string
+  /** HTTP status of the refresh response, if the server responded */
+  status?: number
+  /** true if the session was cleared, false if kept after transient failure */
+  definitive: boolean
+}
 
 /**
  * Request timing metrics for performance monitoring
@@ -414,11 +916,11 @@ export interface DebugHooks {
    * @param envelope - Response envelope (status, body, headers)
    * @param metrics - Request timing metrics (optional, for performance monitoring)
    */
-  onResponse?: (url: string, envelope: FetchEnvelope, metrics?: RequestMetrics) => void
+  onResponse?: (url: string, envelope: FetchEnvelope<EnvelopeBody>, metrics?: RequestMetrics) => void
 
   /**
    * Called when token refresh occurs
-   * @param reason - Why refresh happened: 'expired', 'proactive', or 'manual'
+   * @param reason - Why refresh happened: 'expired', 'proactive', 'manual', or 'unauthorized'
    */
   onRefresh?: (reason: RefreshReason) => void
 
@@ -440,13 +942,27 @@ export interface DebugHooks {
    * @param error - Error event from worker
    */
   onWorkerError?: (error: ErrorEvent) => void
+
+  /**
+   * Called when worker's estimate of server clock offset changes
+   * @param skewMs - Server time minus local time in ms (0 = clocks agree)
+   */
+  onClockSkew?: (skewMs: number) => void
+
+  /**
+   * Called when an origin's circuit changes state (requires circuitBreaker)
+   * @param origin - Request origin (e.g., 'https://api.example.com')
+   * @param state - New state
+   * @param previous - Previous state
+   */
+  onCircuitStateChange?: (origin: string, state: CircuitState, previous: CircuitState) => void
 }
 
 /**
  * Retry configuration for network errors
  *
- * Only retries on transport failures (network error, timeout).
- * Does NOT retry on HTTP errors (4xx/5xx) - those are valid responses.
+ * Retries transport failures (network error, timeout).
+ * HTTP errors (4xx/5xx) are valid responses - only retried when opted in via retryOnStatus.
  * Does NOT retry cancelled requests.
  */
 export interface RetryConfig {
@@ -484,13 +1000,29 @@ export interface RetryConfig {
    */
   jitter?: number
 
+  /**
+   * Also retry HTTP responses with these statuses (default: none - transport errors only)
+   * `true` uses 408, 429, 500, 502, 503, 504.
+   *
+   * Only idempotent methods are retried (GET, HEAD, OPTIONS, PUT, DELETE) unless
+   * retryNonIdempotent is set. Retry-After (seconds or HTTP-date) and RateLimit-Reset
+   * replace the computed delay; a server delay above maxDelay returns the response as is.
+   */
+  retryOnStatus?: boolean | number[]
+
+  /**
+   * Apply retryOnStatus to POST and PATCH too (default: false)
+   */
+  retryNonIdempotent?: boolean
+
   /**
    * Custom condition to determine if error should be retried
-   * Default: retry on NETWORK_ERROR only
-   * @param error - The error that occurred
+   * Default: retry on NETWORK_ERROR and on statuses matched by retryOnStatus
+   * @param error - The error that occurred (HTTP_ERROR for status retries)
+   * @param context - Attempt number, method and status
    * @returns true to retry, false to fail immediately
    */
-  shouldRetry?: (error: NetworkErrorDetail) => boolean
+  shouldRetry?: (error: NetworkErrorDetail | HttpRetryDetail, context: RetryContext) => boolean
 }
 
 /**
@@ -527,6 +1059,199 @@ export interface DedupeConfig {
   keyGenerator?: (url: string, options: FetchGuardRequestInit) => string | null
 }
 
+/**
+ * Automatic 401 recovery configuration
+ *
+ * When a request is rejected with one of `statuses`, the worker forces a token
+ * refresh (sharing the same refresh mutex as expiry-based refresh), then replays
+ * the original request once with the new token.
+ *
+ * IMPORTANT:
+ * - Opt-in (disabled by default), can be toggled per request via `retryOnUnauthorized`
+ * - Non-idempotent requests (POST, PATCH) are never replayed unless `replayUnsafe` is set
+ * - If refresh fails, the original 401/419 response is returned as-is
+ */
+export interface UnauthorizedRecoveryConfig {
+  /**
+   * Enable refresh-and-replay (default: false)
+   */
+  enabled?: boolean
+
+  /**
+   * HTTP status codes that trigger recovery (default: [401, 419])
+   */
+  statuses?: number[]
+
+  /**
+   * Replay non-idempotent requests (POST, PATCH) after refresh (default: false)
+   * Only enable if your endpoints are safe to call twice.
+   */
+  replayUnsafe?: boolean
+}
+
+/**
+ * Background refresh configuration
+ *
+ * Timer lives in the worker and is rescheduled after every token change.
+ * Refreshes emit TOKEN_REFRESHED with reason 'proactive'.
+ */
+export interface BackgroundRefreshConfig {
+  /**
+   * Enable scheduled refresh (default: true when config object is given)
+   */
+  enabled?: boolean
+
+  /**
+   * Stop refreshing after this many ms without requests or auth calls (default: no limit)
+   * The next request restarts the schedule (refreshing lazily if the token expired meanwhile).
+   */
+  keepAlive?: number
+}
+
+/**
+ * Worker response cache configuration
+ *
+ * Entries are keyed by method + URL + Vary headers + auth identity.
+ * Per request: `cache: 'no-store'` bypasses, `'no-cache'` / `'reload'` revalidate,
+ * `'force-cache'` serves stale entries without revalidating.
+ */
+export interface CacheConfig {
+  /**
+   * Enable caching (default: true when config object is given)
+   */
+  enabled?: boolean
+
+  /**
+   * Maximum number of cached responses, least recently used are evicted (default: 100)
+   */
+  maxEntries?: number
+
+  /**
+   * Freshness (ms) for responses without max-age / Expires (default: 0 = revalidate every time)
+   */
+  defaultMaxAge?: number
+}
+
+/**
+ * Circuit breaker state for one origin
+ * - closed: requests pass
+ * - open: requests fail fast with CIRCUIT_OPEN
+ * - half-open: one probe request passes, its outcome closes or re-opens the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Circuit breaker configuration
+ *
+ * Failures: NETWORK_ERROR, REQUEST_TIMEOUT and 5xx responses.
+ * Cancelled requests are not counted.
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * Enable circuit breaker (default: true when config object is given)
+   */
+  enabled?: boolean
+
+  /**
+   * Failure rate (0-1) in the window that opens the circuit (default: 0.5)
+   */
+  failureThreshold?: number
+
+  /**
+   * Minimum requests in the window before the failure rate is evaluated (default: 10)
+   */
+  minimumRequests?: number
+
+  /**
+   * Rolling window in ms for counting outcomes (default: 60000)
+   */
+  windowMs?: number
+
+  /**
+   * Time in ms the circuit stays open before a probe request is let through (default: 30000)
+   */
+  openDuration?: number
+}
+
+/**
+ * Rate limit rule (token bucket: `limit` requests per `interval`, bursts up to `limit`)
+ *
+ * Requests over the limit wait in the client queue. That wait counts towards the
+ * request's timeout - a request still throttled at its deadline fails with QUEUE_TIMEOUT.
+ */
+export interface RateLimitRule {
+  /**
+   * Requests the rule applies to (default: all requests, one bucket per host)
+   * - Host pattern ('api.example.com', '*.example.com', 'localhost:8080'): one bucket per host
+   * - URL prefix ('https://api.example.com/search') or RegExp: one bucket for all matching URLs
+   */
+  match?: string | RegExp
+
+  /**
+   * Requests allowed per interval (also the burst size)
+   */
+  limit: number
+
+  /**
+   * Interval in ms (default: 1000)
+   */
+  interval?: number
+
+  /**
+   * Follow RateLimit-* / X-RateLimit-* response headers and pause on 429 until Retry-After (default: false)
+   */
+  adaptive?: boolean
+}
+
+/**
+ * Offline mutation queue configuration
+ *
+ * Requests are replayed in order with a fresh token (never the one from queue time)
+ * and dropped when the signed-in identity changes (login, logout, exchangeToken, session end).
+ */
+export interface OfflineQueueConfig {
+  /**
+   * Enable queueing (default: true when config object is given)
+   */
+  enabled?: boolean
+
+  /**
+   * IndexedDB database name (default: 'FetchGuardOfflineQueue')
+   */
+  dbName?: string
+
+  /**
+   * Maximum queued requests; new mutations fail with NETWORK_ERROR when full (default: 100)
+   */
+  maxItems?: number
+
+  /**
+   * Delay (ms) before retrying replay after a network failure while the browser reports online (default: 30000)
+   */
+  retryDelay?: number
+}
+
+/**
+ * Offline queue state change (see onOfflineQueue)
+ *
+ * - queued: stored for replay (request resolved with REQUEST_QUEUED)
+ * - synced: replayed, server answered 2xx/3xx
+ * - failed: replayed, server answered 4xx/5xx or request was rejected (e.g., domain)
+ * - dropped: removed without replay (identity changed)
+ */
+export interface OfflineQueueEvent {
+  type: 'queued' | 'synced' | 'failed' | 'dropped'
+  /** Queue id (also in REQUEST_QUEUED `meta.params.queueId`) */
+  id: string
+  method: string
+  url: string
+  /** HTTP status of the replayed request */
+  status?: number
+  error?: string
+  /** Requests still waiting after this event */
+  pending: number
+}
+
 /**
  * Transport result - represents the outcome of a network request
  *
@@ -3,15 +3,21 @@
  * Handles ArrayBuffer <-> Base64 conversion for binary responses
  */
 
+/**
+ * Bytes per String.fromCharCode call (stays below engine argument limits)
+ */
+const CHAR_CODE_CHUNK = 0x8000
+
 /**
  * Convert ArrayBuffer to base64 string
  * Used in worker to encode binary responses for postMessage transfer
+ * (prefer responseType: 'arraybuffer' for large files - no encoding at all)
  */
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer)
   let binary = ''
-  for (let i = 0; i < bytes.length; i++) {
-    binary += String.fromCharCode(bytes[i])
+  for (let i = 0; i < bytes.length; i += CHAR_CODE_CHUNK) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + CHAR_CODE_CHUNK) as unknown as number[])
   }
   return btoa(binary)
 }
@@ -29,6 +35,27 @@ export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer
 }
 
+/**
+ * Encode bytes as base64url without padding (RFC 4648, section 5)
+ * Used for PKCE verifiers/challenges and JWT segments
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decode base64url string (padding optional) to bytes
+ */
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  return new Uint8Array(base64ToArrayBuffer(padded))
+}
+
 /**
  * Check if content type is binary (should be base64 encoded)
  * Returns true for images, PDFs, videos, etc.
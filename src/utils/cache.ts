@@ -0,0 +1,289 @@
+/**
+ * HTTP response cache (RFC 9111 subset) used by the worker
+ *
+ * Private, in-memory cache for GET responses:
+ * - Freshness from Cache-Control max-age, Expires and Age
+ * - no-store (request or response) bypasses, no-cache always revalidates
+ * - Stale entries with ETag / Last-Modified are revalidated with conditional headers
+ * - Vary request headers are part of the match; `Vary: *` is never stored
+ * - Entries are scoped (auth identity), LRU-evicted at maxEntries
+ */
+
+export interface CacheControl {
+  noStore: boolean
+  noCache: boolean
+  /** max-age in seconds */
+  maxAge?: number
+}
+
+export interface CachedResponse {
+  url: string
+  status: number
+  headers: [string, string][]
+  body: ArrayBuffer
+  /** Request header values named by Vary (lowercased names) */
+  vary: Record<string, string>
+  /** Local time the response was generated (Age already subtracted) */
+  storedAt: number
+  /** Freshness lifetime in ms */
+  lifetime: number
+}
+
+export interface ResponseCache {
+  /** Entry for key whose Vary headers match the request (refreshes LRU position) */
+  get(key: string, requestHeaders: Headers): CachedResponse | undefined
+  set(key: string, entry: CachedResponse): void
+  /** Remove entries for URL (unsafe method succeeded) */
+  invalidate(url: string): void
+  clear(): void
+  readonly size: number
+}
+
+/** Statuses that may be stored (RFC 9110 heuristically cacheable) */
+const CACHEABLE_STATUSES = new Set([200, 203, 204, 300, 301, 404, 405, 410, 414, 501])
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE'])
+
+/** Compared by scope instead - changes on every refresh */
+const IGNORED_VARY_HEADERS = new Set(['authorization'])
+
+/**
+ * Parse Cache-Control header directives
+ */
+export function parseCacheControl(value: string | null): CacheControl {
+  const result: CacheControl = { noStore: false, noCache: false }
+  if (!value) return result
+
+  for (const part of value.split(',')) {
+    const [rawName, rawValue] = part.split('=')
+    const name = rawName.trim().toLowerCase()
+    switch (name) {
+      case 'no-store':
+        result.noStore = true
+        break
+      case 'no-cache':
+        result.noCache = true
+        break
+      case 'max-age': {
+        const seconds = parseInt((rawValue ?? '').trim().replace(/^"|"$/g, ''), 10)
+        if (!isNaN(seconds) && seconds >= 0) result.maxAge = seconds
+        break
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Cache key: scope (auth identity) + method + URL
+ */
+export function getCacheKey(scope: string, method: string, url: string): string {
+  return `${scope} ${method.toUpperCase()} ${url}`
+}
+
+/**
+ * Check if request may use the cache (GET without no-store)
+ */
+export function isCacheableRequest(method: string | undefined, requestHeaders: Headers, mode?: RequestCache): boolean {
+  if ((method ?? 'GET').toUpperCase() !== 'GET') return false
+  if (mode === 'no-store') return false
+  return !parseCacheControl(requestHeaders.get('cache-control')).noStore
+}
+
+/**
+ * Check if request forces revalidation even when the entry is fresh
+ */
+export function requiresRevalidation(requestHeaders: Headers, mode?: RequestCache): boolean {
+  if (mode === 'no-cache' || mode === 'reload') return true
+  const control = parseCacheControl(requestHeaders.get('cache-control'))
+  return control.noCache || control.maxAge === 0
+}
+
+/**
+ * Check if a successful request with this method makes cached entries for its URL stale
+ */
+export function invalidatesCache(method: string | undefined, status: number): boolean {
+  return !SAFE_METHODS.has((method ?? 'GET').toUpperCase()) && status >= 200 && status < 400
+}
+
+/**
+ * Build cache entry (without body) from response, or null if it may not be stored
+ *
+ * @param defaultMaxAge - Lifetime (ms) when the response has no max-age / Expires
+ */
+export function createCacheEntry(
+  url: string,
+  status: number,
+  responseHeaders: Headers,
+  requestHeaders: Headers,
+  defaultMaxAge: number,
+  now: number = Date.now()
+): Omit<CachedResponse, 'body'> | null {
+  if (!CACHEABLE_STATUSES.has(status)) return null
+
+  const control = parseCacheControl(responseHeaders.get('cache-control'))
+  if (control.noStore) return null
+
+  const vary = getVaryValues(responseHeaders, requestHeaders)
+  if (!vary) return null
+
+  const lifetime = control.noCache ? 0 : getFreshnessLifetime(responseHeaders, control, defaultMaxAge)
+  // Nothing to serve later without freshness or validators
+  if (lifetime <= 0 && !hasValidators(responseHeaders)) return null
+
+  return {
+    url,
+    status,
+    headers: toHeaderList(responseHeaders),
+    vary,
+    storedAt: now - getAge(responseHeaders),
+    lifetime
+  }
+}
+
+/**
+ * Update entry after 304 Not Modified (new headers replace stored ones)
+ */
+export function refreshCacheEntry(
+  entry: CachedResponse,
+  notModifiedHeaders: Headers,
+  defaultMaxAge: number,
+  now: number = Date.now()
+): CachedResponse {
+  const headers = new Headers(entry.headers)
+  notModifiedHeaders.forEach((value, name) => {
+    // 304 has no body - keep the stored body's framing headers
+    if (name !== 'content-length' && name !== 'content-encoding') headers.set(name, value)
+  })
+
+  const control = parseCacheControl(headers.get('cache-control'))
+  return {
+    ...entry,
+    headers: toHeaderList(headers),
+    storedAt: now - getAge(notModifiedHeaders),
+    lifetime: control.noCache ? 0 : getFreshnessLifetime(headers, control, defaultMaxAge)
+  }
+}
+
+export function isFresh(entry: CachedResponse, now: number = Date.now()): boolean {
+  return now - entry.storedAt < entry.lifetime
+}
+
+/**
+ * Check if the caller already made the request conditional
+ */
+export function hasConditionalHeaders(requestHeaders: Headers): boolean {
+  return requestHeaders.has('if-none-match') || requestHeaders.has('if-modified-since')
+}
+
+/**
+ * Conditional request headers for revalidating entry (If-None-Match / If-Modified-Since)
+ */
+export function getConditionalHeaders(entry: CachedResponse): Record<string, string> {
+  const headers = new Headers(entry.headers)
+  const conditional: Record<string, string> = {}
+  const etag = headers.get('etag')
+  const lastModified = headers.get('last-modified')
+  if (etag) conditional['If-None-Match'] = etag
+  if (lastModified) conditional['If-Modified-Since'] = lastModified
+  return conditional
+}
+
+/**
+ * Rebuild Response from entry (body can be read once per call)
+ */
+export function toResponse(entry: CachedResponse): Response {
+  const body = entry.status === 204 || entry.status === 304 ? null : entry.body.slice(0)
+  return new Response(body, { status: entry.status, headers: entry.headers })
+}
+
+/**
+ * Create in-memory LRU response cache
+ */
+export function createResponseCache(maxEntries: number): ResponseCache {
+  const entries = new Map<string, CachedResponse>()
+
+  return {
+    get(key, requestHeaders) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+
+      for (const [name, value] of Object.entries(entry.vary)) {
+        if ((requestHeaders.get(name) ?? '') !== value) return undefined
+      }
+
+      entries.delete(key)
+      entries.set(key, entry)
+      return entry
+    },
+
+    set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) break
+        entries.delete(oldest)
+      }
+    },
+
+    invalidate(url) {
+      for (const [key, entry] of entries) {
+        if (entry.url === url) entries.delete(key)
+      }
+    },
+
+    clear() {
+      entries.clear()
+    },
+
+    get size() {
+      return entries.size
+    }
+  }
+}
+
+function getFreshnessLifetime(headers: Headers, control: CacheControl, defaultMaxAge: number): number {
+  if (control.maxAge !== undefined) return control.maxAge * 1000
+
+  const expires = headers.get('expires')
+  if (expires) {
+    const expiresAt = Date.parse(expires)
+    const date = Date.parse(headers.get('date') ?? '')
+    // Invalid Expires (e.g. "0") means already expired
+    if (isNaN(expiresAt)) return 0
+    return Math.max(0, expiresAt - (isNaN(date) ? Date.now() : date))
+  }
+
+  return defaultMaxAge
+}
+
+function toHeaderList(headers: Headers): [string, string][] {
+  const list: [string, string][] = []
+  headers.forEach((value, name) => list.push([name, value]))
+  return list
+}
+
+function getAge(headers: Headers): number {
+  const age = parseInt(headers.get('age') ?? '', 10)
+  return isNaN(age) || age < 0 ? 0 : age * 1000
+}
+
+function hasValidators(headers: Headers): boolean {
+  return headers.has('etag') || headers.has('last-modified')
+}
+
+/**
+ * Request header values selected by Vary, null for `Vary: *`
+ */
+function getVaryValues(responseHeaders: Headers, requestHeaders: Headers): Record<string, string> | null {
+  const vary: Record<string, string> = {}
+  const names = (responseHeaders.get('vary') ?? '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+
+  for (const name of names) {
+    if (name === '*') return null
+    if (IGNORED_VARY_HEADERS.has(name)) continue
+    vary[name] = requestHeaders.get(name) ?? ''
+  }
+  return vary
+}
@@ -0,0 +1,134 @@
+/**
+ * Circuit breaker keyed by origin, used by the client before queueing requests
+ *
+ * - closed: requests pass, outcomes are counted in a rolling window
+ * - open: requests fail fast until openDuration has passed
+ * - half-open: a single probe request passes; success closes, failure re-opens
+ */
+
+import type { CircuitState } from '../types'
+
+/**
+ * Request outcome reported back to the breaker
+ * - failure: network error, timeout or 5xx
+ * - ignored: says nothing about the origin (cancelled, queue full, queued offline)
+ */
+export type CircuitOutcome = 'success' | 'failure' | 'ignored'
+
+export type CircuitPermit =
+  | { allowed: true; probe: boolean }
+  | { allowed: false; retryIn: number }
+
+export interface CircuitBreakerOptions {
+  /** Failure rate (0-1) that opens the circuit */
+  failureThreshold: number
+  /** Minimum outcomes in the window before the rate is evaluated */
+  minimumRequests: number
+  /** Rolling window (ms) for counting outcomes */
+  windowMs: number
+  /** Time (ms) the circuit stays open before probing */
+  openDuration: number
+  onStateChange?: (key: string, state: CircuitState, previous: CircuitState) => void
+}
+
+export interface CircuitBreaker {
+  /** Check if a request to key may be sent (probe = half-open trial request) */
+  acquire(key: string, now?: number): CircuitPermit
+  /** Report outcome of a request allowed by acquire */
+  record(key: string, outcome: CircuitOutcome, probe: boolean, now?: number): void
+  getState(key: string): CircuitState
+}
+
+interface Circuit {
+  state: CircuitState
+  /** Outcomes in the window (closed state only) */
+  outcomes: { at: number; failed: boolean }[]
+  openedAt: number
+  /** Half-open probe in flight */
+  probing: boolean
+}
+
+/**
+ * Create circuit breaker (state per key, created on first use)
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const circuits = new Map<string, Circuit>()
+
+  const circuitFor = (key: string): Circuit => {
+    let circuit = circuits.get(key)
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openedAt: 0, probing: false }
+      circuits.set(key, circuit)
+    }
+    return circuit
+  }
+
+  const transition = (key: string, circuit: Circuit, state: CircuitState, now: number) => {
+    const previous = circuit.state
+    circuit.state = state
+    circuit.outcomes = []
+    circuit.probing = false
+    if (state === 'open') circuit.openedAt = now
+    options.onStateChange?.(key, state, previous)
+  }
+
+  return {
+    acquire(key, now = Date.now()) {
+      const circuit = circuitFor(key)
+
+      if (circuit.state === 'open') {
+        const retryIn = circuit.openedAt + options.openDuration - now
+        if (retryIn > 0) {
+          return { allowed: false, retryIn }
+        }
+        transition(key, circuit, 'half-open', now)
+      }
+
+      if (circuit.state === 'half-open') {
+        // Others wait for the probe's verdict
+        if (circuit.probing) {
+          return { allowed: false, retryIn: 0 }
+        }
+        circuit.probing = true
+        return { allowed: true, probe: true }
+      }
+
+      return { allowed: true, probe: false }
+    },
+
+    record(key, outcome, probe, now = Date.now()) {
+      const circuit = circuitFor(key)
+
+      if (probe) {
+        if (circuit.state !== 'half-open') return
+        if (outcome === 'success') {
+          transition(key, circuit, 'closed', now)
+        } else if (outcome === 'failure') {
+          transition(key, circuit, 'open', now)
+        } else {
+          // Probe told us nothing - let the next request probe
+          circuit.probing = false
+        }
+        return
+      }
+
+      // Late outcomes of requests sent before the circuit opened
+      if (circuit.state !== 'closed' || outcome === 'ignored') return
+
+      circuit.outcomes.push({ at: now, failed: outcome === 'failure' })
+      circuit.outcomes = circuit.outcomes.filter(entry => now - entry.at < options.windowMs)
+
+      const total = circuit.outcomes.length
+      if (total < options.minimumRequests) return
+
+      const failures = circuit.outcomes.filter(entry => entry.failed).length
+      if (failures / total >= options.failureThreshold) {
+        transition(key, circuit, 'open', now)
+      }
+    },
+
+    getState(key) {
+      return circuits.get(key)?.state ?? 'closed'
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Server clock estimation (worker only)
+ *
+ * Token expiry timestamps come from the server, so comparing them against a wrong
+ * local clock either refreshes constantly or sends expired tokens. The worker
+ * measures server time from `Date` response headers and does all expiry math
+ * in server time. Values sent to the main thread are converted back to local time.
+ */
+
+/**
+ * Offsets smaller than this are treated as measurement noise
+ * (`Date` has 1s resolution, plus network latency)
+ */
+const CLOCK_SKEW_THRESHOLD_MS = 2000
+
+/** Server time minus local time in ms */
+let skewMs = 0
+
+let listener: ((skewMs: number) => void) | null = null
+
+/**
+ * Current estimated server time
+ */
+export function serverNow(): number {
+  return Date.now() + skewMs
+}
+
+/**
+ * Convert server timestamp to local clock (for values exposed to main thread)
+ */
+export function toLocalTime(serverTime: number): number {
+  return serverTime - skewMs
+}
+
+/**
+ * Current estimated skew (server - local) in ms
+ */
+export function getClockSkew(): number {
+  return skewMs
+}
+
+/**
+ * Subscribe to skew changes (single listener - the worker)
+ */
+export function setClockSkewListener(callback: ((skewMs: number) => void) | null): void {
+  listener = callback
+}
+
+/**
+ * Record a server time sample taken "now"
+ * @returns true if the estimated skew changed
+ */
+export function observeServerTime(serverTime: number): boolean {
+  if (!Number.isFinite(serverTime)) return false
+
+  const sample = serverTime - Date.now()
+  const next = Math.abs(sample) < CLOCK_SKEW_THRESHOLD_MS ? 0 : Math.round(sample)
+  if (Math.abs(next - skewMs) < CLOCK_SKEW_THRESHOLD_MS) return false
+
+  skewMs = next
+  listener?.(skewMs)
+  return true
+}
+
+/**
+ * Record server time from response `Date` header
+ * Cached responses (Age > 0) are ignored - their Date is not "now".
+ * Cross-origin responses only expose Date if listed in Access-Control-Expose-Headers.
+ *
+ * @returns true if the response had a usable Date header
+ */
+export function observeServerDate(response: Response): boolean {
+  const date = response.headers.get('Date')
+  if (!date) return false
+
+  const age = Number(response.headers.get('Age'))
+  if (age > 0) return false
+
+  const serverTime = Date.parse(date)
+  if (Number.isNaN(serverTime)) return false
+
+  // Header is truncated to the second - use the middle of that second
+  observeServerTime(serverTime + 500)
+  return true
+}
@@ -0,0 +1,70 @@
+/**
+ * Cross-tab coordination for dedicated workers
+ *
+ * Each tab runs its own worker, so the in-worker refresh mutex only protects one tab.
+ * - Web Locks serialize refresh across tabs (rotating refresh tokens can only be used once)
+ * - BroadcastChannel tells other tabs' workers that a refresh or logout happened
+ *
+ * SECURITY: Channel messages never contain tokens. BroadcastChannel is readable
+ * by any same-origin script, including the main thread.
+ */
+
+/**
+ * Messages exchanged between workers of different tabs
+ * - refreshed: refresh token was rotated, reload it from storage before next refresh
+ * - logout: user logged out in another tab (queueIdentity: offline queue identity it switched to)
+ */
+export type CrossTabMessage = { type: 'refreshed' } | { type: 'logout'; queueIdentity?: string }
+
+/**
+ * Cross-tab coordinator used by worker
+ */
+export interface CrossTabSync {
+  /** Run refresh while holding the cross-tab lock (runs directly if Web Locks unavailable) */
+  withRefreshLock<T>(operation: () => Promise<T>): Promise<T>
+  /** Notify other tabs (sender does not receive its own message) */
+  notify(message: CrossTabMessage): void
+  /** Close channel */
+  close(): void
+}
+
+/**
+ * Create cross-tab coordinator
+ *
+ * @param name - Provider key, so different providers on the same origin don't block each other
+ * @param onMessage - Called when another tab sends a message
+ */
+export function createCrossTabSync(name: string, onMessage: (message: CrossTabMessage) => void): CrossTabSync {
+  const channel = typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(`fetchguard:${name}`)
+    : null
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent) => {
+      const data = event.data as CrossTabMessage | undefined
+      if (data && (data.type === 'refreshed' || data.type === 'logout')) {
+        onMessage(data)
+      }
+    }
+  }
+
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+  const lockName = `fetchguard:refresh:${name}`
+
+  return {
+    withRefreshLock<T>(operation: () => Promise<T>): Promise<T> {
+      if (!locks) {
+        return operation()
+      }
+      return locks.request(lockName, operation) as Promise<T>
+    },
+
+    notify(message) {
+      channel?.postMessage(message)
+    },
+
+    close() {
+      channel?.close()
+    }
+  }
+}
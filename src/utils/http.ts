@@ -0,0 +1,77 @@
+/**
+ * HTTP utilities shared by client and worker
+ */
+
+/**
+ * Methods that can be repeated without changing the outcome (RFC 9110, section 9.2.2)
+ */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE', 'PUT', 'DELETE'])
+
+/** Seconds values from here on are Unix timestamps (2001-09-09), not deltas */
+const UNIX_TIMESTAMP_THRESHOLD = 1_000_000_000
+
+/**
+ * Check if HTTP method is idempotent (safe to replay)
+ * Method defaults to GET, matching fetch() behavior
+ */
+export function isIdempotentMethod(method: string = 'GET'): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase())
+}
+
+/**
+ * Parse raw header block (XMLHttpRequest.getAllResponseHeaders) into Headers
+ * Header names are lowercased; repeated headers are combined by Headers.append
+ */
+export function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers()
+  for (const line of raw.split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim()
+    const value = line.slice(colon + 1).trim()
+    try {
+      headers.append(name, value)
+    } catch {
+      // Skip names the Headers class rejects
+    }
+  }
+  return headers
+}
+
+/**
+ * Parse Retry-After header (delay-seconds or HTTP-date) into milliseconds
+ * Returns undefined for missing or invalid values; dates in the past give 0
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000
+  }
+
+  // HTTP-date always has day/month names - Date.parse alone accepts "-5" as a year
+  const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN
+  return isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Parse RateLimit-Reset header into milliseconds
+ * Delta seconds per the IETF draft; values that look like Unix timestamps
+ * (seconds since epoch, as some APIs send) are converted relative to now
+ */
+export function parseRateLimitReset(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value || !/^\d+$/.test(value.trim())) return undefined
+  const seconds = parseInt(value.trim(), 10)
+  return seconds >= UNIX_TIMESTAMP_THRESHOLD
+    ? Math.max(0, seconds * 1000 - now)
+    : seconds * 1000
+}
+
+/**
+ * Server-requested retry delay from response headers (lowercased names)
+ * Retry-After takes precedence over RateLimit-Reset
+ */
+export function getRetryAfterDelay(headers: Record<string, string>, now: number = Date.now()): number | undefined {
+  return parseRetryAfter(headers['retry-after'], now) ?? parseRateLimitReset(headers['ratelimit-reset'], now)
+}
@@ -0,0 +1,84 @@
+import { base64UrlDecode } from './binary'
+
+/**
+ * Decoded JWT (JWS compact serialization)
+ * Decoding does NOT verify anything - use verifyJwtSignature for that.
+ */
+export interface DecodedJwt {
+  header: { alg?: string; kid?: string; typ?: string; [key: string]: unknown }
+  payload: Record<string, unknown>
+  /** `header.payload` bytes the signature was computed over */
+  signingInput: Uint8Array
+  signature: Uint8Array
+}
+
+/**
+ * Decode JWT without verification
+ * Returns null if token is not a well-formed JWS
+ */
+export function decodeJwt(token: string): DecodedJwt | null {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    return null
+  }
+
+  try {
+    const decoder = new TextDecoder()
+    const header = JSON.parse(decoder.decode(base64UrlDecode(parts[0])))
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(parts[1])))
+    if (!header || typeof header !== 'object' || !payload || typeof payload !== 'object') {
+      return null
+    }
+
+    return {
+      header,
+      payload,
+      signingInput: new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+      signature: base64UrlDecode(parts[2])
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * WebCrypto algorithm parameters for supported JWS algorithms
+ * ECDSA JWS signatures are raw r||s, which is what WebCrypto expects.
+ */
+const JWS_ALGORITHMS: Record<string, { importParams: RsaHashedImportParams | EcKeyImportParams; verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams }> = {
+  RS256: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS384: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  RS512: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+  PS256: { importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 } },
+  PS384: { importParams: { name: 'RSA-PSS', hash: 'SHA-384' }, verifyParams: { name: 'RSA-PSS', saltLength: 48 } },
+  PS512: { importParams: { name: 'RSA-PSS', hash: 'SHA-512' }, verifyParams: { name: 'RSA-PSS', saltLength: 64 } },
+  ES256: { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } },
+  ES384: { importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' } },
+  ES512: { importParams: { name: 'ECDSA', namedCurve: 'P-521' }, verifyParams: { name: 'ECDSA', hash: 'SHA-512' } }
+}
+
+/**
+ * Check if JWS algorithm can be verified (`none` and HMAC are rejected)
+ */
+export function isSupportedJwsAlgorithm(alg: unknown): alg is string {
+  return typeof alg === 'string' && alg in JWS_ALGORITHMS
+}
+
+/**
+ * Verify JWT signature against a public JWK
+ * Returns false for unsupported algorithms or keys that fail to import
+ */
+export async function verifyJwtSignature(jwt: DecodedJwt, jwk: JsonWebKey): Promise<boolean> {
+  const alg = jwt.header.alg
+  if (!isSupportedJwsAlgorithm(alg)) {
+    return false
+  }
+
+  const { importParams, verifyParams } = JWS_ALGORITHMS[alg]
+  try {
+    const key = await crypto.subtle.importKey('jwk', jwk, importParams, false, ['verify'])
+    return await crypto.subtle.verify(verifyParams, key, jwt.signature as BufferSource, jwt.signingInput as BufferSource)
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * Offline mutation queue used by the worker
+ *
+ * Requests are persisted (IndexedDB) with the identity they were made under,
+ * replayed one at a time in order, and dropped when the identity changes.
+ * Tokens are never stored - the sender authenticates at replay time.
+ *
+ * Dedicated workers of several tabs share one store: replay runs under a Web Lock
+ * and works from the store, not from this tab's copy, so each request is sent once.
+ */
+
+import type { FetchGuardRequestInit, OfflineQueueEvent } from '../types'
+
+export interface QueuedRequest {
+  id: string
+  url: string
+  /** Serialized request options (no signal, no token) */
+  options: FetchGuardRequestInit
+  /** Identity the request was made under */
+  identity: string
+  /** Replay order */
+  seq: number
+  createdAt: number
+}
+
+export interface OfflineQueueStore {
+  /** Stored requests (any order) and current identity */
+  load(): Promise<{ requests: QueuedRequest[]; identity: string | null }>
+  add(request: QueuedRequest): Promise<void>
+  remove(id: string): Promise<void>
+  setIdentity(identity: string): Promise<void>
+}
+
+/**
+ * Result of replaying one request
+ * - response: server answered (removed, synced/failed by status)
+ * - offline: still unreachable (kept, retried later)
+ * - rejected: will never succeed, e.g. domain not allowed (removed, failed)
+ */
+export type ReplayOutcome =
+  | { type: 'response'; status: number }
+  | { type: 'offline'; error: string }
+  | { type: 'rejected'; error: string }
+
+export interface OfflineQueueOptions {
+  store: OfflineQueueStore
+  send: (request: QueuedRequest) => Promise<ReplayOutcome>
+  onEvent: (event: OfflineQueueEvent) => void
+  maxItems: number
+  /** Delay before replaying again after an offline outcome */
+  retryDelay: number
+  /** Web Locks name replay runs under (runs unlocked if Web Locks unavailable) */
+  lockName?: string
+  createId?: () => string
+}
+
+export interface OfflineQueue {
+  /** Persist request, resolves queue id (null when full or storage failed) */
+  enqueue(url: string, options: FetchGuardRequestInit): Promise<string | null>
+  /** Replay in order until empty or offline (concurrent calls share one run, tabs take turns) */
+  replay(): Promise<void>
+  /**
+   * Drop all requests and start a new identity
+   * @param next - Identity chosen by another tab for the same sign-out (random if omitted)
+   */
+  resetIdentity(next?: string): Promise<void>
+  /** Current identity (requests from other identities are never replayed) */
+  readonly identity: string
+  readonly pending: number
+}
+
+const QUEUEABLE_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE'])
+
+/**
+ * Check if request is a mutation eligible for the offline queue
+ */
+export function isQueueableRequest(options: FetchGuardRequestInit): boolean {
+  return options.queueOffline !== false && QUEUEABLE_METHODS.has((options.method ?? 'GET').toUpperCase())
+}
+
+/**
+ * Create offline queue (starts loading persisted requests immediately)
+ */
+export function createOfflineQueue(options: OfflineQueueOptions): OfflineQueue {
+  const { store, send, onEvent, maxItems, retryDelay, lockName } = options
+  const createId = options.createId ?? (() => crypto.randomUUID())
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+
+  let requests: QueuedRequest[] = []
+  let identity = ''
+  let lastSeq = 0
+  let replaying: Promise<void> | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  const emit = (type: OfflineQueueEvent['type'], request: QueuedRequest, extra: Partial<OfflineQueueEvent> = {}) => {
+    onEvent({
+      type,
+      id: request.id,
+      method: (request.options.method ?? 'GET').toUpperCase(),
+      url: request.url,
+      pending: requests.length,
+      ...extra
+    })
+  }
+
+  const ready = (async () => {
+    try {
+      const stored = await store.load()
+      // Identity reset while loading wins over the stored one
+      identity ||= stored.identity ?? createId()
+      if (identity !== stored.identity) {
+        await store.setIdentity(identity)
+      }
+
+      const sorted = stored.requests.sort((a, b) => a.seq - b.seq)
+      requests = sorted.filter(request => request.identity === identity)
+      lastSeq = sorted.length > 0 ? sorted[sorted.length - 1].seq : 0
+
+      // Left over from an identity reset that could not finish deleting
+      for (const request of sorted) {
+        if (request.identity !== identity) {
+          emit('dropped', request)
+          await store.remove(request.id).catch(() => {})
+        }
+      }
+    } catch {
+      // Storage unavailable - queue works in memory for this session
+      identity ||= createId()
+    }
+  })()
+
+  const scheduleRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer)
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      void queue.replay()
+    }, retryDelay)
+  }
+
+  // Another tab may have replayed or queued requests since this tab last looked
+  const reload = async () => {
+    const known = new Set(requests.map(request => request.id))
+    let stored: QueuedRequest[]
+    try {
+      stored = (await store.load()).requests
+    } catch {
+      // Storage unavailable - replay what this tab knows about
+      return
+    }
+
+    const storedIds = new Set(stored.map(request => request.id))
+    // Queued by this tab while loading
+    const added = requests.filter(request => !known.has(request.id) && !storedIds.has(request.id))
+    requests = [...stored.filter(request => request.identity === identity), ...added].sort((a, b) => a.seq - b.seq)
+    for (const request of stored) {
+      lastSeq = Math.max(lastSeq, request.seq)
+    }
+  }
+
+  const run = async () => {
+    await ready
+    if (retryTimer) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+    await reload()
+
+    while (requests.length > 0) {
+      const request = requests[0]
+
+      let outcome: ReplayOutcome
+      try {
+        outcome = await send(request)
+      } catch (error) {
+        outcome = { type: 'rejected', error: error instanceof Error ? error.message : String(error) }
+      }
+
+      // Dropped by an identity reset while in flight
+      if (requests[0] !== request) continue
+
+      if (outcome.type === 'offline') {
+        scheduleRetry()
+        return
+      }
+
+      requests.shift()
+      await store.remove(request.id).catch(() => {})
+
+      if (outcome.type === 'response') {
+        emit(outcome.status < 400 ? 'synced' : 'failed', request, { status: outcome.status })
+      } else {
+        emit('failed', request, { error: outcome.error })
+      }
+    }
+  }
+
+  const queue: OfflineQueue = {
+    async enqueue(url, requestOptions) {
+      await ready
+      if (requests.length >= maxItems) return null
+
+      lastSeq = Math.max(Date.now(), lastSeq + 1)
+      const request: QueuedRequest = {
+        id: createId(),
+        url,
+        options: requestOptions,
+        identity,
+        seq: lastSeq,
+        createdAt: Date.now()
+      }
+
+      try {
+        await store.add(request)
+      } catch {
+        // Not persistable (quota, uncloneable body) - caller reports the original failure
+        return null
+      }
+
+      requests.push(request)
+      emit('queued', request)
+      return request.id
+    },
+
+    replay() {
+      if (!replaying) {
+        const locked = lockName && locks ? locks.request(lockName, run).then(() => {}) : run()
+        replaying = locked.finally(() => {
+          replaying = null
+        })
+      }
+      return replaying
+    },
+
+    resetIdentity(next) {
+      // Switched now, so callers can read (and share) the new identity right away
+      identity = next ?? createId()
+      if (retryTimer) {
+        clearTimeout(retryTimer)
+        retryTimer = null
+      }
+
+      const dropped = requests
+      requests = []
+      for (const request of dropped) {
+        emit('dropped', request)
+      }
+
+      return (async () => {
+        await ready
+        // Current identity - a later reset may have replaced this one already
+        await store.setIdentity(identity).catch(() => {})
+        for (const request of dropped) {
+          await store.remove(request.id).catch(() => {})
+        }
+      })()
+    },
+
+    get identity() {
+      return identity
+    },
+
+    get pending() {
+      return requests.length
+    }
+  }
+
+  return queue
+}
+
+/**
+ * IndexedDB-backed queue store
+ * One database with `requests` (keyPath id) and `meta` (current identity) stores
+ */
+export function createIndexedDBQueueStore(dbName: string): OfflineQueueStore {
+  const requestsStore = 'requests'
+  const metaStore = 'meta'
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const openDB = (): Promise<IDBDatabase> => {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(requestsStore)) {
+          db.createObjectStore(requestsStore, { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains(metaStore)) {
+          db.createObjectStore(metaStore, { keyPath: 'key' })
+        }
+      }
+    })
+    // Allow a later attempt to reopen after failure
+    dbPromise.catch(() => { dbPromise = null })
+    return dbPromise
+  }
+
+  const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  const withStore = async <T>(name: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDB()
+    return promisifyRequest(operation(db.transaction([name], mode).objectStore(name)))
+  }
+
+  return {
+    async load() {
+      const requests = await withStore(requestsStore, 'readonly', store => store.getAll()) as QueuedRequest[]
+      const meta = await withStore(metaStore, 'readonly', store => store.get('identity')) as { value?: string } | undefined
+      return { requests, identity: meta?.value ?? null }
+    },
+    async add(request) {
+      await withStore(requestsStore, 'readwrite', store => store.put(request))
+    },
+    async remove(id) {
+      await withStore(requestsStore, 'readwrite', store => store.delete(id))
+    },
+    async setIdentity(identity) {
+      await withStore(metaStore, 'readwrite', store => store.put({ key: 'identity', value: identity }))
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Token-bucket rate limiter used by the client request queue
+ *
+ * Rules match by host (one bucket per host) or by URL prefix / RegExp
+ * (one bucket shared by all matching URLs). First matching rule wins.
+ * Adaptive rules follow RateLimit-* / X-RateLimit-* response headers
+ * and pause the bucket on 429 until Retry-After.
+ */
+
+import type { RateLimitRule } from '../types'
+import { parseRateLimitReset, getRetryAfterDelay } from './http'
+
+export interface RateLimiter {
+  /** Take a token for url: 0 when taken (or not limited), otherwise ms until one is available */
+  acquire(url: string, now?: number): number
+  /** Check if responses for url should be observed (adaptive rule) */
+  isAdaptive(url: string): boolean
+  /** Adapt bucket from response status and headers (lowercased names) */
+  observe(url: string, status: number, headers: Record<string, string>, now?: number): void
+}
+
+/**
+ * Rate limit state reported by the server
+ */
+export interface RateLimitHeaders {
+  limit?: number
+  remaining?: number
+  /** ms until the quota resets */
+  reset?: number
+  /** Quota window in ms (`w=` parameter of RateLimit-Limit / RateLimit-Policy) */
+  window?: number
+}
+
+interface Bucket {
+  capacity: number
+  /** Tokens added per ms */
+  refillRate: number
+  tokens: number
+  updatedAt: number
+  /** No tokens before this time (quota exhausted / 429) */
+  blockedUntil: number
+}
+
+/** Default interval when a rule only sets limit */
+const DEFAULT_INTERVAL_MS = 1000
+
+/**
+ * Parse RateLimit-* (IETF draft) or X-RateLimit-* headers
+ */
+export function parseRateLimitHeaders(headers: Record<string, string>, now: number = Date.now()): RateLimitHeaders {
+  const read = (name: string) => headers[`ratelimit-${name}`] ?? headers[`x-ratelimit-${name}`]
+  const result: RateLimitHeaders = {}
+
+  // "100", "100;w=60" or "100, 100;w=60" (current limit, then quota policies)
+  const limit = read('limit') ?? ''
+  const limitMatch = /^\s*(\d+)/.exec(limit)
+  if (limitMatch) {
+    result.limit = parseInt(limitMatch[1], 10)
+  }
+
+  const windowMatch = /;\s*w=(\d+)/.exec(limit) ?? /;\s*w=(\d+)/.exec(headers['ratelimit-policy'] ?? '')
+  if (windowMatch) {
+    result.window = parseInt(windowMatch[1], 10) * 1000
+  }
+
+  const remaining = parseInt(read('remaining') ?? '', 10)
+  if (!isNaN(remaining) && remaining >= 0) result.remaining = remaining
+
+  const reset = parseRateLimitReset(read('reset'), now)
+  if (reset !== undefined) result.reset = reset
+
+  return result
+}
+
+/**
+ * Create rate limiter from rules
+ */
+export function createRateLimiter(rules: RateLimitRule[]): RateLimiter {
+  const buckets = new Map<string, Bucket>()
+
+  const findBucket = (url: string, now: number): { rule: RateLimitRule; bucket: Bucket } | null => {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return null
+    }
+
+    for (let index = 0; index < rules.length; index++) {
+      const rule = rules[index]
+      const perHost = rule.match === undefined || (typeof rule.match === 'string' && !rule.match.includes('://'))
+      if (!matchesRule(rule, parsed, url)) continue
+
+      const key = perHost ? `${index} ${parsed.host}` : String(index)
+      let bucket = buckets.get(key)
+      if (!bucket) {
+        bucket = {
+          capacity: rule.limit,
+          refillRate: rule.limit / (rule.interval ?? DEFAULT_INTERVAL_MS),
+          tokens: rule.limit,
+          updatedAt: now,
+          blockedUntil: 0
+        }
+        buckets.set(key, bucket)
+      }
+      return { rule, bucket }
+    }
+    return null
+  }
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.refillRate)
+    bucket.updatedAt = now
+  }
+
+  return {
+    acquire(url, now = Date.now()) {
+      const found = findBucket(url, now)
+      if (!found) return 0
+
+      const { bucket } = found
+      refill(bucket, now)
+      if (now < bucket.blockedUntil) {
+        return bucket.blockedUntil - now
+      }
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1
+        return 0
+      }
+      return Math.ceil((1 - bucket.tokens) / bucket.refillRate)
+    },
+
+    isAdaptive(url) {
+      return findBucket(url, Date.now())?.rule.adaptive === true
+    },
+
+    observe(url, status, headers, now = Date.now()) {
+      const found = findBucket(url, now)
+      if (!found?.rule.adaptive) return
+
+      const { bucket } = found
+      const server = parseRateLimitHeaders(headers, now)
+      refill(bucket, now)
+
+      if (server.limit !== undefined && server.limit > 0) {
+        bucket.capacity = server.limit
+        if (server.window) bucket.refillRate = server.limit / server.window
+      }
+      if (server.remaining !== undefined) {
+        bucket.tokens = Math.min(bucket.tokens, server.remaining)
+        if (server.remaining === 0 && server.reset !== undefined) {
+          bucket.blockedUntil = Math.max(bucket.blockedUntil, now + server.reset)
+        }
+      }
+
+      if (status === 429) {
+        bucket.tokens = 0
+        const retryAfter = getRetryAfterDelay(headers, now)
+        if (retryAfter !== undefined) {
+          bucket.blockedUntil = Math.max(bucket.blockedUntil, now + retryAfter)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check if URL matches rule
+ * - No match: every URL
+ * - String with scheme: URL prefix
+ * - Other string: host pattern (`*.example.com`, optional `:port`)
+ * - RegExp: tested against the full URL
+ */
+function matchesRule(rule: RateLimitRule, parsed: URL, url: string): boolean {
+  const { match } = rule
+  if (match === undefined) return true
+  if (match instanceof RegExp) return match.test(url)
+  if (match.includes('://')) return url.startsWith(match)
+
+  const colon = match.lastIndexOf(':')
+  const pattern = colon > -1 ? match.slice(0, colon) : match
+  if (colon > -1 && parsed.port !== match.slice(colon + 1)) return false
+
+  if (pattern.startsWith('*.')) {
+    const base = pattern.slice(2)
+    return parsed.hostname === base || parsed.hostname.endsWith('.' + base)
+  }
+  return parsed.hostname === pattern
+}
@@ -0,0 +1,75 @@
+import type { RefreshRetryConfig } from '../types'
+import { ERROR_CODES } from '../error-codes'
+import { DEFAULT_DEFINITIVE_REFRESH_STATUSES, MIN_BACKGROUND_REFRESH_DELAY_MS, MAX_TIMER_DELAY_MS } from '../constants'
+
+/**
+ * Refresh failure policy (worker only)
+ *
+ * Definitive failures (refresh endpoint rejected the session) clear auth state.
+ * Transient failures (network, 5xx, timeouts) are retried with backoff and
+ * keep the current session when retries run out.
+ */
+
+/**
+ * Error codes without HTTP status that are worth retrying
+ * PROVIDER_INIT_FAILED covers OIDC discovery failing before the token endpoint is known
+ */
+const TRANSIENT_CODES: readonly string[] = [
+  ERROR_CODES.NETWORK_ERROR,
+  ERROR_CODES.REQUEST_TIMEOUT,
+  ERROR_CODES.PROVIDER_INIT_FAILED
+]
+
+/**
+ * Apply defaults to refresh retry config
+ */
+export function resolveRefreshRetry(config: RefreshRetryConfig = {}): Required<RefreshRetryConfig> {
+  return {
+    maxAttempts: config.maxAttempts ?? 2,
+    delay: config.delay ?? 1000,
+    backoff: config.backoff ?? 2,
+    maxDelay: config.maxDelay ?? 10_000,
+    definitiveStatuses: config.definitiveStatuses ?? DEFAULT_DEFINITIVE_REFRESH_STATUSES
+  }
+}
+
+/**
+ * Check if refresh failure means the session is gone
+ *
+ * - HTTP status in definitiveStatuses → definitive
+ * - Any other HTTP status (5xx, 408, 429, ...) → transient
+ * - No status: network error / timeout → transient, anything else
+ *   (no refresh token, invalid token response) → definitive
+ */
+export function isDefinitiveRefreshFailure(
+  code: string,
+  status: number | undefined,
+  policy: Required<RefreshRetryConfig>
+): boolean {
+  if (status !== undefined) {
+    return policy.definitiveStatuses.includes(status)
+  }
+  return !TRANSIENT_CODES.includes(code)
+}
+
+/**
+ * Delay before retry attempt (0-based): delay * backoff^attempt, capped at maxDelay
+ */
+export function getRefreshRetryDelay(attempt: number, policy: Required<RefreshRetryConfig>): number {
+  return Math.min(policy.delay * Math.pow(policy.backoff, attempt), policy.maxDelay)
+}
+
+/**
+ * Delay until the next background refresh
+ *
+ * Normally refreshEarlyMs before expiry. A token whose lifetime is shorter than
+ * refreshEarlyMs is already inside that window when issued, so it is refreshed
+ * halfway through its remaining lifetime instead of on every tick of the floor.
+ *
+ * @param timeLeft - Remaining token lifetime in ms (server clock)
+ */
+export function getBackgroundRefreshDelay(timeLeft: number, refreshEarlyMs: number): number {
+  const untilWindow = timeLeft - refreshEarlyMs
+  const delay = untilWindow > 0 ? untilWindow : timeLeft / 2
+  return Math.min(Math.max(delay, MIN_BACKGROUND_REFRESH_DELAY_MS), MAX_TIMER_DELAY_MS)
+}
@@ -0,0 +1,126 @@
+/**
+ * Server-Sent Events stream parser
+ * Implements the `text/event-stream` interpretation rules from the HTML spec
+ * (fields, comments, multi-line data, id/retry handling, CR/LF/CRLF line endings).
+ */
+
+import type { SseEvent } from '../types'
+
+export interface SseParserHandlers {
+  /** Dispatched event (type defaults to 'message') */
+  onEvent: (event: SseEvent) => void
+  /** Server requested a new reconnection delay (`retry:` field) */
+  onRetry?: (ms: number) => void
+}
+
+export interface SseParser {
+  /** Feed decoded text (chunks may split lines anywhere) */
+  feed(chunk: string): void
+  /** Drop a partial line and event before reading a new connection (keeps last event ID) */
+  reset(): void
+  /** Current last event ID (sent as Last-Event-ID on reconnect) */
+  readonly lastEventId: string
+}
+
+/**
+ * Create incremental SSE parser
+ *
+ * @param initialLastEventId - Last event ID carried over from a previous connection
+ */
+export function createSseParser(handlers: SseParserHandlers, initialLastEventId: string = ''): SseParser {
+  let buffer = ''
+  let isFirstChunk = true
+  let data = ''
+  let eventType = ''
+  let lastEventId = initialLastEventId
+
+  const dispatch = () => {
+    if (!data) {
+      eventType = ''
+      return
+    }
+    // Remove the trailing newline appended after the last data line
+    const event: SseEvent = {
+      type: eventType || 'message',
+      data: data.endsWith('\n') ? data.slice(0, -1) : data,
+      lastEventId
+    }
+    data = ''
+    eventType = ''
+    handlers.onEvent(event)
+  }
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch()
+      return
+    }
+    if (line.startsWith(':')) {
+      return // Comment (keep-alive)
+    }
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) {
+      value = value.slice(1)
+    }
+
+    switch (field) {
+      case 'event':
+        eventType = value
+        break
+      case 'data':
+        data += value + '\n'
+        break
+      case 'id':
+        if (!value.includes('\0')) {
+          lastEventId = value
+        }
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          handlers.onRetry?.(parseInt(value, 10))
+        }
+        break
+      // Unknown fields are ignored
+    }
+  }
+
+  return {
+    feed(chunk: string) {
+      if (isFirstChunk && chunk) {
+        isFirstChunk = false
+        if (chunk.charCodeAt(0) === 0xfeff) {
+          chunk = chunk.slice(1)
+        }
+      }
+      buffer += chunk
+
+      let start = 0
+      for (let i = 0; i < buffer.length; i++) {
+        const char = buffer[i]
+        if (char !== '\n' && char !== '\r') continue
+
+        // Trailing CR: wait for next chunk to know if LF follows
+        if (char === '\r' && i === buffer.length - 1) break
+
+        processLine(buffer.slice(start, i))
+        if (char === '\r' && buffer[i + 1] === '\n') i++
+        start = i + 1
+      }
+      buffer = buffer.slice(start)
+    },
+
+    reset() {
+      buffer = ''
+      isFirstChunk = true
+      data = ''
+      eventType = ''
+    },
+
+    get lastEventId() {
+      return lastEventId
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Response body streaming over a dedicated MessagePort
+ *
+ * Worker reads `response.body` and posts chunks (transferred, zero-copy) only
+ * when the main thread grants credit, so a slow consumer never makes the worker
+ * buffer the whole body. Cancellation goes through the regular CANCEL message,
+ * which aborts the worker-side fetch.
+ *
+ * Worker → Main: chunk | end | error
+ * Main → Worker: pull (grants credit for N chunks)
+ */
+
+import type { TransferProgress } from '../types'
+
+export type StreamPortMessage =
+  | { type: 'chunk'; chunk: Uint8Array }
+  | { type: 'end' }
+  | { type: 'error'; message: string }
+
+export type StreamControlMessage = { type: 'pull'; credit: number }
+
+/**
+ * Pipe ReadableStream to port with credit-based backpressure (worker side)
+ *
+ * @param onDone - Called once when the stream ends, errors or is aborted
+ * @param signal - Request cancelled (CANCEL) - stops the pipe even with no read pending
+ */
+export function pipeToPort(body: ReadableStream<Uint8Array>, port: MessagePort, onDone?: () => void, signal?: AbortSignal): void {
+  const reader = body.getReader()
+  let credit = 0
+  let reading = false
+  let finished = false
+
+  const finish = (message: StreamPortMessage) => {
+    if (finished) return
+    finished = true
+    signal?.removeEventListener('abort', cancel)
+    port.postMessage(message)
+    port.close()
+    onDone?.()
+  }
+
+  // A pending read would fail on its own; without credit nothing is reading, so clean up here
+  const cancel = () => {
+    finish({ type: 'error', message: 'Stream cancelled' })
+    reader.cancel().catch(() => {})
+  }
+
+  if (signal?.aborted) {
+    cancel()
+    return
+  }
+  signal?.addEventListener('abort', cancel)
+
+  const pump = async () => {
+    if (reading || finished) return
+    reading = true
+    try {
+      while (credit > 0 && !finished) {
+        const { value, done } = await reader.read()
+        if (done) {
+          finish({ type: 'end' })
+          break
+        }
+        credit--
+        // Transfer the buffer if the chunk owns it entirely, otherwise copy
+        const chunk = value.byteOffset === 0 && value.byteLength === value.buffer.byteLength ? value : value.slice()
+        port.postMessage({ type: 'chunk', chunk } satisfies StreamPortMessage, [chunk.buffer as ArrayBuffer])
+      }
+    } catch (error) {
+      finish({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+    } finally {
+      reading = false
+    }
+  }
+
+  port.onmessage = (event: MessageEvent<StreamControlMessage>) => {
+    if (event.data?.type === 'pull') {
+      credit += event.data.credit
+      pump()
+    }
+  }
+}
+
+/**
+ * Create ReadableStream fed from port (main thread side)
+ * Requests one chunk at a time - the stream's queue is the only buffer.
+ *
+ * @param onCancel - Called when consumer cancels or signal aborts (should send CANCEL to worker)
+ */
+export function readableFromPort(
+  port: MessagePort,
+  onCancel: () => void,
+  signal?: AbortSignal | null
+): ReadableStream<Uint8Array> {
+  let pendingPull: (() => void) | null = null
+  let closed = false
+
+  const close = () => {
+    closed = true
+    port.close()
+    pendingPull?.()
+    pendingPull = null
+  }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      port.onmessage = (event: MessageEvent<StreamPortMessage>) => {
+        const message = event.data
+        if (closed) return
+
+        switch (message.type) {
+          case 'chunk':
+            controller.enqueue(message.chunk)
+            pendingPull?.()
+            pendingPull = null
+            break
+          case 'end':
+            close()
+            controller.close()
+            break
+          case 'error':
+            close()
+            controller.error(new Error(message.message))
+            break
+        }
+      }
+
+      signal?.addEventListener('abort', () => {
+        if (closed) return
+        close()
+        onCancel()
+        controller.error(signal.reason ?? new DOMException('Aborted', 'AbortError'))
+      }, { once: true })
+    },
+
+    pull() {
+      if (closed) return
+      return new Promise<void>((resolve) => {
+        pendingPull = resolve
+        port.postMessage({ type: 'pull', credit: 1 } satisfies StreamControlMessage)
+      })
+    },
+
+    cancel() {
+      if (closed) return
+      close()
+      onCancel()
+    }
+  })
+}
+
+/**
+ * Body size from Content-Length, null when unknown
+ * Content-Encoding makes the header the compressed size, which can't be compared with decoded bytes
+ */
+export function getBodyLength(headers: Headers): number | null {
+  const encoding = headers.get('content-encoding')
+  if (encoding && encoding.toLowerCase() !== 'identity') return null
+
+  const length = headers.get('content-length')
+  if (length === null || !/^\d+$/.test(length.trim())) return null
+  return parseInt(length, 10)
+}
+
+/**
+ * Read whole response body, reporting progress after each chunk (worker side)
+ */
+export async function readBodyWithProgress(
+  response: Response,
+  onProgress: (progress: TransferProgress) => void
+): Promise<ArrayBuffer> {
+  const total = getBodyLength(response.headers)
+  if (!response.body) {
+    onProgress({ loaded: 0, total })
+    return new ArrayBuffer(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    chunks.push(chunk.value)
+    loaded += chunk.value.byteLength
+    onProgress({ loaded, total })
+  }
+
+  const bytes = new Uint8Array(loaded)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return bytes.buffer
+}
@@ -0,0 +1,155 @@
+import type { ArrayFormat, QueryParams } from '../types'
+
+/**
+ * URL utilities for client-side request URL resolution
+ * Worker validates the resolved absolute URL against allowedDomains
+ */
+
+/**
+ * Check if URL is absolute (has scheme) or protocol-relative (//host/path)
+ */
+export function isAbsoluteUrl(url: string): boolean {
+  return /^[a-z][a-z\d+\-.]*:/i.test(url) || url.startsWith('//')
+}
+
+/**
+ * Join base URL and relative path with exactly one slash between them
+ *
+ * Unlike `new URL(path, base)`, the base path is always preserved:
+ * joinUrl('https://api.example.com/v1', 'users') => 'https://api.example.com/v1/users'
+ */
+export function joinUrl(baseUrl: string, path: string): string {
+  if (!path) return baseUrl
+  if (path.startsWith('?') || path.startsWith('#')) {
+    return baseUrl.replace(/\/+$/, '') + path
+  }
+  return baseUrl.replace(/\/+$/, '') + '/' + path.replace(/^\/+/, '')
+}
+
+/**
+ * Encode query component, keeping brackets readable (ids[]=1, ids[0]=1)
+ */
+function encode(value: string): string {
+  return encodeURIComponent(value).replace(/%5B/gi, '[').replace(/%5D/gi, ']')
+}
+
+/**
+ * Serialize query params to query string (without leading '?')
+ *
+ * - null/undefined values are skipped
+ * - Arrays are serialized according to arrayFormat:
+ *   - 'repeat': ids=1&ids=2 (default)
+ *   - 'brackets': ids[]=1&ids[]=2
+ *   - 'comma': ids=1,2
+ *   - 'index': ids[0]=1&ids[1]=2
+ */
+export function serializeParams(params: QueryParams, arrayFormat: ArrayFormat = 'repeat'): string {
+  const parts: string[] = []
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === null || value === undefined) continue
+
+    if (!Array.isArray(value)) {
+      parts.push(`${encode(key)}=${encode(String(value))}`)
+      continue
+    }
+
+    const items = value.map(item => String(item))
+
+    switch (arrayFormat) {
+      case 'brackets':
+        for (const item of items) parts.push(`${encode(key)}[]=${encode(item)}`)
+        break
+      case 'comma':
+        if (items.length > 0) parts.push(`${encode(key)}=${items.map(encode).join(',')}`)
+        break
+      case 'index':
+        items.forEach((item, i) => parts.push(`${encode(key)}[${i}]=${encode(item)}`))
+        break
+      default:
+        for (const item of items) parts.push(`${encode(key)}=${encode(item)}`)
+    }
+  }
+
+  return parts.join('&')
+}
+
+/**
+ * Append serialized params to URL, preserving existing query and hash
+ */
+export function appendParams(url: string, params: QueryParams, arrayFormat?: ArrayFormat): string {
+  const query = serializeParams(params, arrayFormat)
+  if (!query) return url
+
+  const hashIndex = url.indexOf('#')
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex)
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex)
+  const separator = base.includes('?') ? (base.endsWith('?') || base.endsWith('&') ? '' : '&') : '?'
+
+  return `${base}${separator}${query}${hash}`
+}
+
+/**
+ * Resolve request URL to an absolute URL
+ *
+ * 1. Absolute URLs are used as-is (baseUrl is ignored)
+ * 2. Relative paths are joined with baseUrl (if provided)
+ * 3. Still-relative URLs are resolved against the page location (main thread),
+ *    NOT the worker script location
+ * 4. Params are appended last
+ */
+export function buildUrl(
+  url: string,
+  options: { baseUrl?: string; params?: QueryParams; arrayFormat?: ArrayFormat } = {}
+): string {
+  let resolved = url
+
+  if (!isAbsoluteUrl(resolved) && options.baseUrl) {
+    resolved = joinUrl(options.baseUrl, resolved)
+  }
+
+  if (!isAbsoluteUrl(resolved) || resolved.startsWith('//')) {
+    const location = (globalThis as { location?: { href: string } }).location
+    if (location?.href) {
+      try {
+        resolved = new URL(resolved, location.href).href
+      } catch {
+        // Leave as-is - worker will reject invalid URLs
+      }
+    }
+  }
+
+  if (options.params) {
+    resolved = appendParams(resolved, options.params, options.arrayFormat)
+  }
+
+  return resolved
+}
+
+/**
+ * Fill `:name` segments of a path template with URI-encoded values
+ *
+ * buildPath('/users/:id/posts/:postId', { id: 'a b', postId: 7 }) => '/users/a%20b/posts/7'
+ * Throws if a param referenced by the template is missing.
+ */
+export function buildPath(template: string, params: Record<string, string | number> = {}): string {
+  return template.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_, name: string) => {
+    const value = params[name]
+    if (value === undefined || value === null) {
+      throw new Error(`Missing path param "${name}" for ${template}`)
+    }
+    return encodeURIComponent(String(value))
+  })
+}
+
+/**
+ * Origin of a request URL (circuit breaker key)
+ * Relative URLs resolve against the page location; unparsable URLs are returned as is
+ */
+export function getOrigin(url: string): string {
+  try {
+    return new URL(url, typeof location !== 'undefined' ? location.href : undefined).origin
+  } catch {
+    return url
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * fetch() replacement backed by XMLHttpRequest (worker side)
+ *
+ * fetch() has no upload progress events, XHR does. Used only for requests
+ * with onUploadProgress; resolves to a regular Response so the rest of the
+ * request pipeline (401 replay, envelope reading) stays the same.
+ * Rejections mirror fetch: TypeError for network failures, AbortError on abort.
+ */
+
+import type { TransferProgress } from '../types'
+import { parseResponseHeaders } from './http'
+
+/**
+ * Statuses that must not have a body in the Response constructor
+ */
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304])
+
+export function fetchWithUploadProgress(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (progress: TransferProgress) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const signal = init.signal
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    xhr.open(init.method || 'GET', url)
+    xhr.responseType = 'arraybuffer'
+    xhr.withCredentials = init.credentials === 'include'
+    new Headers(init.headers).forEach((value, key) => {
+      xhr.setRequestHeader(key, value)
+    })
+
+    xhr.upload.onprogress = (event) => {
+      onUploadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : null })
+    }
+
+    const onAbort = () => xhr.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const cleanup = () => signal?.removeEventListener('abort', onAbort)
+
+    xhr.onload = () => {
+      cleanup()
+      const body = NULL_BODY_STATUSES.has(xhr.status) ? null : xhr.response as ArrayBuffer
+      resolve(new Response(body, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseResponseHeaders(xhr.getAllResponseHeaders())
+      }))
+    }
+    xhr.onerror = xhr.ontimeout = () => {
+      cleanup()
+      reject(new TypeError('Network request failed'))
+    }
+    xhr.onabort = () => {
+      cleanup()
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null)
+  })
+}
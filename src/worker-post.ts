@@ -1,27 +1,72 @@
 /**
  * Worker postMessage helpers
  * Utilities to send messages from worker thread to main thread
+ *
+ * Replies go to the port that sent the request.
+ * Events (auth state, refresh) are broadcast to all connected ports:
+ * - Dedicated worker: a single port (the worker global scope)
+ * - Shared worker: one MessagePort per connected tab
  */
 
-import type { WorkerToMainMessage } from './messages'
+import type { WorkerToMainMessage, ProgressPayload } from './messages'
 import type { Result } from 'ts-micro-result'
-import type { AuthResult, FetchEnvelope, RefreshReason } from './types'
+import type { AuthResult, FetchEnvelope, RefreshReason, RefreshFailure, StreamStart, SseEvent, SseError, EnvelopeBody, OfflineQueueEvent } from './types'
 import { MSG } from './messages'
 
 /**
- * Internal helper to post message to main thread
+ * Message target - DedicatedWorkerGlobalScope or MessagePort (shared worker)
  */
-function post(message: WorkerToMainMessage): void {
-  ;(self as DedicatedWorkerGlobalScope).postMessage(message)
+export interface WorkerPort {
+  postMessage(message: unknown, transfer: Transferable[]): void
+  postMessage(message: unknown): void
+}
+
+/**
+ * Ports that receive broadcast events
+ */
+const ports = new Set<WorkerPort>()
+
+/**
+ * Register port for broadcast events
+ */
+export function connectPort(port: WorkerPort): void {
+  ports.add(port)
+}
+
+/**
+ * Unregister port (tab closed or client destroyed)
+ */
+export function disconnectPort(port: WorkerPort): void {
+  ports.delete(port)
+}
+
+/**
+ * Internal helper to post message to one port
+ */
+function post(port: WorkerPort, message: WorkerToMainMessage, transfer?: Transferable[]): void {
+  if (transfer && transfer.length > 0) {
+    port.postMessage(message, transfer)
+  } else {
+    port.postMessage(message)
+  }
+}
+
+/**
+ * Internal helper to post message to all connected ports
+ */
+function broadcast(message: WorkerToMainMessage): void {
+  for (const port of ports) {
+    port.postMessage(message)
+  }
 }
 
 /**
  * Send error result (generic errors for auth operations, etc.)
  * Passes complete Result object with errors and meta
  */
-export function sendError(id: string, result: Result<unknown>): void {
+export function sendError(port: WorkerPort, id: string, result: Result<unknown>): void {
   if (!result.ok) {
-    post({
+    post(port, {
       type: MSG.ERROR,
       id,
       payload: { errors: result.errors, meta: result.meta }
@@ -31,31 +76,98 @@ export function sendError(id: string, result: Result<unknown>): void {
 
 /**
  * Send fetch envelope (raw HTTP response, worker doesn't judge status)
+ * ArrayBuffer bodies (responseType: 'arraybuffer') are transferred, not copied
  */
-export function sendFetchResult(id: string, envelope: FetchEnvelope): void {
-  post({
+export function sendFetchResult(port: WorkerPort, id: string, envelope: FetchEnvelope<EnvelopeBody>): void {
+  post(port, {
     type: MSG.FETCH_RESULT,
     id,
     payload: envelope
+  } as any, envelope.body instanceof ArrayBuffer ? [envelope.body] : undefined)
+}
+
+/**
+ * Send STREAM_START (response headers received, body follows on the stream port)
+ */
+export function sendStreamStart(port: WorkerPort, id: string, start: StreamStart): void {
+  post(port, {
+    type: MSG.STREAM_START,
+    id,
+    payload: start
+  } as any)
+}
+
+/**
+ * Send PROGRESS (upload/download bytes for a pending request)
+ */
+export function sendProgress(port: WorkerPort, id: string, progress: ProgressPayload): void {
+  post(port, {
+    type: MSG.PROGRESS,
+    id,
+    payload: progress
+  } as any)
+}
+
+/**
+ * Send SSE_OPEN (event stream connected)
+ */
+export function sendSseOpen(port: WorkerPort, id: string, status: number): void {
+  post(port, {
+    type: MSG.SSE_OPEN,
+    id,
+    payload: { status }
+  } as any)
+}
+
+/**
+ * Send SSE_EVENT (one dispatched server-sent event)
+ */
+export function sendSseEvent(port: WorkerPort, id: string, event: SseEvent): void {
+  post(port, {
+    type: MSG.SSE_EVENT,
+    id,
+    payload: event
+  } as any)
+}
+
+/**
+ * Send SSE_ERROR (connection lost or failed)
+ */
+export function sendSseError(port: WorkerPort, id: string, error: SseError): void {
+  post(port, {
+    type: MSG.SSE_ERROR,
+    id,
+    payload: error
   } as any)
 }
 
 /**
  * Send fetch error response
  */
-export function sendFetchError(id: string, error: string, status?: number): void {
-  post({
+export function sendFetchError(port: WorkerPort, id: string, error: string, status?: number, timedOut?: boolean): void {
+  post(port, {
     type: MSG.FETCH_ERROR,
     id,
-    payload: { error, status }
+    payload: { error, status, ...(timedOut ? { timedOut } : {}) }
+  } as any)
+}
+
+/**
+ * Send FETCH_QUEUED (mutation stored in the offline queue, replayed later)
+ */
+export function sendFetchQueued(port: WorkerPort, id: string, queueId: string): void {
+  post(port, {
+    type: MSG.FETCH_QUEUED,
+    id,
+    payload: { queueId }
   } as any)
 }
 
 /**
  * Send READY event (worker initialized)
  */
-export function sendReady(): void {
-  post({
+export function sendReady(port: WorkerPort): void {
+  post(port, {
     type: MSG.READY,
     id: `evt_${Date.now()}`
   } as any)
@@ -64,8 +176,8 @@ export function sendReady(): void {
 /**
  * Send SETUP_ERROR event (worker setup failed)
  */
-export function sendSetupError(error: string): void {
-  post({
+export function sendSetupError(port: WorkerPort, error: string): void {
+  post(port, {
     type: MSG.SETUP_ERROR,
     id: `evt_${Date.now()}`,
     payload: { error }
@@ -75,8 +187,8 @@ export function sendSetupError(error: string): void {
 /**
  * Send PONG response to PING
  */
-export function sendPong(id: string, timestamp: number): void {
-  post({
+export function sendPong(port: WorkerPort, id: string, timestamp: number): void {
+  post(port, {
     type: MSG.PONG,
     id,
     payload: { timestamp }
@@ -85,20 +197,26 @@ export function sendPong(id: string, timestamp: number): void {
 
 /**
  * Send AUTH_STATE_CHANGED event
+ * Broadcast to all ports, or only to `port` if provided (e.g., newly connected tab)
  */
-export function sendAuthStateChanged(authResult: AuthResult): void {
-  post({
+export function sendAuthStateChanged(authResult: AuthResult, port?: WorkerPort): void {
+  const message = {
     type: MSG.AUTH_STATE_CHANGED,
     id: `evt_${Date.now()}`,
     payload: authResult
-  } as any)
+  } as any
+  if (port) {
+    post(port, message)
+  } else {
+    broadcast(message)
+  }
 }
 
 /**
  * Send AUTH_CALL_RESULT (auth method result)
  */
-export function sendAuthCallResult(id: string, authResult: AuthResult): void {
-  post({
+export function sendAuthCallResult(port: WorkerPort, id: string, authResult: AuthResult): void {
+  post(port, {
     type: MSG.AUTH_CALL_RESULT,
     id,
     payload: authResult
@@ -109,9 +227,63 @@ export function sendAuthCallResult(id: string, authResult: AuthResult): void {
  * Send TOKEN_REFRESHED event (for debug hooks)
  */
 export function sendTokenRefreshed(reason: RefreshReason): void {
-  post({
+  broadcast({
     type: MSG.TOKEN_REFRESHED,
     id: `evt_${Date.now()}`,
     payload: { reason }
   } as any)
 }
+
+/**
+ * Send REFRESH_FAILED event (every failed refresh in ensureValidToken)
+ */
+export function sendRefreshFailed(failure: RefreshFailure): void {
+  broadcast({
+    type: MSG.REFRESH_FAILED,
+    id: `evt_${Date.now()}`,
+    payload: failure
+  } as any)
+}
+
+/**
+ * Send SESSION_EXPIRED event (authenticated session ended because refresh failed)
+ */
+export function sendSessionExpired(failure: RefreshFailure): void {
+  broadcast({
+    type: MSG.SESSION_EXPIRED,
+    id: `evt_${Date.now()}`,
+    payload: failure
+  } as any)
+}
+
+/**
+ * Send CROSS_TAB_LOGOUT event (user logged out in another tab)
+ */
+export function sendCrossTabLogout(): void {
+  broadcast({
+    type: MSG.CROSS_TAB_LOGOUT,
+    id: `evt_${Date.now()}`
+  } as any)
+}
+
+/**
+ * Send CLOCK_SKEW event (estimated server clock offset changed, for debug hooks)
+ */
+export function sendClockSkew(skewMs: number): void {
+  broadcast({
+    type: MSG.CLOCK_SKEW,
+    id: `evt_${Date.now()}`,
+    payload: { skewMs }
+  } as any)
+}
+
+/**
+ * Send OFFLINE_QUEUE event (request queued, synced, failed or dropped)
+ */
+export function sendOfflineQueueEvent(event: OfflineQueueEvent): void {
+  broadcast({
+    type: MSG.OFFLINE_QUEUE,
+    id: `evt_${Date.now()}`,
+    payload: event
+  } as any)
+}
@@ -1,10 +1,10 @@
 /// <reference lib="webworker" />
 
-import type { WorkerConfig, FetchEnvelope, TokenProvider, FetchGuardRequestInit, ProviderPresetConfig } from './types'
+import type { WorkerConfig, FetchEnvelope, TokenProvider, FetchGuardRequestInit, ProviderPresetConfig, RefreshReason, AuthResult, RefreshFailure, EventSourceRequest, SseError, TransferProgress, EnvelopeBody } from './types'
 import type { MainToWorkerMessage } from './messages'
 import { ok, err, type Result } from 'ts-micro-result'
 import { MSG } from './messages'
-import { DEFAULT_REFRESH_EARLY_MS } from './constants'
+import { DEFAULT_REFRESH_EARLY_MS, DEFAULT_UNAUTHORIZED_STATUSES, DEFAULT_SSE_RECONNECT_MS, DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_OFFLINE_QUEUE_DB, DEFAULT_OFFLINE_QUEUE_MAX_ITEMS, DEFAULT_OFFLINE_QUEUE_RETRY_MS, MIN_BACKGROUND_REFRESH_DELAY_MS } from './constants'
 import {
   InitErrors,
   AuthErrors,
@@ -12,9 +12,10 @@ import {
   RequestErrors,
   GeneralErrors
 } from './errors'
-import { sendAuthStateChanged, sendAuthCallResult, sendPong, sendReady, sendSetupError, sendError, sendFetchResult, sendFetchError, sendTokenRefreshed } from './worker-post'
+import { ERROR_CODES } from './error-codes'
+import { sendAuthStateChanged, sendAuthCallResult, sendPong, sendReady, sendSetupError, sendError, sendFetchResult, sendFetchError, sendStreamStart, sendProgress, sendSseOpen, sendSseEvent, sendSseError, sendTokenRefreshed, sendCrossTabLogout, sendClockSkew, sendRefreshFailed, sendSessionExpired, sendFetchQueued, sendOfflineQueueEvent, connectPort, disconnectPort, type WorkerPort } from './worker-post'
 import { getProvider, registerProvider, unregisterProvider, hasProvider, listProviders, clearProviders } from './utils/registry'
-import { buildProviderFromPreset } from './provider/register-presets'
+import { buildProviderFromPreset, getPresetKey } from './provider/register-presets'
 
 // Re-export registry functions for custom workers
 // This ensures custom workers use the SAME registry instance as the worker IIFE
@@ -27,9 +28,34 @@ export { createCookieStrategy } from './provider/strategy/cookie'
 export { createIndexedDBStorage } from './provider/storage/indexeddb'
 export { bodyParser } from './provider/parser/body'
 export { cookieParser } from './provider/parser/cookie'
+export { createOAuthStrategy } from './provider/strategy/oauth'
+export { oauthParser } from './provider/parser/oauth'
+export { createConfigurableParser } from './provider/parser/configurable'
 export type { TokenProvider, TokenParser, AuthStrategy, RefreshTokenStorage, ExchangeTokenOptions } from './types'
 import { deserializeFormData, isSerializedFormData } from './utils/formdata'
 import { arrayBufferToBase64, isBinaryContentType } from './utils/binary'
+import { isIdempotentMethod } from './utils/http'
+import { fetchWithUploadProgress } from './utils/xhr'
+import { createCrossTabSync, type CrossTabSync, type CrossTabMessage } from './utils/cross-tab'
+import { serverNow, toLocalTime, observeServerDate, setClockSkewListener } from './utils/clock'
+import { resolveRefreshRetry, isDefinitiveRefreshFailure, getRefreshRetryDelay, getBackgroundRefreshDelay } from './utils/refresh-policy'
+import { pipeToPort, readBodyWithProgress } from './utils/stream'
+import { createSseParser } from './utils/sse'
+import {
+  createResponseCache,
+  createCacheEntry,
+  refreshCacheEntry,
+  getCacheKey,
+  getConditionalHeaders,
+  hasConditionalHeaders,
+  invalidatesCache,
+  isCacheableRequest,
+  isFresh,
+  requiresRevalidation,
+  toResponse,
+  type ResponseCache
+} from './utils/cache'
+import { createOfflineQueue, createIndexedDBQueueStore, isQueueableRequest, type OfflineQueue, type QueuedRequest, type ReplayOutcome } from './utils/offline-queue'
 
 /**
  * IIFE Closure to protect sensitive tokens from external access
@@ -42,9 +68,24 @@ import { arrayBufferToBase64, isBinaryContentType } from './utils/binary'
   let refreshToken: string | null = null
   let expiresAt: number | null = null
   let currentUser: unknown | undefined
-  const pendingControllers = new Map<string, AbortController>()
+  // Per-port controllers - request ids are only unique within one tab (shared mode)
+  const pendingControllers = new Map<WorkerPort, Map<string, AbortController>>()
   let refreshPromise: Promise<Result<string>> | null = null
   let authPromise: Promise<unknown> | null = null
+  let crossTab: CrossTabSync | null = null
+  let refreshTimer: ReturnType<typeof setTimeout> | null = null
+  // Consecutive transient background refresh failures (backoff for the next attempt)
+  let backgroundFailures = 0
+  let lastActivityAt = Date.now()
+  // Per-port page visibility - background refresh pauses when every tab is hidden
+  const hiddenPorts = new Map<WorkerPort, boolean>()
+  let refreshPolicy = resolveRefreshRetry()
+  let responseCache: ResponseCache | null = null
+  // Bumped when the signed-in identity changes - responses from older requests are not stored
+  let cacheEpoch = 0
+  let offlineQueue: OfflineQueue | null = null
+  // Serialized SETUP payload of the active config (shared mode: later tabs must match it)
+  let activeSetup: string | null = null
 
 /**
  * Mutex wrapper for auth operations (login, logout, custom auth methods)
@@ -74,14 +115,97 @@ async function withAuthMutex<T>(operation: () => Promise<T>): Promise<T> {
   }
 }
 
+/**
+ * Promise-based delay (refresh retry backoff, SSE reconnect)
+ * Resolves early when signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+/**
+ * Check if every connected tab reported its page as hidden
+ */
+function isPageHidden(): boolean {
+  return hiddenPorts.size > 0 && Array.from(hiddenPorts.values()).every(Boolean)
+}
+
+/**
+ * Check if keepAlive idle limit is exceeded (background refresh stops until next activity)
+ */
+function isIdle(): boolean {
+  const keepAlive = config?.backgroundRefresh?.keepAlive
+  return keepAlive !== undefined && Date.now() - lastActivityAt > keepAlive
+}
+
+/**
+ * (Re)schedule background refresh at expiresAt - refreshEarlyMs
+ * Called after every token state change, visibility change and activity after idle.
+ */
+function scheduleBackgroundRefresh() {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer)
+    refreshTimer = null
+  }
+
+  const background = config?.backgroundRefresh
+  if (!background || background.enabled === false) return
+  if (!accessToken || expiresAt === null || isPageHidden() || isIdle()) return
+
+  const refreshEarlyMs = config?.refreshEarlyMs ?? DEFAULT_REFRESH_EARLY_MS
+  const delay = getBackgroundRefreshDelay(expiresAt - serverNow(), refreshEarlyMs)
+  refreshTimer = setTimeout(runBackgroundRefresh, delay)
+}
+
+/**
+ * Background refresh timer callback
+ * Successful refresh reschedules via setTokenState. Definitive failure clears state (no reschedule);
+ * transient failure keeps the session, so try again after a backoff delay.
+ */
+async function runBackgroundRefresh() {
+  refreshTimer = null
+  if (isPageHidden() || isIdle()) return
+
+  const result = await ensureValidToken()
+  if (result.ok) {
+    backgroundFailures = 0
+    // Timer fired before the refresh window (delay capped) - arm again
+    if (!refreshTimer) scheduleBackgroundRefresh()
+    return
+  }
+
+  if (accessToken && !refreshTimer) {
+    const delay = Math.max(getRefreshRetryDelay(backgroundFailures++, refreshPolicy), MIN_BACKGROUND_REFRESH_DELAY_MS)
+    refreshTimer = setTimeout(runBackgroundRefresh, delay)
+  }
+}
+
+/**
+ * Record request/auth activity for keepAlive; restarts schedule stopped by idle limit
+ */
+function markActivity() {
+  const wasIdle = isIdle()
+  lastActivityAt = Date.now()
+  if (wasIdle || !refreshTimer) {
+    scheduleBackgroundRefresh()
+  }
+}
+
 /**
  * Ensure we have a valid access token (not expired).
  * If token is missing or expired, refresh it.
  * Prevents concurrent refresh attempts.
  *
+ * @param forceRefresh - Refresh even if token looks valid (server rejected it with 401/419)
  * @returns Result<string> - access token on success, error on failure
  */
-async function ensureValidToken(): Promise<Result<string>> {
+async function ensureValidToken(forceRefresh: boolean = false): Promise<Result<string>> {
   // Provider must be initialized via SETUP first
   if (!provider) {
     return err(InitErrors.NotInitialized())
@@ -89,12 +213,13 @@ async function ensureValidToken(): Promise<Result<string>> {
 
   // Determine refresh reason before checking if refresh is needed
   const refreshEarlyMs = config?.refreshEarlyMs ?? DEFAULT_REFRESH_EARLY_MS
-  const now = Date.now()
+  const now = serverNow()
   const timeLeft = expiresAt ? expiresAt - now : 0
   const isExpired = !accessToken || !expiresAt || timeLeft <= 0
   const isProactive = !isExpired && timeLeft <= refreshEarlyMs
+  const reason: RefreshReason = forceRefresh ? 'unauthorized' : isProactive ? 'proactive' : 'expired'
 
-  if (accessToken && expiresAt && timeLeft > refreshEarlyMs) {
+  if (!forceRefresh && accessToken && expiresAt && timeLeft > refreshEarlyMs) {
     return ok(accessToken)
   }
 
@@ -110,11 +235,45 @@ async function ensureValidToken(): Promise<Result<string>> {
         return err(InitErrors.NotInitialized())
       }
 
-      const valueRes = await provider.refreshToken(refreshToken)
+      // Cross-tab: another tab may have rotated the refresh token while we waited for the lock,
+      // and its 'refreshed' message can arrive after the lock is released. Null makes the
+      // provider read the current token from storage inside the lock.
+      const currentProvider = provider
+      const sync = crossTab
+      const refresh = () => currentProvider.refreshToken(sync ? null : refreshToken)
+      const runRefresh = () => sync
+        ? sync.withRefreshLock(async () => {
+            const result = await refresh()
+            // Notify before releasing the lock so the next tab sees the rotation
+            if (result.ok) sync.notify({ type: 'refreshed' })
+            return result
+          })
+        : refresh()
+      let valueRes = await runRefresh()
+
+      // Retry transient failures with backoff; only definitive rejections end the session
+      for (let attempt = 0; !valueRes.ok; attempt++) {
+        const code = valueRes.errors[0]?.code ?? ERROR_CODES.TOKEN_REFRESH_FAILED
+        const status = (valueRes.meta?.params as { status?: number } | undefined)?.status
+        const definitive = isDefinitiveRefreshFailure(code, status, refreshPolicy)
 
-      if (!valueRes.ok) {
-        setTokenState({ token: null, expiresAt: null, user: undefined, refreshToken: undefined })
-        return err(valueRes.errors)
+        if (definitive || attempt >= refreshPolicy.maxAttempts) {
+          const failure: RefreshFailure = { reason, code, status, definitive }
+          const hadSession = !!accessToken
+
+          if (definitive) {
+            setTokenState({ token: null, expiresAt: null, user: undefined, refreshToken: undefined })
+          }
+          sendRefreshFailed(failure)
+          // Once per session: state is cleared, so later failures have no session to expire
+          if (definitive && hadSession) {
+            sendSessionExpired(failure)
+          }
+          return err(valueRes.errors)
+        }
+
+        await sleep(getRefreshRetryDelay(attempt, refreshPolicy))
+        valueRes = await runRefresh()
       }
 
       const tokenInfo = valueRes.data
@@ -130,7 +289,7 @@ async function ensureValidToken(): Promise<Result<string>> {
       }
 
       // Emit TOKEN_REFRESHED event for debug hooks
-      sendTokenRefreshed(isProactive ? 'proactive' : 'expired')
+      sendTokenRefreshed(reason)
 
       return ok(accessToken)
     } finally {
@@ -181,9 +340,125 @@ function validateDomain(url: string): boolean {
 }
 
 /**
- * Make API request with proactive token management
+ * Get token for replaying a request rejected with 401/419.
+ * If another request already refreshed while this one was in flight,
+ * reuse that token instead of refreshing again.
+ */
+async function recoverToken(rejectedToken: string | null): Promise<Result<string>> {
+  if (accessToken && accessToken !== rejectedToken && !refreshPromise) {
+    return ok(accessToken)
+  }
+  return ensureValidToken(true)
+}
+
+/**
+ * Check if a rejected request should be refreshed and replayed
+ * Request-level options override worker config
+ */
+function shouldRecoverUnauthorized(status: number, method: string | undefined, options: FetchGuardRequestInit): boolean {
+  const recovery = config?.unauthorizedRecovery
+  const enabled = options.retryOnUnauthorized ?? recovery?.enabled ?? false
+  if (!enabled) return false
+
+  const statuses = recovery?.statuses ?? DEFAULT_UNAUTHORIZED_STATUSES
+  if (!statuses.includes(status)) return false
+
+  // Stream body was consumed by the first attempt - it cannot be sent again
+  if (typeof ReadableStream !== 'undefined' && options.body instanceof ReadableStream) return false
+
+  const replayUnsafe = options.replayUnsafe ?? recovery?.replayUnsafe ?? false
+  return replayUnsafe || isIdempotentMethod(method)
+}
+
+/**
+ * Send request via fetch, mapping transport failures to errors
+ * With onUploadProgress, XMLHttpRequest is used instead (fetch has no upload progress)
  */
-async function makeApiRequest(url: string, options: FetchGuardRequestInit = {}): Promise<Result<FetchEnvelope>> {
+async function sendRequest(url: string, init: RequestInit, onUploadProgress?: (progress: TransferProgress) => void): Promise<Result<Response>> {
+  try {
+    const requestInit: RequestInit = { ...init, credentials: 'include' }
+    const response = onUploadProgress
+      ? await fetchWithUploadProgress(url, requestInit, onUploadProgress)
+      : await fetch(url, requestInit)
+    observeServerDate(response)
+    return ok(response)
+  } catch (e) {
+    const aborted = (e && (e as any).name === 'AbortError')
+    return aborted
+      ? err(RequestErrors.Cancelled())
+      : err(RequestErrors.NetworkError({ message: String(e) }))
+  }
+}
+
+/**
+ * Progress callbacks for a single request (PROGRESS messages)
+ */
+interface RequestProgress {
+  onUploadProgress?: (progress: TransferProgress) => void
+  onDownloadProgress?: (progress: TransferProgress) => void
+}
+
+/**
+ * Read response into FetchEnvelope
+ * Body is text or base64 by default, ArrayBuffer/Blob with responseType
+ */
+async function readEnvelope(
+  response: Response,
+  options: FetchGuardRequestInit,
+  onDownloadProgress?: (progress: TransferProgress) => void
+): Promise<Result<FetchEnvelope<EnvelopeBody>>> {
+  // Extract content-type (always needed for binary detection)
+  const contentType = response.headers.get('content-type') || 'application/octet-stream'
+  const { responseType } = options
+
+  // Get body as requested type, text or base64
+  let body: EnvelopeBody
+  try {
+    const buffer = onDownloadProgress
+      ? await readBodyWithProgress(response, onDownloadProgress)
+      : null
+
+    if (responseType === 'arraybuffer') {
+      body = buffer ?? await response.arrayBuffer()
+    } else if (responseType === 'blob') {
+      body = buffer ? new Blob([buffer], { type: contentType }) : await response.blob()
+    } else if (isBinaryContentType(contentType)) {
+      body = arrayBufferToBase64(buffer ?? await response.arrayBuffer())
+    } else {
+      body = buffer ? new TextDecoder().decode(buffer) : await response.text()
+    }
+  } catch (e) {
+    // Reading/parsing response body failed
+    return err(RequestErrors.ResponseParseFailed({ message: String(e) }))
+  }
+
+  return ok({ body, status: response.status, contentType, headers: readHeaders(response, options.includeHeaders === true) })
+}
+
+/**
+ * Extract response headers as plain object (empty unless requested)
+ */
+function readHeaders(response: Response, includeHeaders: boolean): Record<string, string> {
+  const responseHeaders: Record<string, string> = {}
+  if (includeHeaders) {
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value
+    })
+  }
+  return responseHeaders
+}
+
+/**
+ * Send API request with proactive token management
+ * and optional refresh-and-replay on 401/419
+ *
+ * Returns the raw Response - body not consumed yet
+ */
+async function sendApiRequest(
+  url: string,
+  options: FetchGuardRequestInit = {},
+  onUploadProgress?: (progress: TransferProgress) => void
+): Promise<Result<Response>> {
   if (!config) {
     return err(InitErrors.NotInitialized())
   }
@@ -193,9 +468,16 @@ async function makeApiRequest(url: string, options: FetchGuardRequestInit = {}):
   }
 
   const requiresAuth = options.requiresAuth !== false
-  const includeHeaders = options.includeHeaders === true
   // Extract FetchGuard-specific options and keep only standard RequestInit
-  const { requiresAuth: _, includeHeaders: __, ...fetchOptions } = options
+  const {
+    requiresAuth: _,
+    includeHeaders: __,
+    retryOnUnauthorized: ___,
+    replayUnsafe: ____,
+    responseType: _____,
+    queueOffline: ______,
+    ...fetchOptions
+  } = options
 
   // Deserialize FormData if present (inspired by api-worker.js:484-518)
   if (fetchOptions.body && isSerializedFormData(fetchOptions.body)) {
@@ -214,6 +496,7 @@ async function makeApiRequest(url: string, options: FetchGuardRequestInit = {}):
     }
   }
 
+  let token: string | null = null
   if (requiresAuth) {
     const tokenRes = await ensureValidToken()
     if (!tokenRes.ok) {
@@ -221,52 +504,273 @@ async function makeApiRequest(url: string, options: FetchGuardRequestInit = {}):
       return err(tokenRes.errors)
     }
 
-    const token = tokenRes.data
+    token = tokenRes.data
     if (token) {
       headers['Authorization'] = `Bearer ${token}`
     }
   }
 
-  let response: Response
-  try {
-    response = await fetch(url, { ...fetchOptions, headers, credentials: 'include' })
-  } catch (e) {
-    const aborted = (e && (e as any).name === 'AbortError')
-    return aborted
-      ? err(RequestErrors.Cancelled())
-      : err(RequestErrors.NetworkError({ message: String(e) }))
+  const responseRes = await sendRequest(url, { ...fetchOptions, headers }, onUploadProgress)
+  if (!responseRes.ok) {
+    return err(responseRes.errors)
   }
 
-  // Extract content-type (always needed for binary detection)
-  const contentType = response.headers.get('content-type') || 'application/octet-stream'
+  let response = responseRes.data
+
+  // Token rejected by server (e.g., revoked before expiry) - refresh and replay once
+  if (requiresAuth && shouldRecoverUnauthorized(response.status, fetchOptions.method, options)) {
+    const tokenRes = await recoverToken(token)
+    if (tokenRes.ok && tokenRes.data) {
+      // Discard rejected response body before replaying
+      await response.body?.cancel().catch(() => {})
+
+      const replayRes = await sendRequest(url, {
+        ...fetchOptions,
+        headers: { ...headers, Authorization: `Bearer ${tokenRes.data}` }
+      }, onUploadProgress)
+      if (!replayRes.ok) {
+        return err(replayRes.errors)
+      }
+      response = replayRes.data
+    }
+    // Refresh failed - fall through and return original 401/419 response
+  }
 
-  // Determine if response is binary
-  const isBinary = isBinaryContentType(contentType)
+  return ok(response)
+}
 
-  // Get body as text or base64
-  let body: string
-  try {
-    if (isBinary) {
-      const buffer = await response.arrayBuffer()
-      body = arrayBufferToBase64(buffer)
-    } else {
-      body = await response.text()
+/**
+ * Make API request and read response into FetchEnvelope
+ * Goes through the response cache when enabled
+ */
+async function makeApiRequest(
+  url: string,
+  options: FetchGuardRequestInit = {},
+  progress: RequestProgress = {}
+): Promise<Result<FetchEnvelope<EnvelopeBody>>> {
+  if (responseCache) {
+    return makeCachedApiRequest(responseCache, url, options, progress)
+  }
+
+  const responseRes = await sendApiRequest(url, options, progress.onUploadProgress)
+  if (!responseRes.ok) {
+    return err(responseRes.errors)
+  }
+  return readEnvelope(responseRes.data, options, progress.onDownloadProgress)
+}
+
+/**
+ * Cached variant of makeApiRequest (RFC 9111 subset, see utils/cache)
+ *
+ * - Fresh entry: served without a request
+ * - Stale entry with validators: revalidated, 304 serves the stored body
+ * - Successful unsafe method: drops entries for the URL
+ */
+async function makeCachedApiRequest(
+  cache: ResponseCache,
+  url: string,
+  options: FetchGuardRequestInit,
+  progress: RequestProgress
+): Promise<Result<FetchEnvelope<EnvelopeBody>>> {
+  const requestHeaders = new Headers({
+    ...(config?.defaultHeaders || {}),
+    ...(options.headers as Record<string, string> || {})
+  })
+
+  if (!isCacheableRequest(options.method, requestHeaders, options.cache)) {
+    const responseRes = await sendApiRequest(url, options, progress.onUploadProgress)
+    if (!responseRes.ok) {
+      return err(responseRes.errors)
     }
-  } catch (e) {
-    // Reading/parsing response body failed
-    return err(RequestErrors.ResponseParseFailed({ message: String(e) }))
+    if (invalidatesCache(options.method, responseRes.data.status)) {
+      cache.invalidate(url)
+    }
+    return readEnvelope(responseRes.data, options, progress.onDownloadProgress)
   }
 
-  // Extract headers if requested
-  const responseHeaders: Record<string, string> = {}
-  if (includeHeaders) {
-    response.headers.forEach((value, key) => {
-      responseHeaders[key] = value
-    })
+  const epoch = cacheEpoch
+  const key = getCacheKey(options.requiresAuth === false ? 'public' : `auth:${epoch}`, 'GET', url)
+  const cached = options.cache === 'reload' ? undefined : cache.get(key, requestHeaders)
+
+  if (cached && (options.cache === 'force-cache' || (isFresh(cached) && !requiresRevalidation(requestHeaders, options.cache)))) {
+    return readEnvelope(toResponse(cached), options, progress.onDownloadProgress)
+  }
+
+  // Caller's own conditional headers win - their 304 is returned as-is
+  const conditional = cached && !hasConditionalHeaders(requestHeaders) ? getConditionalHeaders(cached) : {}
+  const responseRes = await sendApiRequest(url, {
+    ...options,
+    headers: { ...(options.headers as Record<string, string> || {}), ...conditional }
+  }, progress.onUploadProgress)
+  if (!responseRes.ok) {
+    return err(responseRes.errors)
   }
 
-  const responseData = { body, status: response.status, contentType, headers: responseHeaders }
-  return ok(responseData)
+  const response = responseRes.data
+  const defaultMaxAge = config?.cache?.defaultMaxAge ?? 0
+  // Identity changed while in flight - response belongs to the previous user
+  const canStore = epoch === cacheEpoch
+
+  if (response.status === 304 && cached && Object.keys(conditional).length > 0) {
+    const refreshed = refreshCacheEntry(cached, response.headers, defaultMaxAge)
+    if (canStore) {
+      cache.set(key, refreshed)
+    }
+    return readEnvelope(toResponse(refreshed), options, progress.onDownloadProgress)
+  }
+
+  const entry = canStore ? createCacheEntry(url, response.status, response.headers, requestHeaders, defaultMaxAge) : null
+  if (!entry) {
+    return readEnvelope(response, options, progress.onDownloadProgress)
+  }
+
+  const [envelope, body] = await Promise.all([
+    readEnvelope(response.clone(), options, progress.onDownloadProgress),
+    response.arrayBuffer().catch(() => null)
+  ])
+  if (envelope.ok && body && epoch === cacheEpoch) {
+    cache.set(key, { ...entry, body })
+  }
+  return envelope
+}
+
+/**
+ * Auth methods that always change the signed-in identity
+ */
+const IDENTITY_METHODS = new Set(['login', 'logout', 'exchangeToken'])
+
+/**
+ * Drop cached responses and queued mutations when the signed-in identity changes
+ * (login, logout, exchangeToken, custom sign-in, session end) so they never reach the next user
+ */
+function onIdentityChanged() {
+  cacheEpoch++
+  responseCache?.clear()
+  void offlineQueue?.resetIdentity()
+}
+
+/**
+ * Replay one queued mutation (offline queue sender)
+ *
+ * Goes through sendApiRequest, so the token is validated (and refreshed) now,
+ * not taken from when the request was queued. Network and refresh failures
+ * keep the request queued; the body of the replayed response is discarded.
+ */
+async function replayQueuedRequest(request: QueuedRequest): Promise<ReplayOutcome> {
+  const responseRes = await sendApiRequest(request.url, request.options)
+  if (!responseRes.ok) {
+    const detail = responseRes.errors[0]
+    const error = detail?.message || 'Unknown error'
+    const transient = detail?.code === ERROR_CODES.NETWORK_ERROR
+      || detail?.code === ERROR_CODES.REQUEST_TIMEOUT
+      || detail?.code === ERROR_CODES.TOKEN_REFRESH_FAILED
+    return transient ? { type: 'offline', error } : { type: 'rejected', error }
+  }
+
+  const response = responseRes.data
+  await response.body?.cancel().catch(() => {})
+  if (invalidatesCache(request.options.method, response.status)) {
+    responseCache?.invalidate(request.url)
+  }
+  return { type: 'response', status: response.status }
+}
+
+/**
+ * Store mutation in the offline queue and reply FETCH_QUEUED
+ * Returns false if it could not be queued (queue full, body not storable)
+ */
+async function queueRequest(port: WorkerPort, id: string, url: string, options: FetchGuardRequestInit): Promise<boolean> {
+  const queueId = await offlineQueue?.enqueue(url, options)
+  if (!queueId) return false
+  sendFetchQueued(port, id, queueId)
+  return true
+}
+
+/**
+ * Check if a failed SSE connect attempt is worth retrying
+ * Network failures and transient refresh failures (session kept) reconnect;
+ * ended sessions, domain and init errors close the stream.
+ */
+function isRetryableSseFailure(code: string | undefined): boolean {
+  if (code === ERROR_CODES.NETWORK_ERROR || code === ERROR_CODES.REQUEST_TIMEOUT) {
+    return true
+  }
+  return code === ERROR_CODES.TOKEN_REFRESH_FAILED && !!accessToken
+}
+
+/**
+ * Run event source: connect, parse SSE, reconnect until closed
+ *
+ * Each connect goes through sendApiRequest, so a token that expired while
+ * the stream was open is refreshed before reconnecting (and a 401 is replayed once).
+ */
+async function runEventSource(port: WorkerPort, id: string, url: string, options: EventSourceRequest, signal: AbortSignal): Promise<void> {
+  let reconnectDelay = options.reconnectDelay ?? DEFAULT_SSE_RECONNECT_MS
+  const parser = createSseParser({
+    onEvent: (event) => sendSseEvent(port, id, event),
+    onRetry: (ms) => { reconnectDelay = ms }
+  }, options.lastEventId)
+
+  while (!signal.aborted) {
+    // Previous connection may have been cut mid-event
+    parser.reset()
+    const headers: Record<string, string> = {
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...(options.headers || {})
+    }
+    if (parser.lastEventId) {
+      headers['Last-Event-ID'] = parser.lastEventId
+    }
+
+    const responseRes = await sendApiRequest(url, {
+      method: 'GET',
+      headers,
+      requiresAuth: options.requiresAuth,
+      retryOnUnauthorized: true,
+      signal
+    })
+    if (signal.aborted) break
+
+    let error: SseError
+    if (!responseRes.ok) {
+      const detail = responseRes.errors[0]
+      if (!isRetryableSseFailure(detail?.code)) {
+        sendSseError(port, id, { message: detail?.message || 'Connection failed' })
+        break
+      }
+      error = { message: detail?.message || 'Connection failed' }
+    } else {
+      const response = responseRes.data
+      const contentType = response.headers.get('content-type') || ''
+
+      // Per spec: non-200 or wrong content type fails the connection (204 = server asks to stop)
+      if (response.status !== 200 || !contentType.toLowerCase().startsWith('text/event-stream')) {
+        await response.body?.cancel().catch(() => {})
+        const message = response.status === 200
+          ? `Unexpected content type: ${contentType || 'none'}`
+          : `HTTP ${response.status}`
+        sendSseError(port, id, { message, status: response.status })
+        break
+      }
+
+      sendSseOpen(port, id, response.status)
+
+      try {
+        const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader()
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          parser.feed(chunk.value)
+        }
+        error = { message: 'Stream ended' }
+      } catch (e) {
+        if (signal.aborted) break
+        error = { message: String(e) }
+      }
+    }
+
+    sendSseError(port, id, { ...error, reconnectIn: reconnectDelay })
+    await sleep(reconnectDelay, signal)
+  }
 }
 
 /**
@@ -286,7 +790,12 @@ async function makeApiRequest(url: string, options: FetchGuardRequestInit = {}):
 function setTokenState(tokenInfo: { token?: string | null; expiresAt?: number | null; user?: unknown; refreshToken?: string | null }, emitEvent: boolean = true) {
   // Apply smart preservation to ALL fields
   if ('token' in tokenInfo) {
+    // Nobody was signed in (e.g. refresh failed on a cold start) - nothing to drop
+    const hadIdentity = accessToken !== null || (currentUser !== undefined && currentUser !== null)
     accessToken = tokenInfo.token ?? null
+    if (!accessToken && hadIdentity) {
+      onIdentityChanged()
+    }
   }
 
   if ('expiresAt' in tokenInfo) {
@@ -304,31 +813,127 @@ function setTokenState(tokenInfo: { token?: string | null; expiresAt?: number |
   if (emitEvent) {
     postAuthChanged()
   }
+
+  scheduleBackgroundRefresh()
 }
 
 /**
- * Emit AUTH_STATE_CHANGED event based on current state
- * authenticated = true if we have valid non-expired token
+ * Build AuthResult from current state
+ * authenticated = true if we have valid non-expired token (server clock)
+ * expiresAt is converted to the main thread's local clock
  */
-function postAuthChanged() {
-  const now = Date.now()
-  const authenticated = accessToken !== null && accessToken !== '' && (expiresAt === null || expiresAt > now)
-  sendAuthStateChanged({
+function getAuthResult(): AuthResult {
+  const authenticated = accessToken !== null && accessToken !== '' && (expiresAt === null || expiresAt > serverNow())
+  return {
     authenticated,
-    expiresAt,
+    expiresAt: expiresAt === null ? null : toLocalTime(expiresAt),
     user: currentUser
-  })
+  }
+}
+
+/**
+ * Emit AUTH_STATE_CHANGED event based on current state
+ *
+ * @param port - Only notify this port (default: broadcast to all ports)
+ */
+function postAuthChanged(port?: WorkerPort) {
+  sendAuthStateChanged(getAuthResult(), port)
+}
+
+/**
+ * Handle message from another tab's worker (cross-tab sync)
+ */
+function handleCrossTabMessage(message: CrossTabMessage) {
+  switch (message.type) {
+    case 'refreshed':
+      // Our in-memory refresh token was rotated by another tab.
+      // Null makes provider reload it from storage on next refresh.
+      refreshToken = null
+      break
+
+    case 'logout':
+      setTokenState({ token: null, expiresAt: null, user: null, refreshToken: undefined })
+      // Same next identity as the signing-out tab, so the tabs keep sharing queued requests
+      if (message.queueIdentity) {
+        void offlineQueue?.resetIdentity(message.queueIdentity)
+      }
+      sendCrossTabLogout()
+      break
+  }
+}
+
+/**
+ * Get pending request controllers for a port
+ */
+function controllersFor(port: WorkerPort): Map<string, AbortController> {
+  let controllers = pendingControllers.get(port)
+  if (!controllers) {
+    controllers = new Map()
+    pendingControllers.set(port, controllers)
+  }
+  return controllers
+}
+
+/**
+ * Forget a tab (closed or client destroyed): abort its in-flight requests, stop broadcasting to it
+ */
+function releasePort(port: WorkerPort) {
+  const controllers = pendingControllers.get(port)
+  if (controllers) {
+    for (const controller of controllers.values()) {
+      controller.abort()
+    }
+    pendingControllers.delete(port)
+  }
+  disconnectPort(port)
+  hiddenPorts.delete(port)
+  scheduleBackgroundRefresh()
+}
+
+/**
+ * Abort controller once the client's deadline passes
+ * Enforced here too so the fetch stops even if the main thread is busy or gone.
+ * Returns disarm function: clears the timer, true if the deadline already fired
+ */
+function armDeadline(controller: AbortController, deadline?: number): () => boolean {
+  if (deadline === undefined) return () => false
+
+  let expired = false
+  const timer = setTimeout(() => {
+    expired = true
+    controller.abort()
+  }, Math.max(0, deadline - Date.now()))
+
+  return () => {
+    clearTimeout(timer)
+    return expired
+  }
 }
 
 /**
  * Main message handler
  * Each case has its own try-catch for better error isolation
+ *
+ * @param port - Port that sent the message (replies go back to it)
  */
-self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
-  const data = event.data
+async function handleMessage(data: MainToWorkerMessage, port: WorkerPort) {
   switch (data.type) {
     case MSG.SETUP: {
       try {
+        // Shared mode: another tab already initialized this worker - reuse its state
+        if (config && provider) {
+          // E.g. a tab from another deploy - it would silently run with our config
+          if (JSON.stringify(data.payload) !== activeSetup) {
+            sendSetupError(port, 'Shared worker is already set up with a different config')
+            break
+          }
+          sendReady(port)
+          if (accessToken) {
+            postAuthChanged(port)
+          }
+          break
+        }
+
         const payload = data.payload
         config = payload.config
 
@@ -342,53 +947,189 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
           // ProviderPresetConfig object - pass defaultHeaders for auth requests
           provider = buildProviderFromPreset(providerConfig as ProviderPresetConfig, config.defaultHeaders)
         } else {
-          sendSetupError('Invalid provider config')
+          sendSetupError(port, 'Invalid provider config')
           break
         }
 
         // Validate provider was successfully created
         if (!provider) {
-          sendSetupError('Provider initialization failed - provider is null')
+          sendSetupError(port, 'Provider initialization failed - provider is null')
           break
         }
 
-        sendReady()
+        if (config.cache && config.cache.enabled !== false) {
+          responseCache = createResponseCache(config.cache.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES)
+        }
+
+        // Needs IndexedDB - without it mutations fail normally while offline
+        if (config.offlineQueue && config.offlineQueue.enabled !== false && typeof indexedDB !== 'undefined') {
+          const dbName = config.offlineQueue.dbName ?? DEFAULT_OFFLINE_QUEUE_DB
+          offlineQueue = createOfflineQueue({
+            store: createIndexedDBQueueStore(dbName),
+            send: replayQueuedRequest,
+            onEvent: sendOfflineQueueEvent,
+            maxItems: config.offlineQueue.maxItems ?? DEFAULT_OFFLINE_QUEUE_MAX_ITEMS,
+            retryDelay: config.offlineQueue.retryDelay ?? DEFAULT_OFFLINE_QUEUE_RETRY_MS,
+            // Tabs with their own dedicated worker share the database
+            lockName: `fetchguard:offline:${dbName}`
+          })
+          // Requests left from a previous session
+          if (navigator.onLine) {
+            void offlineQueue.replay()
+          }
+        }
+
+        refreshPolicy = resolveRefreshRetry(
+          typeof providerConfig === 'string' ? undefined : providerConfig.refreshRetry
+        )
+
+        if (config.crossTabSync) {
+          // Lock and channel are scoped per provider
+          const providerKey = typeof providerConfig === 'string'
+            ? providerConfig
+            : getPresetKey(providerConfig)
+          crossTab = createCrossTabSync(providerKey, handleCrossTabMessage)
+        }
+
+        activeSetup = JSON.stringify(payload)
+        sendReady(port)
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error)
         console.error('[FetchGuard Worker] Setup failed:', errorMessage)
-        sendSetupError(errorMessage)
+        sendSetupError(port, errorMessage)
       }
       break
     }
 
     case MSG.FETCH: {
       const { id } = data
+      const controllers = controllersFor(port)
+      markActivity()
+      let disarm = () => false
       try {
-        const { url, options } = data.payload
+        const { url, options, reportUploadProgress, reportDownloadProgress, deadline } = data.payload
         const controller = new AbortController()
-        pendingControllers.set(id, controller)
-        const merged: RequestInit = { ...(options || {}), signal: controller.signal }
-        const result = await makeApiRequest(url, merged)
+        controllers.set(id, controller)
+        const merged: FetchGuardRequestInit = { ...(options || {}), signal: controller.signal }
+
+        // Offline, or earlier mutations still waiting - queue behind them to keep order
+        const queueable = offlineQueue !== null && isQueueableRequest(merged)
+        if (queueable && (!navigator.onLine || offlineQueue!.pending > 0)) {
+          if (await queueRequest(port, id, url, options || {})) {
+            controllers.delete(id)
+            if (navigator.onLine) {
+              void offlineQueue!.replay()
+            }
+            break
+          }
+        }
+
+        disarm = armDeadline(controller, deadline)
+        const result = await makeApiRequest(url, merged, {
+          onUploadProgress: reportUploadProgress
+            ? (progress) => sendProgress(port, id, { direction: 'upload', ...progress })
+            : undefined,
+          onDownloadProgress: reportDownloadProgress
+            ? (progress) => sendProgress(port, id, { direction: 'download', ...progress })
+            : undefined
+        })
+        const timedOut = disarm()
 
         if (result.ok) {
-          sendFetchResult(id, result.data)
+          sendFetchResult(port, id, result.data)
+        } else if (timedOut) {
+          sendFetchError(port, id, 'Request timed out', undefined, true)
         } else {
-          // Network/timeout/cancel error
+          // Network/cancel error
           const error = result.errors[0]
           const message = error?.message || 'Unknown error'
-          sendFetchError(id, message, undefined)
+          const queued = queueable && error?.code === ERROR_CODES.NETWORK_ERROR && !controller.signal.aborted
+            && await queueRequest(port, id, url, options || {})
+          if (!queued) {
+            sendFetchError(port, id, message, undefined)
+          }
+        }
+
+        controllers.delete(id)
+      } catch (error) {
+        disarm()
+        controllers.delete(id)
+        sendFetchError(port, id, error instanceof Error ? error.message : String(error), undefined)
+      }
+      break
+    }
+
+    case MSG.FETCH_STREAM: {
+      const { id } = data
+      const { url, options, port: streamPort, deadline } = data.payload
+      const controllers = controllersFor(port)
+      markActivity()
+      let disarm = () => false
+      try {
+        const controller = new AbortController()
+        controllers.set(id, controller)
+        const merged: RequestInit = { ...(options || {}), signal: controller.signal }
+        // Deadline covers headers only - the body is read at the consumer's pace
+        disarm = armDeadline(controller, deadline)
+        const result = await sendApiRequest(url, merged)
+        const timedOut = disarm()
+
+        if (!result.ok) {
+          controllers.delete(id)
+          streamPort.close()
+          if (timedOut) {
+            sendFetchError(port, id, 'Request timed out', undefined, true)
+          } else {
+            sendFetchError(port, id, result.errors[0]?.message || 'Unknown error', undefined)
+          }
+          break
+        }
+
+        const response = result.data
+        sendStreamStart(port, id, {
+          status: response.status,
+          contentType: response.headers.get('content-type') || 'application/octet-stream',
+          headers: readHeaders(response, options?.includeHeaders === true)
+        })
+
+        if (!response.body) {
+          controllers.delete(id)
+          streamPort.postMessage({ type: 'end' })
+          streamPort.close()
+          break
         }
 
-        pendingControllers.delete(id)
+        // Controller stays registered until the body is drained so CANCEL can abort it
+        pipeToPort(response.body, streamPort, () => controllers.delete(id), controller.signal)
+      } catch (error) {
+        disarm()
+        controllers.delete(id)
+        streamPort.close()
+        sendFetchError(port, id, error instanceof Error ? error.message : String(error), undefined)
+      }
+      break
+    }
+
+    case MSG.EVENT_SOURCE: {
+      const { id } = data
+      const { url, options } = data.payload
+      const controllers = controllersFor(port)
+      markActivity()
+      const controller = new AbortController()
+      controllers.set(id, controller)
+      try {
+        await runEventSource(port, id, url, options || {}, controller.signal)
       } catch (error) {
-        pendingControllers.delete(id)
-        sendFetchError(id, error instanceof Error ? error.message : String(error), undefined)
+        sendSseError(port, id, { message: error instanceof Error ? error.message : String(error) })
+      } finally {
+        controllers.delete(id)
       }
       break
     }
 
     case MSG.AUTH_CALL: {
       const { id, payload } = data
+      markActivity()
       // Use mutex to prevent concurrent auth operations (login, logout, etc.)
       await withAuthMutex(async () => {
         try {
@@ -396,12 +1137,12 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
           const shouldEmitEvent = emitEvent ?? true // Default: emit event
 
           if (!provider) {
-            sendError(id, err(InitErrors.NotInitialized()))
+            sendError(port, id, err(InitErrors.NotInitialized()))
             return
           }
 
           if (typeof provider[method] !== 'function') {
-            sendError(id, err(GeneralErrors.Unexpected({ message: `Method '${method}' not found on provider` })))
+            sendError(port, id, err(GeneralErrors.Unexpected({ message: `Method '${method}' not found on provider` })))
             return
           }
 
@@ -413,31 +1154,37 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
 
           const result = await provider[method](...methodArgs)
           if (!result.ok) {
-            sendError(id, result)
+            sendError(port, id, result)
             return
           }
 
           const tokenInfo = result.data
           if (!tokenInfo) {
-            sendError(id, err(GeneralErrors.Unexpected({ message: 'Provider returned null token info' })))
+            sendError(port, id, err(GeneralErrors.Unexpected({ message: 'Provider returned null token info' })))
             return
           }
 
+          // Sign-in/out or a custom sign-in (new token). Custom calls that only update
+          // the user or validate something (verify OTP) keep cache and queued requests.
+          if (IDENTITY_METHODS.has(method) || ('token' in tokenInfo && tokenInfo.token !== accessToken)) {
+            onIdentityChanged()
+          }
+
           // Update token state and optionally emit event
           setTokenState(tokenInfo, shouldEmitEvent)
 
+          // Sign out other tabs too
+          if (method === 'logout') {
+            crossTab?.notify({ type: 'logout', queueIdentity: offlineQueue?.identity })
+          }
+
           // Always send AuthResult back
-          const now = Date.now()
-          const authenticated =
-            accessToken !== null && accessToken !== '' && (expiresAt === null || expiresAt > now)
-
-          sendAuthCallResult(id, {
-            authenticated,
-            expiresAt,
-            user: currentUser
+          sendAuthCallResult(port, id, {
+            ...getAuthResult(),
+            ...(tokenInfo.redirectUrl ? { redirectUrl: tokenInfo.redirectUrl } : {})
           })
         } catch (error) {
-          sendError(id, err(GeneralErrors.Unexpected({ message: error instanceof Error ? error.message : String(error) })))
+          sendError(port, id, err(GeneralErrors.Unexpected({ message: error instanceof Error ? error.message : String(error) })))
         }
       })
       break
@@ -446,10 +1193,11 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
     case MSG.CANCEL: {
       try {
         const { id } = data
-        const controller = pendingControllers.get(id)
+        const controllers = controllersFor(port)
+        const controller = controllers.get(id)
         if (controller) {
           controller.abort()
-          pendingControllers.delete(id)
+          controllers.delete(id)
         }
       } catch (error) {
         // Silently ignore cancel errors
@@ -457,22 +1205,63 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
       break
     }
 
+    case MSG.DISCONNECT: {
+      releasePort(port)
+      break
+    }
+
+    case MSG.VISIBILITY: {
+      hiddenPorts.set(port, data.payload.hidden)
+      // Pauses when all tabs are hidden, resumes (refreshing if due) when one is visible
+      scheduleBackgroundRefresh()
+      break
+    }
+
     case MSG.PING: {
       const { id } = data
       try {
         const ts = data.payload?.timestamp ?? Date.now()
-        sendPong(id, ts)
+        sendPong(port, id, ts)
       } catch (error) {
-        sendError(id, err(GeneralErrors.Unexpected({ message: error instanceof Error ? error.message : String(error) })))
+        sendError(port, id, err(GeneralErrors.Unexpected({ message: error instanceof Error ? error.message : String(error) })))
       }
       break
     }
 
     default: {
       const anyData: any = data
-      sendError(anyData.id, err(GeneralErrors.UnknownMessage({ message: `Unknown message type: ${String(anyData.type)}` })))
+      sendError(port, anyData.id, err(GeneralErrors.UnknownMessage({ message: `Unknown message type: ${String(anyData.type)}` })))
     }
   }
 }
 
+// Report server clock offset changes (debug.onClockSkew)
+setClockSkewListener(sendClockSkew)
+
+// Connectivity is back - replay queued mutations
+self.addEventListener('online', () => {
+  void offlineQueue?.replay()
+})
+
+/**
+ * Entry point
+ * - Dedicated worker: the global scope is the only port
+ * - Shared worker: each tab connects with its own MessagePort,
+ *   all tabs share the same token state in this closure
+ */
+if (typeof SharedWorkerGlobalScope !== 'undefined' && self instanceof SharedWorkerGlobalScope) {
+  self.onconnect = (event: MessageEvent) => {
+    const port = event.ports[0]
+    connectPort(port)
+    port.onmessage = (e: MessageEvent<MainToWorkerMessage>) => handleMessage(e.data, port)
+    // Tab closed without destroy() - MessagePort close event where supported (client also sends DISCONNECT on pagehide)
+    port.addEventListener('close', () => releasePort(port))
+    port.start()
+  }
+} else {
+  const port = self as unknown as WorkerPort
+  connectPort(port)
+  self.onmessage = (event: MessageEvent<MainToWorkerMessage>) => handleMessage(event.data, port)
+}
+
 })() // End IIFE - Immediately Invoked Function Expression
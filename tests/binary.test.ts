@@ -8,6 +8,8 @@ import { describe, it, expect } from 'vitest'
 import {
   arrayBufferToBase64,
   base64ToArrayBuffer,
+  base64UrlEncode,
+  base64UrlDecode,
   isBinaryContentType
 } from '../src/utils/binary'
 
@@ -23,6 +25,14 @@ describe('Binary Utilities', () => {
       expect(base64).toBe(btoa(text))
     })
 
+    it('should round-trip buffers larger than one encoding chunk', () => {
+      const bytes = new Uint8Array(100_000).map((_, i) => (i * 31) % 256)
+
+      const decoded = new Uint8Array(base64ToArrayBuffer(arrayBufferToBase64(bytes.buffer)))
+
+      expect(decoded).toEqual(bytes)
+    })
+
     it('should handle empty ArrayBuffer', () => {
       const buffer = new ArrayBuffer(0)
 
@@ -189,4 +199,22 @@ describe('Binary Utilities', () => {
       })
     })
   })
+
+  describe('base64UrlEncode / base64UrlDecode', () => {
+    it('should use URL-safe alphabet without padding', () => {
+      const bytes = new Uint8Array([251, 255, 191])
+      expect(base64UrlEncode(bytes)).toBe('-_-_')
+      expect(base64UrlEncode(new Uint8Array([1]))).toBe('AQ')
+    })
+
+    it('should round-trip bytes', () => {
+      const bytes = new Uint8Array([0, 1, 2, 250, 251, 252, 253, 254, 255])
+      expect(Array.from(base64UrlDecode(base64UrlEncode(bytes)))).toEqual(Array.from(bytes))
+    })
+
+    it('should decode with or without padding', () => {
+      expect(Array.from(base64UrlDecode('AQ'))).toEqual([1])
+      expect(Array.from(base64UrlDecode('AQ=='))).toEqual([1])
+    })
+  })
 })
@@ -0,0 +1,168 @@
+/**
+ * Response cache tests
+ *
+ * Tests Cache-Control parsing, freshness, Vary matching, revalidation
+ * helpers and LRU eviction used by the worker cache.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseCacheControl,
+  getCacheKey,
+  isCacheableRequest,
+  requiresRevalidation,
+  invalidatesCache,
+  createCacheEntry,
+  refreshCacheEntry,
+  isFresh,
+  hasConditionalHeaders,
+  getConditionalHeaders,
+  toResponse,
+  createResponseCache,
+  type CachedResponse
+} from '../src/utils/cache'
+
+const NOW = Date.parse('2026-03-01T12:00:00Z')
+
+function entryFor(headers: Record<string, string>, requestHeaders: Record<string, string> = {}, status = 200): CachedResponse | null {
+  const entry = createCacheEntry('https://api.example.com/users', status, new Headers(headers), new Headers(requestHeaders), 0, NOW)
+  return entry && { ...entry, body: new TextEncoder().encode('[1,2]').buffer as ArrayBuffer }
+}
+
+describe('parseCacheControl', () => {
+  it('should parse directives case-insensitively', () => {
+    expect(parseCacheControl('Max-Age=60, no-cache')).toEqual({ noStore: false, noCache: true, maxAge: 60 })
+    expect(parseCacheControl('private, no-store')).toEqual({ noStore: true, noCache: false })
+    expect(parseCacheControl('max-age="30"').maxAge).toBe(30)
+  })
+
+  it('should ignore invalid max-age', () => {
+    expect(parseCacheControl('max-age=abc').maxAge).toBeUndefined()
+    expect(parseCacheControl(null)).toEqual({ noStore: false, noCache: false })
+  })
+})
+
+describe('request rules', () => {
+  it('should only cache GET without no-store', () => {
+    expect(isCacheableRequest(undefined, new Headers())).toBe(true)
+    expect(isCacheableRequest('post', new Headers())).toBe(false)
+    expect(isCacheableRequest('GET', new Headers(), 'no-store')).toBe(false)
+    expect(isCacheableRequest('GET', new Headers({ 'Cache-Control': 'no-store' }))).toBe(false)
+  })
+
+  it('should force revalidation for no-cache, reload and max-age=0', () => {
+    expect(requiresRevalidation(new Headers())).toBe(false)
+    expect(requiresRevalidation(new Headers(), 'no-cache')).toBe(true)
+    expect(requiresRevalidation(new Headers(), 'reload')).toBe(true)
+    expect(requiresRevalidation(new Headers({ 'Cache-Control': 'max-age=0' }))).toBe(true)
+  })
+
+  it('should invalidate on successful unsafe methods', () => {
+    expect(invalidatesCache('POST', 201)).toBe(true)
+    expect(invalidatesCache('DELETE', 204)).toBe(true)
+    expect(invalidatesCache('POST', 500)).toBe(false)
+    expect(invalidatesCache('GET', 200)).toBe(false)
+  })
+
+  it('should include scope in key', () => {
+    expect(getCacheKey('auth:1', 'get', '/a')).not.toBe(getCacheKey('auth:2', 'get', '/a'))
+  })
+})
+
+describe('createCacheEntry', () => {
+  it('should use max-age minus Age', () => {
+    const entry = entryFor({ 'Cache-Control': 'max-age=60', Age: '10' })!
+    expect(entry.lifetime).toBe(60_000)
+    expect(isFresh(entry, NOW + 49_000)).toBe(true)
+    expect(isFresh(entry, NOW + 50_000)).toBe(false)
+  })
+
+  it('should fall back to Expires relative to Date', () => {
+    const entry = entryFor({
+      Date: new Date(NOW).toUTCString(),
+      Expires: new Date(NOW + 30_000).toUTCString()
+    })!
+    expect(entry.lifetime).toBe(30_000)
+  })
+
+  it('should not store no-store, Vary: * or uncacheable statuses', () => {
+    expect(entryFor({ 'Cache-Control': 'no-store, max-age=60' })).toBeNull()
+    expect(entryFor({ 'Cache-Control': 'max-age=60', Vary: '*' })).toBeNull()
+    expect(entryFor({ 'Cache-Control': 'max-age=60' }, {}, 500)).toBeNull()
+  })
+
+  it('should store stale responses only when they have validators', () => {
+    expect(entryFor({})).toBeNull()
+    const entry = entryFor({ 'Cache-Control': 'no-cache', ETag: '"v1"' })!
+    expect(entry.lifetime).toBe(0)
+    expect(isFresh(entry, NOW)).toBe(false)
+  })
+})
+
+describe('revalidation', () => {
+  it('should build conditional headers from validators', () => {
+    const entry = entryFor({ ETag: '"v1"', 'Last-Modified': 'Sun, 01 Mar 2026 10:00:00 GMT' })!
+    expect(getConditionalHeaders(entry)).toEqual({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Sun, 01 Mar 2026 10:00:00 GMT'
+    })
+    expect(hasConditionalHeaders(new Headers({ 'If-None-Match': '"x"' }))).toBe(true)
+  })
+
+  it('should refresh headers and freshness on 304', () => {
+    const entry = entryFor({ ETag: '"v1"', 'Content-Type': 'application/json', 'Content-Length': '5' })!
+    const refreshed = refreshCacheEntry(entry, new Headers({ 'Cache-Control': 'max-age=120', 'Content-Length': '0' }), 0, NOW + 1000)
+
+    expect(refreshed.lifetime).toBe(120_000)
+    expect(refreshed.storedAt).toBe(NOW + 1000)
+    expect(new Headers(refreshed.headers).get('content-length')).toBe('5')
+    expect(refreshed.body).toBe(entry.body)
+  })
+
+  it('should rebuild a readable Response each time', async () => {
+    const entry = entryFor({ 'Cache-Control': 'max-age=60', 'Content-Type': 'application/json' })!
+    expect(await toResponse(entry).text()).toBe('[1,2]')
+    const response = toResponse(entry)
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('application/json')
+    expect(await response.json()).toEqual([1, 2])
+  })
+})
+
+describe('createResponseCache', () => {
+  it('should match Vary request headers (Authorization ignored)', () => {
+    const cache = createResponseCache(10)
+    const entry = entryFor({ 'Cache-Control': 'max-age=60', Vary: 'Accept-Language, Authorization' }, { 'Accept-Language': 'en' })!
+    cache.set('k', entry)
+
+    expect(cache.get('k', new Headers({ 'Accept-Language': 'en', Authorization: 'Bearer other' }))).toBe(entry)
+    expect(cache.get('k', new Headers({ 'Accept-Language': 'de' }))).toBeUndefined()
+    expect(cache.get('k', new Headers())).toBeUndefined()
+  })
+
+  it('should evict least recently used entries', () => {
+    const cache = createResponseCache(2)
+    const entry = entryFor({ 'Cache-Control': 'max-age=60' })!
+    cache.set('a', entry)
+    cache.set('b', entry)
+    cache.get('a', new Headers())
+    cache.set('c', entry)
+
+    expect(cache.size).toBe(2)
+    expect(cache.get('b', new Headers())).toBeUndefined()
+    expect(cache.get('a', new Headers())).toBe(entry)
+  })
+
+  it('should invalidate by URL and clear', () => {
+    const cache = createResponseCache(10)
+    const entry = entryFor({ 'Cache-Control': 'max-age=60' })!
+    cache.set('auth:0 GET x', entry)
+    cache.set('public GET x', entry)
+    cache.invalidate('https://api.example.com/users')
+    expect(cache.size).toBe(0)
+
+    cache.set('a', entry)
+    cache.clear()
+    expect(cache.size).toBe(0)
+  })
+})
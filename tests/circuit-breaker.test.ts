@@ -0,0 +1,111 @@
+/**
+ * Circuit breaker tests
+ *
+ * Tests failure-rate tripping, the rolling window, fail-fast while open
+ * and single-probe half-open transitions used by FetchGuardClient.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createCircuitBreaker, type CircuitOutcome } from '../src/utils/circuit-breaker'
+import type { CircuitState } from '../src/types'
+
+const ORIGIN = 'https://api.example.com'
+
+function setup() {
+  const changes: [string, CircuitState, CircuitState][] = []
+  const breaker = createCircuitBreaker({
+    failureThreshold: 0.5,
+    minimumRequests: 4,
+    windowMs: 10_000,
+    openDuration: 5_000,
+    onStateChange: (key, state, previous) => changes.push([key, state, previous])
+  })
+
+  const run = (outcomes: CircuitOutcome[], now = 0) => {
+    for (const outcome of outcomes) {
+      const permit = breaker.acquire(ORIGIN, now)
+      if (permit.allowed) breaker.record(ORIGIN, outcome, permit.probe, now)
+    }
+  }
+
+  return { breaker, changes, run }
+}
+
+describe('createCircuitBreaker', () => {
+  it('should open once the failure rate reaches the threshold', () => {
+    const { breaker, changes, run } = setup()
+
+    run(['failure', 'failure', 'success'])
+    expect(breaker.getState(ORIGIN)).toBe('closed')
+
+    run(['success'])
+    expect(breaker.getState(ORIGIN)).toBe('open')
+    expect(changes).toEqual([[ORIGIN, 'open', 'closed']])
+  })
+
+  it('should stay closed below the threshold and ignore cancelled requests', () => {
+    const { breaker, run } = setup()
+    run(['failure', 'success', 'success', 'success', 'ignored', 'ignored'])
+    expect(breaker.getState(ORIGIN)).toBe('closed')
+  })
+
+  it('should forget outcomes outside the window', () => {
+    const { breaker, run } = setup()
+    run(['failure', 'failure', 'failure'], 0)
+    run(['success'], 10_000)
+    expect(breaker.getState(ORIGIN)).toBe('closed')
+  })
+
+  it('should fail fast while open', () => {
+    const { breaker, run } = setup()
+    run(['failure', 'failure', 'failure', 'failure'], 1000)
+
+    expect(breaker.acquire(ORIGIN, 2000)).toEqual({ allowed: false, retryIn: 4000 })
+    expect(breaker.acquire('https://other.example.com', 2000)).toEqual({ allowed: true, probe: false })
+  })
+
+  it('should let a single probe through when half-open', () => {
+    const { breaker, changes, run } = setup()
+    run(['failure', 'failure', 'failure', 'failure'], 0)
+
+    const probe = breaker.acquire(ORIGIN, 5000)
+    expect(probe).toEqual({ allowed: true, probe: true })
+    expect(breaker.getState(ORIGIN)).toBe('half-open')
+    expect(breaker.acquire(ORIGIN, 5000)).toEqual({ allowed: false, retryIn: 0 })
+
+    breaker.record(ORIGIN, 'success', true, 5100)
+    expect(breaker.getState(ORIGIN)).toBe('closed')
+    expect(changes.map(([, state]) => state)).toEqual(['open', 'half-open', 'closed'])
+  })
+
+  it('should re-open when the probe fails', () => {
+    const { breaker, run } = setup()
+    run(['failure', 'failure', 'failure', 'failure'], 0)
+
+    breaker.acquire(ORIGIN, 5000)
+    breaker.record(ORIGIN, 'failure', true, 6000)
+
+    expect(breaker.getState(ORIGIN)).toBe('open')
+    expect(breaker.acquire(ORIGIN, 7000)).toEqual({ allowed: false, retryIn: 4000 })
+  })
+
+  it('should allow another probe when the probe was cancelled', () => {
+    const { breaker, run } = setup()
+    run(['failure', 'failure', 'failure', 'failure'], 0)
+
+    breaker.acquire(ORIGIN, 5000)
+    breaker.record(ORIGIN, 'ignored', true, 5000)
+
+    expect(breaker.getState(ORIGIN)).toBe('half-open')
+    expect(breaker.acquire(ORIGIN, 5000)).toEqual({ allowed: true, probe: true })
+  })
+
+  it('should ignore late outcomes of requests sent before opening', () => {
+    const { breaker, run } = setup()
+    const early = breaker.acquire(ORIGIN, 0)
+    run(['failure', 'failure', 'failure', 'failure'], 0)
+
+    if (early.allowed) breaker.record(ORIGIN, 'success', early.probe, 100)
+    expect(breaker.getState(ORIGIN)).toBe('open')
+  })
+})
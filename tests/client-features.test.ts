@@ -1,14 +1,19 @@
 /**
  * Client features tests
  *
- * Tests for new client features: AbortSignal, metrics, hooks.
+ * Tests for new client features: AbortSignal, metrics, hooks, request deadlines
+ * (including rate limit waiting).
  * Note: These are unit tests, not integration tests (no actual Worker).
+ * Deadline tests drive the client against a MockWorker.
  */
 
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, afterEach } from 'vitest'
 import { ERROR_CODES } from '../src/error-codes'
 import { RequestErrors } from '../src/errors'
-import type { RequestMetrics, DebugHooks, NetworkErrorDetail, FetchEnvelope } from '../src/types'
+import { FetchGuardClient } from '../src/client'
+import { MSG } from '../src/messages'
+import { MockWorker } from './setup'
+import type { RequestMetrics, DebugHooks, NetworkErrorDetail, FetchEnvelope, RateLimitRule } from '../src/types'
 
 describe('RequestErrors.Timeout', () => {
   it('should create Timeout error with correct code', () => {
@@ -216,3 +221,109 @@ describe('Error codes for new errors', () => {
     expect(ERROR_CODES.QUEUE_FULL).toBe('QUEUE_FULL')
   })
 })
+
+describe('Request deadlines (mocked worker)', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /**
+   * Client on a MockWorker that records posted messages and never answers on its own
+   */
+  function createTestClient(options: { maxConcurrent?: number; requestTimeout?: number; rateLimit?: RateLimitRule } = {}) {
+    vi.useFakeTimers()
+    const worker = new MockWorker('worker.js')
+    const posted: Array<{ id: string; type: string; payload?: any }> = []
+    worker.setMessageHandler(message => posted.push(message as typeof posted[number]))
+
+    const client = new FetchGuardClient({ provider: 'test', workerFactory: () => worker as unknown as Worker, ...options })
+    worker.simulateMessage({ type: MSG.READY })
+
+    const ofType = (type: string) => posted.filter(message => message.type === type)
+    return { client, worker, ofType }
+  }
+
+  it('should fail with QUEUE_TIMEOUT when the request never left the queue', async () => {
+    const { client, ofType } = createTestClient({ maxConcurrent: 1 })
+
+    client.fetch('https://api.test/slow', { timeout: 10_000 })
+    const queued = client.fetch('https://api.test/queued', { timeout: 100 })
+    await vi.advanceTimersByTimeAsync(100)
+
+    const result = await queued
+    expect(!result.ok && result.errors[0].code).toBe(ERROR_CODES.QUEUE_TIMEOUT)
+    expect(ofType(MSG.FETCH).map(message => message.payload.url)).toEqual(['https://api.test/slow'])
+  })
+
+  it('should count rate limit waiting towards the deadline', async () => {
+    const { client, ofType } = createTestClient({ rateLimit: { limit: 1, interval: 1000 } })
+
+    client.fetch('https://api.test/a', { timeout: 10_000 })
+    const throttled = client.fetch('https://api.test/b', { timeout: 500 })
+    client.fetch('https://api.test/c', { timeout: 2_000 })
+    await vi.advanceTimersByTimeAsync(500)
+
+    // Bucket refills after 1s - too late for b, in time for c
+    const result = await throttled
+    expect(!result.ok && result.errors[0].code).toBe(ERROR_CODES.QUEUE_TIMEOUT)
+    await vi.advanceTimersByTimeAsync(500)
+    expect(ofType(MSG.FETCH).map(message => message.payload.url)).toEqual(['https://api.test/a', 'https://api.test/c'])
+  })
+
+  it('should fail with REQUEST_TIMEOUT, cancel in the worker and free the slot once sent', async () => {
+    const { client, ofType } = createTestClient({ maxConcurrent: 1 })
+
+    const sent = client.fetch('https://api.test/slow', { timeout: 100 })
+    client.fetch('https://api.test/next', { timeout: 10_000 })
+    await vi.advanceTimersByTimeAsync(0)
+    const [first] = ofType(MSG.FETCH)
+    expect(first.payload.deadline).toBe(Date.now() + 100)
+
+    await vi.advanceTimersByTimeAsync(100)
+
+    const result = await sent
+    expect(!result.ok && result.errors[0].code).toBe(ERROR_CODES.REQUEST_TIMEOUT)
+    expect(ofType(MSG.CANCEL)).toEqual([{ id: first.id, type: MSG.CANCEL }])
+    expect(ofType(MSG.FETCH).map(message => message.payload.url)).toEqual(['https://api.test/slow', 'https://api.test/next'])
+  })
+
+  it('should map a worker deadline abort (timedOut) to REQUEST_TIMEOUT', async () => {
+    const { client, worker, ofType } = createTestClient()
+
+    const pending = client.fetch('https://api.test/slow')
+    await vi.advanceTimersByTimeAsync(0)
+    const [sent] = ofType(MSG.FETCH)
+    worker.simulateMessage({ id: sent.id, type: MSG.FETCH_ERROR, payload: { error: 'Request timed out', timedOut: true } })
+
+    const result = await pending
+    expect(!result.ok && result.errors[0].code).toBe(ERROR_CODES.REQUEST_TIMEOUT)
+  })
+
+  it('should not send call() with an already aborted signal', async () => {
+    const { client, ofType } = createTestClient()
+    const controller = new AbortController()
+    controller.abort()
+
+    const result = await client.call('verifyOtp', { signal: controller.signal }, '123456')
+
+    expect(!result.ok && result.errors[0].code).toBe(ERROR_CODES.REQUEST_CANCELLED)
+    expect(ofType(MSG.AUTH_CALL)).toHaveLength(0)
+  })
+
+  it('should cancel call() on abort and time it out with QUEUE_TIMEOUT or REQUEST_TIMEOUT', async () => {
+    const { client, ofType } = createTestClient({ maxConcurrent: 1 })
+    const controller = new AbortController()
+
+    const aborted = client.call('verifyOtp', { signal: controller.signal }, '123456')
+    const queued = client.call('updateProfile', { timeout: 50 })
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+
+    expect(await aborted).toMatchObject({ ok: false, errors: [{ code: ERROR_CODES.REQUEST_CANCELLED }] })
+    expect(ofType(MSG.CANCEL)).toHaveLength(1)
+    // Slot freed by the abort - the second call is sent and then times out
+    await vi.advanceTimersByTimeAsync(50)
+    expect(ofType(MSG.AUTH_CALL)).toHaveLength(2)
+    expect(await queued).toMatchObject({ ok: false, errors: [{ code: ERROR_CODES.REQUEST_TIMEOUT }] })
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Server clock tests
+ *
+ * Tests skew estimation from Date headers and time conversion
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  serverNow,
+  toLocalTime,
+  getClockSkew,
+  observeServerTime,
+  observeServerDate,
+  setClockSkewListener
+} from '../src/utils/clock'
+
+const HOUR = 3_600_000
+
+describe('Server Clock', () => {
+  beforeEach(() => {
+    setClockSkewListener(null)
+    observeServerTime(Date.now())
+  })
+
+  describe('observeServerTime', () => {
+    it('should measure server ahead of local clock', () => {
+      expect(observeServerTime(Date.now() + HOUR)).toBe(true)
+
+      expect(Math.abs(getClockSkew() - HOUR)).toBeLessThan(100)
+      expect(Math.abs(serverNow() - (Date.now() + HOUR))).toBeLessThan(100)
+    })
+
+    it('should ignore differences within noise threshold', () => {
+      expect(observeServerTime(Date.now() + 1500)).toBe(false)
+      expect(getClockSkew()).toBe(0)
+    })
+
+    it('should keep estimate when new sample is close to it', () => {
+      observeServerTime(Date.now() + HOUR)
+      const skew = getClockSkew()
+
+      expect(observeServerTime(Date.now() + HOUR + 800)).toBe(false)
+      expect(getClockSkew()).toBe(skew)
+    })
+
+    it('should notify listener on change', () => {
+      const listener = vi.fn()
+      setClockSkewListener(listener)
+
+      observeServerTime(Date.now() - HOUR)
+      observeServerTime(Date.now() - HOUR)
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(Math.abs(listener.mock.calls[0][0] + HOUR)).toBeLessThan(100)
+    })
+  })
+
+  describe('observeServerDate', () => {
+    it('should read Date header', () => {
+      const date = new Date(Date.now() + HOUR).toUTCString()
+      expect(observeServerDate(new Response(null, { headers: { Date: date } }))).toBe(true)
+
+      expect(Math.abs(getClockSkew() - HOUR)).toBeLessThan(1500)
+    })
+
+    it('should ignore cached responses', () => {
+      const date = new Date(Date.now() + HOUR).toUTCString()
+      expect(observeServerDate(new Response(null, { headers: { Date: date, Age: '120' } }))).toBe(false)
+      expect(getClockSkew()).toBe(0)
+    })
+
+    it('should ignore missing or invalid Date', () => {
+      expect(observeServerDate(new Response(null))).toBe(false)
+      expect(observeServerDate(new Response(null, { headers: { Date: 'garbage' } }))).toBe(false)
+    })
+  })
+
+  describe('toLocalTime', () => {
+    it('should convert server timestamp to local clock', () => {
+      observeServerTime(Date.now() + HOUR)
+      const serverExpiry = serverNow() + 60_000
+
+      expect(Math.abs(toLocalTime(serverExpiry) - (Date.now() + 60_000))).toBeLessThan(100)
+    })
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Cross-tab sync tests
+ *
+ * Tests Web Locks + BroadcastChannel coordination used by
+ * dedicated workers when crossTabSync is enabled.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createCrossTabSync, type CrossTabSync, type CrossTabMessage } from '../src/utils/cross-tab'
+
+describe('createCrossTabSync', () => {
+  const syncs: CrossTabSync[] = []
+
+  function create(name: string, onMessage: (message: CrossTabMessage) => void = () => {}): CrossTabSync {
+    const sync = createCrossTabSync(name, onMessage)
+    syncs.push(sync)
+    return sync
+  }
+
+  afterEach(() => {
+    for (const sync of syncs.splice(0)) sync.close()
+    vi.unstubAllGlobals()
+  })
+
+  it('should deliver messages to other instances with the same name', async () => {
+    const received = vi.fn()
+    const tab1 = create('body-auth:/auth/refresh')
+    create('body-auth:/auth/refresh', received)
+
+    tab1.notify({ type: 'refreshed' })
+
+    await vi.waitFor(() => expect(received).toHaveBeenCalledWith({ type: 'refreshed' }))
+  })
+
+  it('should not deliver messages to the sender', async () => {
+    const own = vi.fn()
+    const other = vi.fn()
+    const tab1 = create('cookie-auth:/auth/refresh', own)
+    create('cookie-auth:/auth/refresh', other)
+
+    tab1.notify({ type: 'logout' })
+
+    await vi.waitFor(() => expect(other).toHaveBeenCalledWith({ type: 'logout' }))
+    expect(own).not.toHaveBeenCalled()
+  })
+
+  it('should not deliver messages across providers', async () => {
+    const received = vi.fn()
+    const sibling = vi.fn()
+    const tab1 = create('provider-a')
+    create('provider-b', received)
+    create('provider-a', sibling)
+
+    tab1.notify({ type: 'logout' })
+
+    await vi.waitFor(() => expect(sibling).toHaveBeenCalled())
+    expect(received).not.toHaveBeenCalled()
+  })
+
+  it('should ignore unknown messages', async () => {
+    const received = vi.fn()
+    const sibling = vi.fn()
+    create('provider-c', received)
+    create('provider-c', sibling)
+
+    const foreign = new BroadcastChannel('fetchguard:provider-c')
+    foreign.postMessage({ type: 'token', token: 'leak' })
+    foreign.postMessage({ type: 'logout' })
+
+    await vi.waitFor(() => expect(received).toHaveBeenCalledTimes(1))
+    expect(received).toHaveBeenCalledWith({ type: 'logout' })
+    foreign.close()
+  })
+
+  it('should run operation directly when Web Locks are unavailable', async () => {
+    vi.stubGlobal('navigator', {})
+    const sync = create('no-locks')
+
+    const result = await sync.withRefreshLock(async () => 'refreshed')
+
+    expect(result).toBe('refreshed')
+  })
+
+  it('should run operation under a lock named per provider', async () => {
+    const request = vi.fn((_name: string, operation: () => Promise<unknown>) => operation())
+    vi.stubGlobal('navigator', { locks: { request } })
+    const sync = create('body-auth:/auth/refresh')
+
+    const result = await sync.withRefreshLock(async () => 42)
+
+    expect(result).toBe(42)
+    expect(request).toHaveBeenCalledWith('fetchguard:refresh:body-auth:/auth/refresh', expect.any(Function))
+  })
+})
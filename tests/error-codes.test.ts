@@ -60,6 +60,10 @@ describe('ERROR_CODES', () => {
     it('should have NOT_AUTHENTICATED code', () => {
       expect(ERROR_CODES.NOT_AUTHENTICATED).toBe('NOT_AUTHENTICATED')
     })
+
+    it('should have ID_TOKEN_INVALID code', () => {
+      expect(ERROR_CODES.ID_TOKEN_INVALID).toBe('ID_TOKEN_INVALID')
+    })
   })
 
   describe('Domain error codes', () => {
@@ -85,13 +89,29 @@ describe('ERROR_CODES', () => {
       expect(ERROR_CODES.RESPONSE_PARSE_FAILED).toBe('RESPONSE_PARSE_FAILED')
     })
 
+    it('should have RESPONSE_VALIDATION_FAILED code', () => {
+      expect(ERROR_CODES.RESPONSE_VALIDATION_FAILED).toBe('RESPONSE_VALIDATION_FAILED')
+    })
+
     it('should have QUEUE_FULL code', () => {
       expect(ERROR_CODES.QUEUE_FULL).toBe('QUEUE_FULL')
     })
 
+    it('should have REQUEST_QUEUED code', () => {
+      expect(ERROR_CODES.REQUEST_QUEUED).toBe('REQUEST_QUEUED')
+    })
+
+    it('should have CIRCUIT_OPEN code', () => {
+      expect(ERROR_CODES.CIRCUIT_OPEN).toBe('CIRCUIT_OPEN')
+    })
+
     it('should have REQUEST_TIMEOUT code', () => {
       expect(ERROR_CODES.REQUEST_TIMEOUT).toBe('REQUEST_TIMEOUT')
     })
+
+    it('should have QUEUE_TIMEOUT code', () => {
+      expect(ERROR_CODES.QUEUE_TIMEOUT).toBe('QUEUE_TIMEOUT')
+    })
   })
 })
 
@@ -113,6 +133,7 @@ describe('ERROR_CODES matches error factories', () => {
     expect(AuthErrors.LoginFailed().code).toBe(ERROR_CODES.LOGIN_FAILED)
     expect(AuthErrors.LogoutFailed().code).toBe(ERROR_CODES.LOGOUT_FAILED)
     expect(AuthErrors.NotAuthenticated().code).toBe(ERROR_CODES.NOT_AUTHENTICATED)
+    expect(AuthErrors.IdTokenInvalid().code).toBe(ERROR_CODES.ID_TOKEN_INVALID)
   })
 
   it('DomainErrors should use ERROR_CODES', () => {
@@ -124,8 +145,12 @@ describe('ERROR_CODES matches error factories', () => {
     expect(RequestErrors.Cancelled().code).toBe(ERROR_CODES.REQUEST_CANCELLED)
     expect(RequestErrors.HttpError({ status: 404 }).code).toBe(ERROR_CODES.HTTP_ERROR)
     expect(RequestErrors.ResponseParseFailed().code).toBe(ERROR_CODES.RESPONSE_PARSE_FAILED)
+    expect(RequestErrors.ResponseValidationFailed().code).toBe(ERROR_CODES.RESPONSE_VALIDATION_FAILED)
     expect(RequestErrors.QueueFull({ size: 1, maxSize: 1 }).code).toBe(ERROR_CODES.QUEUE_FULL)
     expect(RequestErrors.Timeout().code).toBe(ERROR_CODES.REQUEST_TIMEOUT)
+    expect(RequestErrors.QueueTimeout().code).toBe(ERROR_CODES.QUEUE_TIMEOUT)
+    expect(RequestErrors.Queued().code).toBe(ERROR_CODES.REQUEST_QUEUED)
+    expect(RequestErrors.CircuitOpen({ origin: 'x' }).code).toBe(ERROR_CODES.CIRCUIT_OPEN)
   })
 })
 
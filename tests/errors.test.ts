@@ -78,6 +78,12 @@ describe('Error Definitions', () => {
       expect(error.code).toBe('NOT_AUTHENTICATED')
       expect(error.message).toBe('User is not authenticated')
     })
+
+    it('should create IdTokenInvalid error', () => {
+      const error = AuthErrors.IdTokenInvalid()
+      expect(error.code).toBe('ID_TOKEN_INVALID')
+      expect(error.message).toBe('ID token validation failed')
+    })
   })
 
   describe('DomainErrors', () => {
@@ -134,6 +140,30 @@ describe('Error Definitions', () => {
       expect(error.message).toBe('Failed to parse response body')
     })
 
+    it('should create ResponseValidationFailed error', () => {
+      const error = RequestErrors.ResponseValidationFailed()
+      expect(error.code).toBe('RESPONSE_VALIDATION_FAILED')
+      expect(error.message).toBe('Response body failed schema validation')
+    })
+
+    it('should create Queued error', () => {
+      const error = RequestErrors.Queued()
+      expect(error.code).toBe('REQUEST_QUEUED')
+      expect(error.message).toBe('Request queued for replay when back online')
+    })
+
+    it('should create CircuitOpen error with origin', () => {
+      const error = RequestErrors.CircuitOpen({ origin: 'https://api.example.com' })
+      expect(error.code).toBe('CIRCUIT_OPEN')
+      expect(error.message).toBe('Circuit open for https://api.example.com')
+    })
+
+    it('should create QueueTimeout error', () => {
+      const error = RequestErrors.QueueTimeout()
+      expect(error.code).toBe('QUEUE_TIMEOUT')
+      expect(error.message).toBe('Request timed out waiting in queue')
+    })
+
     it('should create QueueFull error with size parameters', () => {
       const error = RequestErrors.QueueFull({ size: 1000, maxSize: 1000 })
       expect(error.code).toBe('QUEUE_FULL')
@@ -13,6 +13,7 @@ import {
   isClientError,
   isServerError,
   parseJson,
+  decodeJson,
   getErrorMessage,
   getErrorBody,
   getStatus,
@@ -311,3 +312,87 @@ describe('matchResult', () => {
     expect(output).toBe('Handled')
   })
 })
+
+describe('decodeJson', () => {
+  // Minimal zod-like schema: throws an error with issues
+  const userSchema = {
+    parse(input: unknown) {
+      const value = input as { id?: unknown }
+      if (typeof value?.id !== 'number') {
+        throw Object.assign(new Error('Invalid user'), { issues: [{ path: ['id'], message: 'Expected number' }] })
+      }
+      return { id: value.id }
+    }
+  }
+
+  it('should return parsed body for 2xx without schema', () => {
+    const result = decodeJson<{ id: number }>(ok(createEnvelope(200, '{"id":1}')))
+    expect(result.ok && result.data).toEqual({ id: 1 })
+  })
+
+  it('should validate 2xx body with schema', () => {
+    const result = decodeJson(ok(createEnvelope(200, '{"id":1,"extra":true}')), { schema: userSchema })
+    expect(result.ok && result.data).toEqual({ id: 1 })
+  })
+
+  it('should return RESPONSE_VALIDATION_FAILED with issues', () => {
+    const result = decodeJson(ok(createEnvelope(200, '{"id":"1"}')), { schema: userSchema })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.errors[0].code).toBe('RESPONSE_VALIDATION_FAILED')
+      expect(result.meta?.params).toEqual({ status: 200, issues: [{ path: ['id'], message: 'Expected number' }] })
+    }
+  })
+
+  it('should wrap errors without issues', () => {
+    const schema = { parse: () => { throw new Error('nope') } }
+    const result = decodeJson(ok(createEnvelope(200, '{}')), { schema })
+    expect(!result.ok && result.meta?.params).toEqual({ status: 200, issues: [{ message: 'nope' }] })
+  })
+
+  it('should return RESPONSE_PARSE_FAILED for invalid JSON', () => {
+    const result = decodeJson(ok(createEnvelope(200, 'not json')))
+    expect(!result.ok && result.errors[0].code).toBe('RESPONSE_PARSE_FAILED')
+  })
+
+  it('should decode empty body as undefined', () => {
+    const result = decodeJson(ok(createEnvelope(204, '')))
+    expect(result.ok && result.data).toBeUndefined()
+  })
+
+  it('should return HTTP_ERROR with parsed error body', () => {
+    const result = decodeJson(ok(createEnvelope(422, '{"message":"Invalid"}')))
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.errors[0].code).toBe('HTTP_ERROR')
+      expect(result.meta?.params).toEqual({ status: 422, body: { message: 'Invalid' } })
+    }
+  })
+
+  it('should keep raw text error body when not JSON', () => {
+    const result = decodeJson(ok(createEnvelope(502, 'Bad Gateway', 'text/plain')))
+    expect(!result.ok && result.meta?.params).toEqual({ status: 502, body: 'Bad Gateway' })
+  })
+
+  it('should validate error body with errorSchema', () => {
+    const errorSchema = { parse: (input: unknown) => ({ message: String((input as { error: string }).error) }) }
+    const result = decodeJson(ok(createEnvelope(400, '{"error":"Bad input"}')), { errorSchema })
+    expect(!result.ok && result.meta?.params).toEqual({ status: 400, body: { message: 'Bad input' } })
+  })
+
+  it('should return RESPONSE_VALIDATION_FAILED when error body does not match errorSchema', () => {
+    const result = decodeJson(ok(createEnvelope(400, '{"error":"x"}')), { errorSchema: userSchema })
+    expect(!result.ok && result.errors[0].code).toBe('RESPONSE_VALIDATION_FAILED')
+    expect(!result.ok && (result.meta?.params as { status: number }).status).toBe(400)
+  })
+
+  it('should pass network errors through', () => {
+    const result = decodeJson(err({ code: 'NETWORK_ERROR', message: 'Offline' }))
+    expect(!result.ok && result.errors[0].code).toBe('NETWORK_ERROR')
+  })
+
+  it('should reject binary bodies', () => {
+    const result = decodeJson(ok({ status: 200, body: new ArrayBuffer(2), contentType: 'application/octet-stream', headers: {} }))
+    expect(!result.ok && result.errors[0].code).toBe('RESPONSE_PARSE_FAILED')
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * HTTP utilities tests
+ *
+ * Tests for method classification used by refresh-and-replay,
+ * XHR header parsing used by upload progress requests and
+ * Retry-After / RateLimit-Reset parsing used by status retries.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { isIdempotentMethod, parseResponseHeaders, parseRetryAfter, parseRateLimitReset, getRetryAfterDelay } from '../src/utils/http'
+
+const NOW = Date.parse('2026-03-01T12:00:00Z')
+
+describe('isIdempotentMethod', () => {
+  it('should treat GET, HEAD, OPTIONS, PUT, DELETE as idempotent', () => {
+    for (const method of ['GET', 'HEAD', 'OPTIONS', 'TRACE', 'PUT', 'DELETE']) {
+      expect(isIdempotentMethod(method)).toBe(true)
+    }
+  })
+
+  it('should treat POST and PATCH as non-idempotent', () => {
+    expect(isIdempotentMethod('POST')).toBe(false)
+    expect(isIdempotentMethod('PATCH')).toBe(false)
+  })
+
+  it('should be case-insensitive', () => {
+    expect(isIdempotentMethod('get')).toBe(true)
+    expect(isIdempotentMethod('post')).toBe(false)
+  })
+
+  it('should default to GET when method is omitted', () => {
+    expect(isIdempotentMethod()).toBe(true)
+    expect(isIdempotentMethod(undefined)).toBe(true)
+  })
+})
+
+describe('parseResponseHeaders', () => {
+  it('should parse CRLF-separated header block', () => {
+    const headers = parseResponseHeaders('Content-Type: application/json\r\nX-Request-Id: abc\r\n')
+
+    expect(headers.get('content-type')).toBe('application/json')
+    expect(headers.get('x-request-id')).toBe('abc')
+  })
+
+  it('should keep colons in values and combine repeated headers', () => {
+    const headers = parseResponseHeaders('Date: Mon, 01 Jan 2024 10:00:00 GMT\r\nVary: Accept\r\nVary: Origin')
+
+    expect(headers.get('date')).toBe('Mon, 01 Jan 2024 10:00:00 GMT')
+    expect(headers.get('vary')).toBe('Accept, Origin')
+  })
+
+  it('should skip malformed lines', () => {
+    const headers = parseResponseHeaders('garbage\r\n: no-name\r\nok: yes')
+
+    expect([...headers.keys()]).toEqual(['ok'])
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('should parse delay-seconds', () => {
+    expect(parseRetryAfter('120', NOW)).toBe(120_000)
+    expect(parseRetryAfter(' 0 ', NOW)).toBe(0)
+  })
+
+  it('should parse HTTP-date relative to now', () => {
+    expect(parseRetryAfter('Sun, 01 Mar 2026 12:00:30 GMT', NOW)).toBe(30_000)
+    expect(parseRetryAfter('Sun, 01 Mar 2026 11:00:00 GMT', NOW)).toBe(0)
+  })
+
+  it('should ignore missing and invalid values', () => {
+    expect(parseRetryAfter(undefined, NOW)).toBeUndefined()
+    expect(parseRetryAfter('-5', NOW)).toBeUndefined()
+    expect(parseRetryAfter('soon', NOW)).toBeUndefined()
+  })
+})
+
+describe('parseRateLimitReset', () => {
+  it('should parse delta seconds and Unix timestamps', () => {
+    expect(parseRateLimitReset('15', NOW)).toBe(15_000)
+    expect(parseRateLimitReset(String(NOW / 1000 + 60), NOW)).toBe(60_000)
+    expect(parseRateLimitReset('1.5', NOW)).toBeUndefined()
+  })
+})
+
+describe('getRetryAfterDelay', () => {
+  it('should prefer Retry-After over RateLimit-Reset', () => {
+    expect(getRetryAfterDelay({ 'retry-after': '2', 'ratelimit-reset': '10' }, NOW)).toBe(2000)
+    expect(getRetryAfterDelay({ 'ratelimit-reset': '10' }, NOW)).toBe(10_000)
+    expect(getRetryAfterDelay({}, NOW)).toBeUndefined()
+  })
+})
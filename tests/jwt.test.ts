@@ -0,0 +1,87 @@
+/**
+ * JWT utilities tests
+ *
+ * Tests JWT decoding and WebCrypto signature verification
+ */
+import { describe, it, expect } from 'vitest'
+import { decodeJwt, verifyJwtSignature, isSupportedJwsAlgorithm } from '../src/utils/jwt'
+import { base64UrlEncode } from '../src/utils/binary'
+
+const encodeJson = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)))
+
+async function signJwt(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  privateKey: CryptoKey,
+  params: AlgorithmIdentifier | EcdsaParams
+): Promise<string> {
+  const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`
+  const signature = await crypto.subtle.sign(params, privateKey, new TextEncoder().encode(signingInput))
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+describe('JWT Utilities', () => {
+  describe('decodeJwt', () => {
+    it('should decode header and payload', () => {
+      const token = `${encodeJson({ alg: 'RS256', kid: 'k1' })}.${encodeJson({ sub: 'user_1' })}.c2ln`
+      const jwt = decodeJwt(token)
+
+      expect(jwt?.header).toEqual({ alg: 'RS256', kid: 'k1' })
+      expect(jwt?.payload).toEqual({ sub: 'user_1' })
+      expect(Array.from(jwt!.signature)).toEqual(Array.from(new TextEncoder().encode('sig')))
+    })
+
+    it('should return null for malformed tokens', () => {
+      expect(decodeJwt('abc')).toBeNull()
+      expect(decodeJwt('a.b.c')).toBeNull()
+      expect(decodeJwt(`${encodeJson('str')}.${encodeJson({})}.`)).toBeNull()
+    })
+  })
+
+  describe('isSupportedJwsAlgorithm', () => {
+    it('should reject none and HMAC', () => {
+      expect(isSupportedJwsAlgorithm('RS256')).toBe(true)
+      expect(isSupportedJwsAlgorithm('ES256')).toBe(true)
+      expect(isSupportedJwsAlgorithm('none')).toBe(false)
+      expect(isSupportedJwsAlgorithm('HS256')).toBe(false)
+      expect(isSupportedJwsAlgorithm(undefined)).toBe(false)
+    })
+  })
+
+  describe('verifyJwtSignature', () => {
+    it('should verify RS256 signature', async () => {
+      const keyPair = await crypto.subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+      )
+      const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey)
+      const token = await signJwt({ alg: 'RS256' }, { sub: 'user_1' }, keyPair.privateKey, 'RSASSA-PKCS1-v1_5')
+
+      expect(await verifyJwtSignature(decodeJwt(token)!, jwk)).toBe(true)
+    })
+
+    it('should verify ES256 signature', async () => {
+      const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+      const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey)
+      const token = await signJwt({ alg: 'ES256' }, { sub: 'user_1' }, keyPair.privateKey, { name: 'ECDSA', hash: 'SHA-256' })
+
+      expect(await verifyJwtSignature(decodeJwt(token)!, jwk)).toBe(true)
+    })
+
+    it('should reject tampered payload', async () => {
+      const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+      const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey)
+      const token = await signJwt({ alg: 'ES256' }, { sub: 'user_1' }, keyPair.privateKey, { name: 'ECDSA', hash: 'SHA-256' })
+      const [header, , signature] = token.split('.')
+      const tampered = `${header}.${encodeJson({ sub: 'admin' })}.${signature}`
+
+      expect(await verifyJwtSignature(decodeJwt(tampered)!, jwk)).toBe(false)
+    })
+
+    it('should reject unsupported algorithm', async () => {
+      const token = `${encodeJson({ alg: 'none' })}.${encodeJson({ sub: 'user_1' })}.`
+      expect(await verifyJwtSignature(decodeJwt(token)!, {})).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * OAuth utilities tests
+ *
+ * Tests PKCE verifier/challenge generation, OAuth token response parsing
+ * and OIDC ID token claim validation
+ */
+import { describe, it, expect } from 'vitest'
+import { generateRandomString, createCodeChallenge } from '../src/provider/oauth/pkce'
+import { oauthParser } from '../src/provider/parser/oauth'
+import { validateIdTokenClaims } from '../src/provider/oauth/oidc'
+
+describe('OAuth', () => {
+  describe('generateRandomString', () => {
+    it('should produce 43-char base64url verifier by default', () => {
+      const verifier = generateRandomString()
+      expect(verifier).toHaveLength(43)
+      expect(verifier).toMatch(/^[A-Za-z0-9_-]+$/)
+    })
+
+    it('should produce different values', () => {
+      expect(generateRandomString()).not.toBe(generateRandomString())
+    })
+  })
+
+  describe('createCodeChallenge', () => {
+    it('should match RFC 7636 appendix B example', async () => {
+      const challenge = await createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')
+      expect(challenge).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM')
+    })
+  })
+
+  describe('oauthParser', () => {
+    it('should parse standard token response', async () => {
+      const before = Date.now()
+      const response = new Response(JSON.stringify({
+        access_token: 'at',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        refresh_token: 'rt'
+      }))
+
+      const info = await oauthParser.parse(response)
+
+      expect(info.token).toBe('at')
+      expect(info.refreshToken).toBe('rt')
+      expect(info.expiresAt).toBeGreaterThanOrEqual(before + 3600 * 1000)
+    })
+
+    it('should omit refreshToken when not rotated', async () => {
+      const info = await oauthParser.parse(new Response(JSON.stringify({ access_token: 'at' })))
+
+      expect(info.token).toBe('at')
+      expect(info.expiresAt).toBeUndefined()
+      expect('refreshToken' in info).toBe(false)
+    })
+  })
+
+  describe('validateIdTokenClaims', () => {
+    const now = 1_700_000_000_000
+    const expected = { issuer: 'https://idp.example.com', clientId: 'spa', nonce: 'n-1', clockToleranceMs: 60_000, now }
+    const claims = { iss: 'https://idp.example.com', aud: 'spa', nonce: 'n-1', exp: now / 1000 + 300, iat: now / 1000 }
+
+    it('should accept valid claims', () => {
+      expect(validateIdTokenClaims(claims, expected)).toBeNull()
+      expect(validateIdTokenClaims({ ...claims, aud: ['spa', 'api'], azp: 'spa' }, expected)).toBeNull()
+    })
+
+    it('should reject wrong issuer or audience', () => {
+      expect(validateIdTokenClaims({ ...claims, iss: 'https://evil.example.com' }, expected)).toBe('Invalid issuer')
+      expect(validateIdTokenClaims({ ...claims, aud: 'other' }, expected)).toBe('Invalid audience')
+      expect(validateIdTokenClaims({ ...claims, aud: ['spa', 'api'], azp: 'api' }, expected)).toBe('Invalid authorized party')
+    })
+
+    it('should reject expired tokens outside clock tolerance', () => {
+      expect(validateIdTokenClaims({ ...claims, exp: now / 1000 - 30 }, expected)).toBeNull()
+      expect(validateIdTokenClaims({ ...claims, exp: now / 1000 - 120 }, expected)).toBe('ID token expired')
+      expect(validateIdTokenClaims({ ...claims, iat: now / 1000 + 120 }, expected)).toBe('ID token issued in the future')
+    })
+
+    it('should check nonce only when expected', () => {
+      expect(validateIdTokenClaims({ ...claims, nonce: 'n-2' }, expected)).toBe('Invalid nonce')
+      expect(validateIdTokenClaims({ ...claims, nonce: undefined }, { ...expected, nonce: undefined })).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,269 @@
+/**
+ * Offline queue tests
+ *
+ * Tests ordering, persistence reload, replay outcomes, retry scheduling,
+ * identity reset and tabs sharing one store using an in-memory store.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  createOfflineQueue,
+  isQueueableRequest,
+  type OfflineQueueStore,
+  type QueuedRequest,
+  type ReplayOutcome
+} from '../src/utils/offline-queue'
+import type { OfflineQueueEvent } from '../src/types'
+
+function createMemoryStore(initial: QueuedRequest[] = [], identity: string | null = null) {
+  const requests = new Map(initial.map(request => [request.id, request]))
+  const state = { identity }
+  const store: OfflineQueueStore = {
+    async load() {
+      return { requests: [...requests.values()], identity: state.identity }
+    },
+    async add(request) {
+      requests.set(request.id, request)
+    },
+    async remove(id) {
+      requests.delete(id)
+    },
+    async setIdentity(value) {
+      state.identity = value
+    }
+  }
+  return { store, requests, state }
+}
+
+function setup(send: (request: QueuedRequest) => Promise<ReplayOutcome>, memory = createMemoryStore()) {
+  const events: OfflineQueueEvent[] = []
+  let next = 0
+  const queue = createOfflineQueue({
+    store: memory.store,
+    send,
+    onEvent: event => events.push(event),
+    maxItems: 3,
+    retryDelay: 1000,
+    createId: () => `id-${++next}`
+  })
+  return { queue, events, memory }
+}
+
+/**
+ * Web Locks stand-in: requests for the same name run one after another
+ */
+function createLocks() {
+  const tails = new Map<string, Promise<unknown>>()
+  return {
+    request<T>(name: string, operation: () => Promise<T>): Promise<T> {
+      const run = (tails.get(name) ?? Promise.resolve()).then(operation)
+      tails.set(name, run.catch(() => {}))
+      return run
+    }
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('isQueueableRequest', () => {
+  it('should accept mutations unless opted out', () => {
+    expect(isQueueableRequest({ method: 'post' })).toBe(true)
+    expect(isQueueableRequest({ method: 'DELETE' })).toBe(true)
+    expect(isQueueableRequest({})).toBe(false)
+    expect(isQueueableRequest({ method: 'POST', queueOffline: false })).toBe(false)
+  })
+})
+
+describe('createOfflineQueue', () => {
+  it('should persist and replay requests in order', async () => {
+    const sent: string[] = []
+    const { queue, events, memory } = setup(async request => {
+      sent.push(request.url)
+      return { type: 'response', status: request.url === '/b' ? 422 : 201 }
+    })
+
+    await queue.enqueue('/a', { method: 'POST', body: '1' })
+    await queue.enqueue('/b', { method: 'PUT' })
+    expect(memory.requests.size).toBe(2)
+    expect(queue.pending).toBe(2)
+
+    await queue.replay()
+
+    expect(sent).toEqual(['/a', '/b'])
+    expect(memory.requests.size).toBe(0)
+    expect(events.map(event => [event.type, event.url, event.status, event.pending])).toEqual([
+      ['queued', '/a', undefined, 1],
+      ['queued', '/b', undefined, 2],
+      ['synced', '/a', 201, 1],
+      ['failed', '/b', 422, 0]
+    ])
+  })
+
+  it('should refuse requests when full', async () => {
+    const { queue } = setup(async () => ({ type: 'response', status: 200 }))
+    for (let i = 0; i < 3; i++) {
+      expect(await queue.enqueue(`/${i}`, { method: 'POST' })).not.toBeNull()
+    }
+    expect(await queue.enqueue('/3', { method: 'POST' })).toBeNull()
+  })
+
+  it('should stop on offline outcome and retry later', async () => {
+    vi.useFakeTimers()
+    let online = false
+    const send = vi.fn(async (): Promise<ReplayOutcome> => (
+      online ? { type: 'response', status: 200 } : { type: 'offline', error: 'Failed to fetch' }
+    ))
+    const { queue, events } = setup(send)
+
+    await queue.enqueue('/a', { method: 'POST' })
+    await queue.enqueue('/b', { method: 'POST' })
+    await queue.replay()
+
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(queue.pending).toBe(2)
+
+    online = true
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(send).toHaveBeenCalledTimes(3)
+    expect(queue.pending).toBe(0)
+    expect(events.filter(event => event.type === 'synced')).toHaveLength(2)
+  })
+
+  it('should remove rejected requests as failed', async () => {
+    const { queue, events } = setup(async () => ({ type: 'rejected', error: 'Domain not allowed' }))
+    await queue.enqueue('/a', { method: 'POST' })
+    await queue.replay()
+
+    expect(queue.pending).toBe(0)
+    expect(events[1]).toMatchObject({ type: 'failed', error: 'Domain not allowed' })
+  })
+
+  it('should share one replay run between concurrent calls', async () => {
+    const send = vi.fn(async (): Promise<ReplayOutcome> => ({ type: 'response', status: 200 }))
+    const { queue } = setup(send)
+    await queue.enqueue('/a', { method: 'POST' })
+
+    await Promise.all([queue.replay(), queue.replay()])
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reload persisted requests of the current identity only', async () => {
+    const request = (id: string, identity: string, seq: number): QueuedRequest => ({
+      id, url: `/${id}`, options: { method: 'POST' }, identity, seq, createdAt: 0
+    })
+    const memory = createMemoryStore([request('b', 'user', 2), request('x', 'other', 3), request('a', 'user', 1)], 'user')
+    const sent: string[] = []
+    const { queue, events } = setup(async queued => {
+      sent.push(queued.id)
+      return { type: 'response', status: 200 }
+    }, memory)
+
+    await queue.replay()
+
+    expect(queue.identity).toBe('user')
+    expect(sent).toEqual(['a', 'b'])
+    expect(memory.requests.size).toBe(0)
+    // Other identity's request is deleted on startup - and reported
+    expect(events.filter(event => event.type === 'dropped').map(event => event.url)).toEqual(['/x'])
+  })
+
+  it('should drop requests and switch identity on reset', async () => {
+    const send = vi.fn(async (): Promise<ReplayOutcome> => ({ type: 'response', status: 200 }))
+    const { queue, events, memory } = setup(send)
+
+    await queue.enqueue('/a', { method: 'POST' })
+    const before = queue.identity
+    await queue.resetIdentity()
+    await queue.replay()
+
+    expect(queue.identity).not.toBe(before)
+    expect(memory.state.identity).toBe(queue.identity)
+    expect(memory.requests.size).toBe(0)
+    expect(send).not.toHaveBeenCalled()
+    expect(events[1]).toMatchObject({ type: 'dropped', url: '/a', pending: 0 })
+  })
+
+  it('should keep requests of tabs that adopted the same new identity', async () => {
+    vi.stubGlobal('navigator', { locks: createLocks() })
+    const memory = createMemoryStore([], 'user')
+    const sent: string[] = []
+    const tabs = ['tab1', 'tab2'].map(tab => {
+      let next = 0
+      return createOfflineQueue({
+        store: memory.store,
+        send: async queued => {
+          sent.push(queued.url)
+          return { type: 'response', status: 201 }
+        },
+        onEvent: () => {},
+        maxItems: 10,
+        retryDelay: 1000,
+        lockName: 'fetchguard:offline:test',
+        createId: () => `${tab}-${++next}`
+      })
+    })
+
+    // Tab 1 signs out, tab 2 follows with the identity from its logout message
+    await tabs[0].resetIdentity()
+    await tabs[1].resetIdentity(tabs[0].identity)
+    await tabs[1].enqueue('/b', { method: 'POST' })
+    await tabs[0].replay()
+
+    expect(tabs[1].identity).toBe(tabs[0].identity)
+    expect(memory.state.identity).toBe(tabs[0].identity)
+    expect(sent).toEqual(['/b'])
+  })
+
+  it('should not report requests dropped while replaying', async () => {
+    let release!: (outcome: ReplayOutcome) => void
+    const { queue, events } = setup(() => new Promise(resolve => { release = resolve }))
+
+    await queue.enqueue('/a', { method: 'POST' })
+    const replaying = queue.replay()
+    await vi.waitFor(() => expect(release).toBeDefined())
+
+    await queue.resetIdentity()
+    release({ type: 'response', status: 200 })
+    await replaying
+
+    expect(events.map(event => event.type)).toEqual(['queued', 'dropped'])
+  })
+
+  it('should replay each request once when tabs share the store', async () => {
+    vi.stubGlobal('navigator', { locks: createLocks() })
+    const request = (id: string, seq: number): QueuedRequest => ({
+      id, url: `/${id}`, options: { method: 'POST' }, identity: 'user', seq, createdAt: 0
+    })
+    const memory = createMemoryStore([request('a', 1), request('b', 2)], 'user')
+    const sent: string[] = []
+    const send = async (queued: QueuedRequest): Promise<ReplayOutcome> => {
+      sent.push(queued.url)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      return { type: 'response', status: 201 }
+    }
+    // Both tabs loaded the same requests on startup
+    const tabs = ['tab1', 'tab2'].map(tab => {
+      let next = 0
+      return createOfflineQueue({
+        store: memory.store,
+        send,
+        onEvent: () => {},
+        maxItems: 10,
+        retryDelay: 1000,
+        lockName: 'fetchguard:offline:test',
+        createId: () => `${tab}-${++next}`
+      })
+    })
+    await tabs[1].enqueue('/c', { method: 'POST' })
+
+    await Promise.all(tabs.map(queue => queue.replay()))
+
+    expect(sent).toEqual(['/a', '/b', '/c'])
+    expect(memory.requests.size).toBe(0)
+    expect(tabs.map(queue => queue.pending)).toEqual([0, 0])
+  })
+})
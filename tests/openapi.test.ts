@@ -0,0 +1,152 @@
+/**
+ * OpenAPI generator tests
+ *
+ * Tests schema-to-type conversion and the generated defineEndpoints source
+ * (security -> requiresAuth, servers -> allowedDomains, path params).
+ */
+
+import { describe, it, expect } from 'vitest'
+import { generateClient, schemaToType, type OpenApiDocument } from '../src/codegen/openapi'
+
+const document: OpenApiDocument = {
+  openapi: '3.1.0',
+  info: { title: 'Pets', version: '1.0.0' },
+  servers: [
+    { url: 'https://{region}.api.example.com/v1', variables: { region: { default: 'eu' } } },
+    { url: 'http://localhost:8080/v1' },
+    { url: '/v1' }
+  ],
+  security: [{ bearer: [] }],
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'list-pets',
+        summary: 'List pets',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer' } },
+          { name: 'tags', in: 'query', required: true, schema: { type: 'array', items: { type: 'string' } } }
+        ],
+        responses: {
+          200: { content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } } },
+          default: { $ref: '#/components/responses/Error' }
+        }
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+        responses: { 201: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } }
+      }
+    },
+    '/pets/{pet-id}': {
+      parameters: [{ name: 'pet-id', in: 'path', required: true, schema: { type: 'string' } }],
+      delete: {
+        responses: { 204: { description: 'Deleted' } }
+      }
+    },
+    '/health': {
+      get: {
+        operationId: 'health',
+        security: [],
+        responses: { 200: { content: { 'application/json': { schema: { type: 'object' } } } } }
+      }
+    },
+    '/pets/{id}/photo': {
+      get: {
+        operationId: 'getPhoto',
+        responses: { 200: { content: { 'image/png': {} } } }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string', description: 'Display name' },
+          tag: { type: ['string', 'null'] }
+        }
+      },
+      'api.error': { type: 'object', properties: { message: { type: 'string' } } }
+    },
+    responses: {
+      Error: { content: { 'application/json': { schema: { $ref: '#/components/schemas/api.error' } } } }
+    }
+  }
+}
+
+describe('schemaToType', () => {
+  it('should convert primitives and arrays', () => {
+    expect(schemaToType({ type: 'string' })).toBe('string')
+    expect(schemaToType({ type: 'string', format: 'binary' })).toBe('Blob')
+    expect(schemaToType({ type: 'integer' })).toBe('number')
+    expect(schemaToType({ type: 'array', items: { type: 'boolean' } })).toBe('Array<boolean>')
+    expect(schemaToType(undefined)).toBe('unknown')
+  })
+
+  it('should convert enums, const and nullability (3.0 and 3.1)', () => {
+    expect(schemaToType({ enum: ['a', 'b', 1] })).toBe('"a" | "b" | 1')
+    expect(schemaToType({ const: 'x' })).toBe('"x"')
+    expect(schemaToType({ type: 'string', nullable: true })).toBe('string | null')
+    expect(schemaToType({ type: ['string', 'null'] })).toBe('string | null')
+  })
+
+  it('should convert compositions and refs', () => {
+    expect(schemaToType({ oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }] })).toBe('Cat | Dog')
+    expect(schemaToType({ allOf: [{ $ref: '#/components/schemas/Base' }, { enum: ['a', 'b'] }] })).toBe('Base & ("a" | "b")')
+  })
+
+  it('should convert objects with optional and quoted keys', () => {
+    expect(schemaToType({
+      type: 'object',
+      required: ['id'],
+      properties: { id: { type: 'integer' }, 'x-rate': { type: 'number' } }
+    })).toBe('{\n  id: number\n  "x-rate"?: number\n}')
+    expect(schemaToType({ type: 'object', additionalProperties: { type: 'string' } })).toBe('Record<string, string>')
+  })
+
+  it('should rename schemas that clash with globals', () => {
+    expect(schemaToType({ $ref: '#/components/schemas/Error' })).toBe('ErrorModel')
+  })
+})
+
+describe('generateClient', () => {
+  const result = generateClient(document)
+
+  it('should suggest allowedDomains and baseUrl from servers', () => {
+    expect(result.allowedDomains).toEqual(['eu.api.example.com', 'localhost:8080'])
+    expect(result.baseUrl).toBe('https://eu.api.example.com/v1')
+    expect(result.code).toContain('export const allowedDomains: string[] = ["eu.api.example.com","localhost:8080"]')
+  })
+
+  it('should emit component schema types', () => {
+    expect(result.code).toContain('export type Pet = {')
+    expect(result.code).toContain('/** Display name */')
+    expect(result.code).toContain('export type ApiError = {')
+  })
+
+  it('should emit typed endpoints with query, body and error types', () => {
+    expect(result.code).toContain(
+      "listPets: endpoint<{ query: { limit?: number; tags: Array<string> }; response: Array<Pet>; error: ApiError }>()({ method: 'GET', path: \"/pets\" })"
+    )
+    expect(result.code).toContain("createPet: endpoint<{ body: Pet; response: Pet }>()({ method: 'POST', path: \"/pets\" })")
+  })
+
+  it('should convert path params and name operations without operationId', () => {
+    expect(result.code).toContain("deletePetsByPetId: endpoint<{ response: undefined }>()({ method: 'DELETE', path: \"/pets/:petId\" })")
+  })
+
+  it('should map empty security to requiresAuth: false', () => {
+    expect(result.code).toContain("path: \"/health\", requiresAuth: false")
+  })
+
+  it('should skip non-JSON responses with a warning', () => {
+    expect(result.code).not.toContain('getPhoto')
+    expect(result.warnings).toEqual([expect.stringContaining('GET /pets/{id}/photo: non-JSON response')])
+  })
+
+  it('should reject non-3.x documents', () => {
+    expect(() => generateClient({ swagger: '2.0' } as unknown as OpenApiDocument)).toThrow('Only OpenAPI 3.x')
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Configurable parser tests
+ *
+ * Tests field paths, expiry modes and header token source
+ */
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createConfigurableParser, getByPath } from '../src/provider/parser/configurable'
+import { base64UrlEncode } from '../src/utils/binary'
+import { observeServerTime, getClockSkew } from '../src/utils/clock'
+
+const encodeJson = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)))
+const makeJwt = (payload: Record<string, unknown>) => `${encodeJson({ alg: 'RS256' })}.${encodeJson(payload)}.sig`
+
+const jsonResponse = (body: unknown, headers?: Record<string, string>) =>
+  new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json', ...headers } })
+
+describe('Configurable Parser', () => {
+  describe('getByPath', () => {
+    it('should read nested values', () => {
+      expect(getByPath({ a: { b: { c: 1 } } }, 'a.b.c')).toBe(1)
+      expect(getByPath({ a: 1 }, 'a.b')).toBeUndefined()
+      expect(getByPath(null, 'a')).toBeUndefined()
+    })
+
+    it('should return root for empty path', () => {
+      const root = { a: 1 }
+      expect(getByPath(root, '')).toBe(root)
+    })
+  })
+
+  describe('createConfigurableParser', () => {
+    it('should default to data.* shape', async () => {
+      const parser = createConfigurableParser({})
+      const info = await parser.parse(jsonResponse({
+        data: { accessToken: 'at', refreshToken: 'rt', expiresAt: 1767860146, user: { id: 1 } }
+      }))
+
+      expect(info).toEqual({ token: 'at', refreshToken: 'rt', expiresAt: 1767860146000, user: { id: 1 } })
+    })
+
+    it('should read top-level OAuth-style fields with relative expiry', async () => {
+      const parser = createConfigurableParser({
+        tokenPath: 'access_token',
+        refreshTokenPath: 'refresh_token',
+        expiresPath: 'expires_in',
+        expiresMode: 'relative',
+        userPath: 'profile'
+      })
+      const before = Date.now()
+      const info = await parser.parse(jsonResponse({ access_token: 'at', refresh_token: 'rt', expires_in: 900 }))
+
+      expect(info.token).toBe('at')
+      expect(info.refreshToken).toBe('rt')
+      expect(info.expiresAt).toBeGreaterThanOrEqual(before + 900_000)
+      expect(info.expiresAt).toBeLessThanOrEqual(Date.now() + 900_000)
+    })
+
+    it('should omit missing fields', async () => {
+      const parser = createConfigurableParser({ tokenPath: 'token' })
+      const info = await parser.parse(jsonResponse({ token: 'at' }))
+
+      expect(info).toEqual({ token: 'at' })
+    })
+
+    it('should skip refresh token for cookie mode', async () => {
+      const parser = createConfigurableParser({ tokenPath: 'token', refreshTokenPath: 'refresh' }, false)
+      const info = await parser.parse(jsonResponse({ token: 'at', refresh: 'rt' }))
+
+      expect('refreshToken' in info).toBe(false)
+    })
+
+    it('should read token from header and strip Bearer prefix', async () => {
+      const parser = createConfigurableParser({ tokenHeader: 'Authorization', userPath: '' })
+      const info = await parser.parse(jsonResponse({ id: 1 }, { Authorization: 'Bearer header-token' }))
+
+      expect(info.token).toBe('header-token')
+      expect(info.user).toEqual({ id: 1 })
+    })
+
+    it('should fall back to body when header is missing', async () => {
+      const parser = createConfigurableParser({ tokenHeader: 'Authorization', tokenPath: 'token' })
+      const info = await parser.parse(jsonResponse({ token: 'body-token' }))
+
+      expect(info.token).toBe('body-token')
+    })
+
+    it('should handle empty body with header token', async () => {
+      const parser = createConfigurableParser({ tokenHeader: 'X-Access-Token' })
+      const info = await parser.parse(new Response(null, { headers: { 'X-Access-Token': 'at' } }))
+
+      expect(info).toEqual({ token: 'at' })
+    })
+  })
+
+  describe('jwt mode', () => {
+    beforeEach(() => {
+      observeServerTime(Date.now())
+    })
+
+    it('should derive expiresAt from exp', async () => {
+      const exp = Math.floor(Date.now() / 1000) + 600
+      const parser = createConfigurableParser({ tokenPath: 'token', jwt: true })
+      const info = await parser.parse(jsonResponse({ token: makeJwt({ sub: 'u1', exp }) }))
+
+      expect(info.expiresAt).toBe(exp * 1000)
+    })
+
+    it('should prefer token exp over body expiry', async () => {
+      const exp = Math.floor(Date.now() / 1000) + 600
+      const parser = createConfigurableParser({ tokenPath: 'token', expiresPath: 'expiresAt', jwt: true })
+      const info = await parser.parse(jsonResponse({ token: makeJwt({ exp }), expiresAt: 1 }))
+
+      expect(info.expiresAt).toBe(exp * 1000)
+    })
+
+    it('should use iat as server time when Date header is missing', async () => {
+      const iat = Math.floor(Date.now() / 1000) - 180
+      const parser = createConfigurableParser({ tokenPath: 'token', jwt: true })
+      await parser.parse(jsonResponse({ token: makeJwt({ iat, exp: iat + 600 }) }))
+
+      expect(getClockSkew()).toBeLessThan(-179_000)
+      expect(getClockSkew()).toBeGreaterThan(-181_000)
+    })
+
+    it('should ignore iat far from the local clock (reused token)', async () => {
+      const iat = Math.floor(Date.now() / 1000) - 1800
+      const parser = createConfigurableParser({ tokenPath: 'token', jwt: true })
+      await parser.parse(jsonResponse({ token: makeJwt({ iat, exp: iat + 3600 }) }))
+
+      expect(getClockSkew()).toBe(0)
+    })
+
+    it('should not sample iat with clockSkew: false', async () => {
+      const iat = Math.floor(Date.now() / 1000) - 180
+      const parser = createConfigurableParser({ tokenPath: 'token', jwt: { clockSkew: false } })
+      await parser.parse(jsonResponse({ token: makeJwt({ iat, exp: iat + 600 }) }))
+
+      expect(getClockSkew()).toBe(0)
+    })
+
+    it('should map user claims and merge over body user', async () => {
+      const parser = createConfigurableParser({
+        tokenPath: 'token',
+        userPath: 'user',
+        jwt: { userClaims: { id: 'sub', roles: 'realm_access.roles' } }
+      })
+      const info = await parser.parse(jsonResponse({
+        token: makeJwt({ sub: 'u1', realm_access: { roles: ['admin'] } }),
+        user: { name: 'Ann', id: 'stale' }
+      }))
+
+      expect(info.user).toEqual({ name: 'Ann', id: 'u1', roles: ['admin'] })
+    })
+
+    it('should ignore non-JWT tokens', async () => {
+      const parser = createConfigurableParser({ tokenPath: 'token', jwt: true })
+      const info = await parser.parse(jsonResponse({ token: 'opaque' }))
+
+      expect(info).toEqual({ token: 'opaque' })
+    })
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * Provider preset tests
+ *
+ * Tests OAuth PKCE provider logout (refresh token revocation)
+ * and OIDC ID token handling (concurrent token responses, IdP outages)
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createOAuthProvider, createOidcProvider } from '../src/provider/presets'
+import { base64UrlEncode } from '../src/utils/binary'
+import { isDefinitiveRefreshFailure, resolveRefreshRetry } from '../src/utils/refresh-policy'
+import { ERROR_CODES } from '../src/error-codes'
+
+const encodeJson = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)))
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } })
+
+/**
+ * Minimal IndexedDB stand-in for the refresh token store
+ * Requests succeed on a microtask; writes only once `writesDone` resolves
+ * (holds a call inside its storage write to order concurrent calls)
+ */
+function createFakeIndexedDB(writesDone: Promise<unknown> = Promise.resolve()) {
+  const records = new Map<string, { key: string; value: string }>()
+  const request = (result?: unknown, done: Promise<unknown> = Promise.resolve()) => {
+    const req: { result?: unknown; onsuccess?: () => void } = { result }
+    void done.then(() => req.onsuccess?.())
+    return req
+  }
+  const store = {
+    get: (key: string) => request(records.get(key)),
+    put: (record: { key: string; value: string }) => request(void records.set(record.key, record), writesDone),
+    delete: (key: string) => request(void records.delete(key), writesDone)
+  }
+  const db = {
+    objectStoreNames: { contains: () => true },
+    transaction: () => ({ objectStore: () => store })
+  }
+  return { records, open: () => request(db) }
+}
+
+describe('OAuth provider logout', () => {
+  const config = {
+    authorizationUrl: 'https://idp.example.com/authorize',
+    tokenUrl: 'https://idp.example.com/token',
+    revocationUrl: 'https://idp.example.com/revoke',
+    clientId: 'spa',
+    redirectUri: 'https://app.example.com/callback'
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const signedIn = () => {
+    const db = createFakeIndexedDB()
+    db.records.set('refreshToken', { key: 'refreshToken', value: 'rt' })
+    vi.stubGlobal('indexedDB', db)
+    return db
+  }
+
+  it('should revoke the stored refresh token', async () => {
+    const db = signedIn()
+    const fetchMock = vi.fn(async () => new Response(null, { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await createOAuthProvider(config).logout()
+
+    expect(result.ok).toBe(true)
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe(config.revocationUrl)
+    expect((init.body as URLSearchParams).get('token')).toBe('rt')
+    expect(db.records.size).toBe(0)
+  })
+
+  it.each([
+    ['unreachable', async () => { throw new TypeError('Failed to fetch') }],
+    ['rejecting the request', async () => new Response('{"error":"invalid_client"}', { status: 401 })]
+  ])('should still sign out locally with the IdP %s', async (_case, revoke) => {
+    const db = signedIn()
+    vi.stubGlobal('fetch', vi.fn(revoke))
+
+    const result = await createOAuthProvider(config).logout()
+
+    expect(result.ok).toBe(true)
+    expect(result.ok && result.data).toMatchObject({ token: '', user: null })
+    expect(db.records.size).toBe(0)
+  })
+})
+
+describe('OIDC provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  /**
+   * IdP stand-in: discovery, JWKS and a token endpoint that issues an ID token
+   * for the authorization code grant. With rotateRefreshToken, refresh also returns
+   * an ID token and a new refresh token, and rejects reuse of an old one.
+   * Each test uses its own issuer - discovery and JWKS are cached per URL.
+   */
+  async function createIdp(issuer: string, options: { rotateRefreshToken?: boolean } = {}) {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+    const jwk = { ...(await crypto.subtle.exportKey('jwk', keyPair.publicKey)), kid: 'k1' }
+    const signIdToken = async (payload: Record<string, unknown>) => {
+      const signingInput = `${encodeJson({ alg: 'ES256', kid: 'k1' })}.${encodeJson(payload)}`
+      const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keyPair.privateKey, new TextEncoder().encode(signingInput))
+      return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`
+    }
+    const issueIdToken = (nonce?: string) => {
+      const now = Math.floor(Date.now() / 1000)
+      return signIdToken({ iss: issuer, aud: 'spa', sub: 'u1', nonce, iat: now, exp: now + 300 })
+    }
+
+    const idp = {
+      issuer,
+      jwksDown: false,
+      validRefreshToken: 'r1',
+      issuedIdToken: '',
+      fetch: vi.fn(async (url: string, init?: RequestInit) => {
+        if (url.endsWith('/.well-known/openid-configuration')) {
+          return jsonResponse({
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`,
+            end_session_endpoint: `${issuer}/logout`
+          })
+        }
+        if (url === `${issuer}/jwks`) {
+          if (idp.jwksDown) throw new TypeError('Failed to fetch')
+          return jsonResponse({ keys: [jwk] })
+        }
+
+        const params = init?.body as URLSearchParams
+        if (params.get('grant_type') === 'authorization_code') {
+          idp.issuedIdToken = await issueIdToken('n-1')
+          return jsonResponse({ access_token: 'a1', refresh_token: 'r1', expires_in: 3600, id_token: idp.issuedIdToken })
+        }
+        if (!options.rotateRefreshToken) {
+          return jsonResponse({ access_token: 'a2', expires_in: 3600 })
+        }
+        if (params.get('refresh_token') !== idp.validRefreshToken) {
+          return new Response(JSON.stringify({ error: 'invalid_grant' }), { status: 400 })
+        }
+        idp.validRefreshToken = `r${Number(idp.validRefreshToken.slice(1)) + 1}`
+        return jsonResponse({ access_token: 'a2', refresh_token: idp.validRefreshToken, expires_in: 3600, id_token: await issueIdToken() })
+      })
+    }
+    return idp
+  }
+
+  it('should validate the ID token of each response when login and refresh overlap', async () => {
+    // Refresh response arrives while login is storing its refresh token
+    let releaseWrites!: () => void
+    const db = createFakeIndexedDB(new Promise<void>(resolve => { releaseWrites = resolve }))
+    vi.stubGlobal('indexedDB', db)
+    const idp = await createIdp('https://idp.example.com')
+    vi.stubGlobal('fetch', idp.fetch)
+    const provider = createOidcProvider({ issuer: idp.issuer, clientId: 'spa', redirectUri: 'https://app.example.com/callback' })
+
+    const login = provider.login({ code: 'c', codeVerifier: 'v', nonce: 'n-1' })
+    await vi.waitFor(() => expect(db.records.has('refreshToken')).toBe(true))
+    const refresh = await provider.refreshToken('r0')
+    releaseWrites()
+
+    // Refresh without an ID token keeps the current user - and never sees the login's token
+    expect(refresh.ok && refresh.data).toEqual({ token: 'a2', expiresAt: expect.any(Number) })
+    const result = await login
+    expect(result.ok && result.data).toMatchObject({ token: 'a1', user: { sub: 'u1' } })
+  })
+
+  it('should keep a refresh retryable when the JWKS cannot be fetched', async () => {
+    const db = createFakeIndexedDB()
+    db.records.set('refreshToken', { key: 'refreshToken', value: 'r1' })
+    vi.stubGlobal('indexedDB', db)
+    const idp = await createIdp('https://idp-jwks-down.example.com', { rotateRefreshToken: true })
+    vi.stubGlobal('fetch', idp.fetch)
+    const provider = createOidcProvider({ issuer: idp.issuer, clientId: 'spa', redirectUri: 'https://app.example.com/callback' })
+
+    idp.jwksDown = true
+    const failed = await provider.refreshToken('r1')
+
+    // Transient - the worker retries and keeps the session
+    const code = failed.ok ? undefined : failed.errors[0]?.code
+    expect(code).toBe(ERROR_CODES.NETWORK_ERROR)
+    expect(isDefinitiveRefreshFailure(code!, undefined, resolveRefreshRetry())).toBe(false)
+    expect(db.records.get('refreshToken')?.value).toBe('r2')
+
+    // Worker still holds r1, already rotated by the IdP - the retry uses the stored r2
+    idp.jwksDown = false
+    const retried = await provider.refreshToken('r1')
+    expect(retried.ok && retried.data).toMatchObject({ token: 'a2', refreshToken: 'r3', user: { sub: 'u1' } })
+  })
+
+  it('should send the ID token as id_token_hint on RP-initiated logout', async () => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDB())
+    const idp = await createIdp('https://idp-logout.example.com')
+    vi.stubGlobal('fetch', idp.fetch)
+    const provider = createOidcProvider({
+      issuer: idp.issuer,
+      clientId: 'spa',
+      redirectUri: 'https://app.example.com/callback',
+      endSession: true,
+      postLogoutRedirectUri: 'https://app.example.com/'
+    })
+
+    await provider.login({ code: 'c', codeVerifier: 'v', nonce: 'n-1' })
+    const result = await provider.logout()
+
+    const url = new URL((result.ok && result.data.redirectUrl) || '')
+    expect(`${url.origin}${url.pathname}`).toBe(`${idp.issuer}/logout`)
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      id_token_hint: idp.issuedIdToken,
+      client_id: 'spa',
+      post_logout_redirect_uri: 'https://app.example.com/'
+    })
+  })
+})
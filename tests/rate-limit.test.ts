@@ -0,0 +1,118 @@
+/**
+ * Rate limiter tests
+ *
+ * Tests token-bucket refill, rule matching (per host / shared pattern)
+ * and adaptation to RateLimit-* headers used by the client queue.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createRateLimiter, parseRateLimitHeaders } from '../src/utils/rate-limit'
+
+const NOW = Date.parse('2026-03-01T12:00:00Z')
+
+describe('parseRateLimitHeaders', () => {
+  it('should parse IETF draft headers with window', () => {
+    expect(parseRateLimitHeaders({
+      'ratelimit-limit': '100, 100;w=60',
+      'ratelimit-remaining': '42',
+      'ratelimit-reset': '30'
+    }, NOW)).toEqual({ limit: 100, window: 60_000, remaining: 42, reset: 30_000 })
+  })
+
+  it('should fall back to X-RateLimit-* with epoch reset', () => {
+    expect(parseRateLimitHeaders({
+      'x-ratelimit-limit': '5000',
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(NOW / 1000 + 10)
+    }, NOW)).toEqual({ limit: 5000, remaining: 0, reset: 10_000 })
+  })
+
+  it('should read window from RateLimit-Policy', () => {
+    expect(parseRateLimitHeaders({ 'ratelimit-limit': '10', 'ratelimit-policy': '10;w=1' }, NOW).window).toBe(1000)
+    expect(parseRateLimitHeaders({}, NOW)).toEqual({})
+  })
+})
+
+describe('createRateLimiter', () => {
+  it('should allow bursts up to limit and refill over interval', () => {
+    const limiter = createRateLimiter([{ limit: 2, interval: 1000 }])
+    const url = 'https://api.example.com/a'
+
+    expect(limiter.acquire(url, NOW)).toBe(0)
+    expect(limiter.acquire(url, NOW)).toBe(0)
+    expect(limiter.acquire(url, NOW)).toBe(500)
+    expect(limiter.acquire(url, NOW + 500)).toBe(0)
+  })
+
+  it('should keep one bucket per host for host rules', () => {
+    const limiter = createRateLimiter([{ match: '*.example.com', limit: 1 }])
+
+    expect(limiter.acquire('https://a.example.com/x', NOW)).toBe(0)
+    expect(limiter.acquire('https://b.example.com/x', NOW)).toBe(0)
+    expect(limiter.acquire('https://a.example.com/y', NOW)).toBeGreaterThan(0)
+    expect(limiter.acquire('https://other.com/x', NOW)).toBe(0)
+  })
+
+  it('should share one bucket for URL prefix and RegExp rules', () => {
+    const limiter = createRateLimiter([
+      { match: 'https://api.example.com/search', limit: 1, interval: 60_000 },
+      { match: /\/bulk\//, limit: 1, interval: 60_000 }
+    ])
+
+    expect(limiter.acquire('https://api.example.com/search?q=a', NOW)).toBe(0)
+    expect(limiter.acquire('https://api.example.com/search?q=b', NOW)).toBe(60_000)
+    expect(limiter.acquire('https://a.com/bulk/1', NOW)).toBe(0)
+    expect(limiter.acquire('https://b.com/bulk/2', NOW)).toBe(60_000)
+    expect(limiter.acquire('https://api.example.com/users', NOW)).toBe(0)
+  })
+
+  it('should use the first matching rule', () => {
+    const limiter = createRateLimiter([
+      { match: 'api.example.com:8443', limit: 1, interval: 1000 },
+      { limit: 100 }
+    ])
+    expect(limiter.acquire('https://api.example.com:8443/a', NOW)).toBe(0)
+    expect(limiter.acquire('https://api.example.com:8443/a', NOW)).toBe(1000)
+    expect(limiter.acquire('https://api.example.com/a', NOW)).toBe(0)
+  })
+
+  it('should only adapt adaptive rules', () => {
+    const limiter = createRateLimiter([{ match: 'static.example.com', limit: 5 }, { limit: 5, adaptive: true }])
+    const url = 'https://static.example.com/a'
+    limiter.observe(url, 429, { 'retry-after': '10' }, NOW)
+
+    expect(limiter.isAdaptive(url)).toBe(false)
+    expect(limiter.isAdaptive('https://api.example.com/a')).toBe(true)
+    expect(limiter.acquire(url, NOW)).toBe(0)
+  })
+
+  it('should follow remaining and pause until reset when exhausted', () => {
+    const limiter = createRateLimiter([{ limit: 10, adaptive: true }])
+    const url = 'https://api.example.com/a'
+
+    limiter.observe(url, 200, { 'ratelimit-limit': '10', 'ratelimit-remaining': '1', 'ratelimit-reset': '5' }, NOW)
+    expect(limiter.acquire(url, NOW)).toBe(0)
+    expect(limiter.acquire(url, NOW)).toBeGreaterThan(0)
+
+    limiter.observe(url, 200, { 'ratelimit-remaining': '0', 'ratelimit-reset': '5' }, NOW)
+    expect(limiter.acquire(url, NOW + 1000)).toBe(4000)
+  })
+
+  it('should pause on 429 until Retry-After', () => {
+    const limiter = createRateLimiter([{ limit: 10, adaptive: true }])
+    const url = 'https://api.example.com/a'
+
+    limiter.observe(url, 429, { 'retry-after': '3' }, NOW)
+    expect(limiter.acquire(url, NOW + 1000)).toBe(2000)
+    expect(limiter.acquire(url, NOW + 3000)).toBe(0)
+  })
+
+  it('should adopt server limit and window', () => {
+    const limiter = createRateLimiter([{ limit: 100, interval: 1000, adaptive: true }])
+    const url = 'https://api.example.com/a'
+
+    limiter.observe(url, 200, { 'ratelimit-limit': '2;w=10', 'ratelimit-remaining': '0' }, NOW)
+    expect(limiter.acquire(url, NOW + 5000)).toBe(0)
+    expect(limiter.acquire(url, NOW + 5000)).toBe(5000)
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Refresh policy tests
+ *
+ * Tests classification of refresh failures, retry backoff and background refresh timing
+ */
+import { describe, it, expect } from 'vitest'
+import { resolveRefreshRetry, isDefinitiveRefreshFailure, getRefreshRetryDelay, getBackgroundRefreshDelay } from '../src/utils/refresh-policy'
+
+describe('Refresh Policy', () => {
+  const policy = resolveRefreshRetry()
+
+  describe('resolveRefreshRetry', () => {
+    it('should apply defaults', () => {
+      expect(policy).toEqual({
+        maxAttempts: 2,
+        delay: 1000,
+        backoff: 2,
+        maxDelay: 10_000,
+        definitiveStatuses: [400, 401, 403]
+      })
+    })
+
+    it('should keep overrides', () => {
+      expect(resolveRefreshRetry({ maxAttempts: 0, definitiveStatuses: [401] })).toMatchObject({
+        maxAttempts: 0,
+        definitiveStatuses: [401]
+      })
+    })
+  })
+
+  describe('isDefinitiveRefreshFailure', () => {
+    it('should treat rejection statuses as definitive', () => {
+      expect(isDefinitiveRefreshFailure('TOKEN_REFRESH_FAILED', 400, policy)).toBe(true)
+      expect(isDefinitiveRefreshFailure('TOKEN_REFRESH_FAILED', 401, policy)).toBe(true)
+      expect(isDefinitiveRefreshFailure('TOKEN_REFRESH_FAILED', 403, policy)).toBe(true)
+    })
+
+    it('should treat other statuses as transient', () => {
+      expect(isDefinitiveRefreshFailure('TOKEN_REFRESH_FAILED', 500, policy)).toBe(false)
+      expect(isDefinitiveRefreshFailure('TOKEN_REFRESH_FAILED', 503, policy)).toBe(false)
+      expect(isDefinitiveRefreshFailure('TOKEN_REFRESH_FAILED', 429, policy)).toBe(false)
+    })
+
+    it('should treat network errors and timeouts as transient', () => {
+      expect(isDefinitiveRefreshFailure('NETWORK_ERROR', undefined, policy)).toBe(false)
+      expect(isDefinitiveRefreshFailure('REQUEST_TIMEOUT', undefined, policy)).toBe(false)
+    })
+
+    it('should treat other errors without status as definitive', () => {
+      expect(isDefinitiveRefreshFailure('TOKEN_REFRESH_FAILED', undefined, policy)).toBe(true)
+      expect(isDefinitiveRefreshFailure('ID_TOKEN_INVALID', undefined, policy)).toBe(true)
+    })
+
+    it('should respect custom definitive statuses', () => {
+      const custom = resolveRefreshRetry({ definitiveStatuses: [401, 419] })
+      expect(isDefinitiveRefreshFailure('TOKEN_REFRESH_FAILED', 419, custom)).toBe(true)
+      expect(isDefinitiveRefreshFailure('TOKEN_REFRESH_FAILED', 400, custom)).toBe(false)
+    })
+  })
+
+  describe('getRefreshRetryDelay', () => {
+    it('should back off exponentially up to maxDelay', () => {
+      expect(getRefreshRetryDelay(0, policy)).toBe(1000)
+      expect(getRefreshRetryDelay(1, policy)).toBe(2000)
+      expect(getRefreshRetryDelay(2, policy)).toBe(4000)
+      expect(getRefreshRetryDelay(10, policy)).toBe(10_000)
+    })
+  })
+
+  describe('getBackgroundRefreshDelay', () => {
+    it('should refresh refreshEarlyMs before expiry', () => {
+      expect(getBackgroundRefreshDelay(3_600_000, 60_000)).toBe(3_540_000)
+    })
+
+    it('should refresh halfway through lifetimes shorter than refreshEarlyMs', () => {
+      // 30s token with refreshEarlyMs 60s: inside the window right after refresh
+      expect(getBackgroundRefreshDelay(30_000, 60_000)).toBe(15_000)
+      expect(getBackgroundRefreshDelay(60_000, 60_000)).toBe(30_000)
+    })
+
+    it('should keep the minimum delay and the timer limit', () => {
+      expect(getBackgroundRefreshDelay(4_000, 60_000)).toBe(5_000)
+      expect(getBackgroundRefreshDelay(-1_000, 60_000)).toBe(5_000)
+      expect(getBackgroundRefreshDelay(100 * 86_400_000, 60_000)).toBe(2_147_483_647)
+    })
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Server-Sent Events tests
+ *
+ * Tests the worker-side SSE parser and the main-thread event source handle
+ */
+import { describe, it, expect, vi } from 'vitest'
+import { createSseParser } from '../src/utils/sse'
+import { FetchGuardEventSource } from '../src/event-source'
+import type { SseEvent } from '../src/types'
+
+function parse(chunks: string[], lastEventId?: string) {
+  const events: SseEvent[] = []
+  const retries: number[] = []
+  const parser = createSseParser({
+    onEvent: (event) => events.push(event),
+    onRetry: (ms) => retries.push(ms)
+  }, lastEventId)
+  chunks.forEach(chunk => parser.feed(chunk))
+  return { events, retries, parser }
+}
+
+describe('SSE Parser', () => {
+  it('should dispatch message events on blank line', () => {
+    const { events } = parse(['data: hello\n\n'])
+
+    expect(events).toEqual([{ type: 'message', data: 'hello', lastEventId: '' }])
+  })
+
+  it('should join multi-line data with newlines', () => {
+    const { events } = parse(['data: line 1\ndata: line 2\n\n'])
+
+    expect(events[0].data).toBe('line 1\nline 2')
+  })
+
+  it('should use event field as type and reset it after dispatch', () => {
+    const { events } = parse(['event: notification\ndata: a\n\ndata: b\n\n'])
+
+    expect(events.map(e => e.type)).toEqual(['notification', 'message'])
+  })
+
+  it('should handle lines split across chunks and all line endings', () => {
+    const { events } = parse(['da', 'ta: one\r', '\n\r\n', 'data: two\r\rdata: three\n', '\n'])
+
+    expect(events.map(e => e.data)).toEqual(['one', 'two', 'three'])
+  })
+
+  it('should ignore comments, unknown fields and empty data', () => {
+    const { events } = parse([': keep-alive\n\nfoo: bar\nevent: ping\n\n'])
+
+    expect(events).toEqual([])
+  })
+
+  it('should only strip one leading space from values', () => {
+    const { events } = parse(['data:  indented\ndata:tight\n\n'])
+
+    expect(events[0].data).toBe(' indented\ntight')
+  })
+
+  it('should track last event id across events', () => {
+    const { events, parser } = parse(['id: 1\ndata: a\n\ndata: b\n\nid\ndata: c\n\n'], '0')
+
+    expect(events.map(e => e.lastEventId)).toEqual(['1', '1', ''])
+    expect(parser.lastEventId).toBe('')
+  })
+
+  it('should keep initial last event id until server sends one', () => {
+    const { parser } = parse(['data: a\n\n'], '42')
+
+    expect(parser.lastEventId).toBe('42')
+  })
+
+  it('should report numeric retry and ignore invalid values', () => {
+    const { retries } = parse(['retry: 5000\nretry: soon\n\n'])
+
+    expect(retries).toEqual([5000])
+  })
+
+  it('should strip leading BOM', () => {
+    const { events } = parse(['﻿data: x\n\n'])
+
+    expect(events[0].data).toBe('x')
+  })
+
+  it('should not dispatch incomplete event', () => {
+    const { events } = parse(['data: partial\n'])
+
+    expect(events).toEqual([])
+  })
+
+  it('should drop event cut mid-stream on reset and keep last event id', () => {
+    const { events, parser } = parse(['id: 1\ndata: done\n\n', 'event: update\ndata: half\ndata: cu'])
+
+    parser.reset()
+    parser.feed('\ufeffdata: fresh\n\n')
+
+    expect(events).toEqual([
+      { type: 'message', data: 'done', lastEventId: '1' },
+      { type: 'message', data: 'fresh', lastEventId: '1' }
+    ])
+    expect(parser.lastEventId).toBe('1')
+  })
+})
+
+describe('FetchGuardEventSource', () => {
+  it('should dispatch events to listeners of their type', () => {
+    const source = new FetchGuardEventSource<'update'>('sse_1', 'https://api.example.com/feed', vi.fn())
+    const onUpdate = vi.fn()
+    const onMessage = vi.fn()
+    source.on('update', onUpdate)
+    source.on('message', onMessage)
+
+    source.handleEvent({ type: 'update', data: '1', lastEventId: '' })
+
+    expect(onUpdate).toHaveBeenCalledWith({ type: 'update', data: '1', lastEventId: '' })
+    expect(onMessage).not.toHaveBeenCalled()
+  })
+
+  it('should track state through open, reconnect and final error', () => {
+    const source = new FetchGuardEventSource('sse_1', 'https://api.example.com/feed', vi.fn())
+    expect(source.readyState).toBe('connecting')
+
+    source.handleOpen()
+    expect(source.readyState).toBe('open')
+
+    source.handleError({ message: 'Stream ended', reconnectIn: 3000 })
+    expect(source.readyState).toBe('connecting')
+
+    source.handleError({ message: 'HTTP 403', status: 403 })
+    expect(source.readyState).toBe('closed')
+  })
+
+  it('should call onClose once and stop dispatching after close', () => {
+    const onClose = vi.fn()
+    const source = new FetchGuardEventSource('sse_1', 'https://api.example.com/feed', onClose)
+    const listener = vi.fn()
+    source.on('message', listener)
+
+    source.close()
+    source.close()
+    source.handleEvent({ type: 'message', data: 'late', lastEventId: '' })
+
+    expect(onClose).toHaveBeenCalledTimes(1)
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should unsubscribe listeners', () => {
+    const source = new FetchGuardEventSource('sse_1', 'https://api.example.com/feed', vi.fn())
+    const listener = vi.fn()
+    const unsubscribe = source.on('message', listener)
+
+    unsubscribe()
+    source.handleEvent({ type: 'message', data: 'x', lastEventId: '' })
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
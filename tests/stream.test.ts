@@ -0,0 +1,177 @@
+/**
+ * Stream port tests
+ *
+ * Tests chunk transfer, backpressure and cancellation between
+ * pipeToPort (worker side) and readableFromPort (main side),
+ * and body reading with download progress
+ */
+import { describe, it, expect, vi } from 'vitest'
+import { pipeToPort, readableFromPort, getBodyLength, readBodyWithProgress } from '../src/utils/stream'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function sourceOf(chunks: string[]): { stream: ReadableStream<Uint8Array>; pulled: () => number } {
+  let index = 0
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]))
+      } else {
+        controller.close()
+      }
+    }
+  }, { highWaterMark: 0 })
+  return { stream, pulled: () => index }
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  let text = ''
+  const reader = stream.getReader()
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    text += decoder.decode(chunk.value, { stream: true })
+  }
+  return text
+}
+
+function tick(ms = 20): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+describe('Stream Port', () => {
+  it('should deliver all chunks in order and end', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const onDone = vi.fn()
+    pipeToPort(sourceOf(['hello', ' ', 'world']).stream, port2, onDone)
+
+    const body = readableFromPort(port1, vi.fn())
+
+    expect(await readAll(body)).toBe('hello world')
+    expect(onDone).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not read ahead of the consumer', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const source = sourceOf(['a', 'b', 'c', 'd', 'e'])
+    pipeToPort(source.stream, port2)
+
+    const reader = readableFromPort(port1, vi.fn()).getReader()
+    const first = await reader.read()
+    expect(decoder.decode(first.value)).toBe('a')
+
+    await tick()
+    // Stream queue holds at most one chunk ahead of the reader
+    expect(source.pulled()).toBeLessThanOrEqual(2)
+
+    await reader.cancel()
+  })
+
+  it('should propagate source errors to the reader', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const source = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.error(new Error('connection reset'))
+      }
+    })
+    const onDone = vi.fn()
+    pipeToPort(source, port2, onDone)
+
+    const reader = readableFromPort(port1, vi.fn()).getReader()
+
+    await expect(reader.read()).rejects.toThrow('connection reset')
+    expect(onDone).toHaveBeenCalledTimes(1)
+  })
+
+  it('should call onCancel when consumer cancels', async () => {
+    const { port1, port2 } = new MessageChannel()
+    pipeToPort(sourceOf(['a', 'b']).stream, port2)
+    const onCancel = vi.fn()
+
+    const body = readableFromPort(port1, onCancel)
+    await body.cancel()
+
+    expect(onCancel).toHaveBeenCalledTimes(1)
+  })
+
+  it('should close the port and call onDone when cancelled with no read pending', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const cancelSource = vi.fn()
+    const source = new ReadableStream<Uint8Array>({ pull() {}, cancel: cancelSource }, { highWaterMark: 0 })
+    const onDone = vi.fn()
+    const controller = new AbortController()
+    const closed = new Promise(resolve => port1.addEventListener('close', resolve))
+    port1.start()
+    pipeToPort(source, port2, onDone, controller.signal)
+
+    // Consumer never granted credit
+    controller.abort()
+
+    expect(onDone).toHaveBeenCalledTimes(1)
+    await closed
+    expect(cancelSource).toHaveBeenCalledTimes(1)
+  })
+
+  it('should error stream and call onCancel when signal aborts', async () => {
+    const { port1, port2 } = new MessageChannel()
+    pipeToPort(sourceOf(['a', 'b', 'c']).stream, port2)
+    const onCancel = vi.fn()
+    const controller = new AbortController()
+
+    const reader = readableFromPort(port1, onCancel, controller.signal).getReader()
+    await reader.read()
+    controller.abort()
+
+    await expect(reader.read()).rejects.toThrow()
+    expect(onCancel).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not call onCancel after stream ended', async () => {
+    const { port1, port2 } = new MessageChannel()
+    pipeToPort(sourceOf(['done']).stream, port2)
+    const onCancel = vi.fn()
+    const controller = new AbortController()
+
+    const body = readableFromPort(port1, onCancel, controller.signal)
+    await readAll(body)
+    controller.abort()
+
+    expect(onCancel).not.toHaveBeenCalled()
+  })
+})
+
+describe('Download Progress', () => {
+  it('should read Content-Length as total', () => {
+    expect(getBodyLength(new Headers({ 'content-length': '1024' }))).toBe(1024)
+    expect(getBodyLength(new Headers({ 'content-length': '10', 'content-encoding': 'identity' }))).toBe(10)
+  })
+
+  it('should return null when length is missing, invalid or compressed', () => {
+    expect(getBodyLength(new Headers())).toBeNull()
+    expect(getBodyLength(new Headers({ 'content-length': 'abc' }))).toBeNull()
+    expect(getBodyLength(new Headers({ 'content-length': '10', 'content-encoding': 'gzip' }))).toBeNull()
+  })
+
+  it('should report progress per chunk and return whole body', async () => {
+    const response = new Response(sourceOf(['abc', 'defg']).stream, {
+      headers: { 'content-length': '7' }
+    })
+    const onProgress = vi.fn()
+
+    const buffer = await readBodyWithProgress(response, onProgress)
+
+    expect(decoder.decode(buffer)).toBe('abcdefg')
+    expect(onProgress.mock.calls.map(call => call[0])).toEqual([
+      { loaded: 3, total: 7 },
+      { loaded: 7, total: 7 }
+    ])
+  })
+
+  it('should report zero progress for empty body', async () => {
+    const onProgress = vi.fn()
+
+    const buffer = await readBodyWithProgress(new Response(null, { status: 204 }), onProgress)
+
+    expect(buffer.byteLength).toBe(0)
+    expect(onProgress).toHaveBeenCalledWith({ loaded: 0, total: null })
+  })
+})
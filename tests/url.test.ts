@@ -0,0 +1,154 @@
+/**
+ * URL utilities tests
+ *
+ * Tests baseUrl resolution and query param serialization
+ * used by FetchGuardClient before sending requests to worker.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { isAbsoluteUrl, joinUrl, serializeParams, appendParams, buildUrl, buildPath, getOrigin } from '../src/utils/url'
+
+describe('isAbsoluteUrl', () => {
+  it('should detect absolute URLs', () => {
+    expect(isAbsoluteUrl('https://api.example.com')).toBe(true)
+    expect(isAbsoluteUrl('http://localhost:3000/api')).toBe(true)
+    expect(isAbsoluteUrl('//cdn.example.com/file')).toBe(true)
+  })
+
+  it('should detect relative URLs', () => {
+    expect(isAbsoluteUrl('/users')).toBe(false)
+    expect(isAbsoluteUrl('users')).toBe(false)
+    expect(isAbsoluteUrl('?page=1')).toBe(false)
+  })
+})
+
+describe('joinUrl', () => {
+  it('should preserve base path', () => {
+    expect(joinUrl('https://api.example.com/v1', 'users')).toBe('https://api.example.com/v1/users')
+    expect(joinUrl('https://api.example.com/v1', '/users')).toBe('https://api.example.com/v1/users')
+  })
+
+  it('should avoid duplicate slashes', () => {
+    expect(joinUrl('https://api.example.com/v1/', '/users')).toBe('https://api.example.com/v1/users')
+    expect(joinUrl('https://api.example.com/', 'users')).toBe('https://api.example.com/users')
+  })
+
+  it('should append query-only paths without slash', () => {
+    expect(joinUrl('https://api.example.com/users/', '?page=1')).toBe('https://api.example.com/users?page=1')
+  })
+
+  it('should return base for empty path', () => {
+    expect(joinUrl('https://api.example.com/v1', '')).toBe('https://api.example.com/v1')
+  })
+})
+
+describe('serializeParams', () => {
+  it('should serialize scalar values', () => {
+    expect(serializeParams({ page: 2, q: 'hello world', active: true })).toBe('page=2&q=hello%20world&active=true')
+  })
+
+  it('should skip null and undefined values', () => {
+    expect(serializeParams({ a: 1, b: null, c: undefined })).toBe('a=1')
+  })
+
+  it('should serialize arrays with repeat format by default', () => {
+    expect(serializeParams({ ids: ['1', '2'] })).toBe('ids=1&ids=2')
+  })
+
+  it('should serialize arrays with brackets format', () => {
+    expect(serializeParams({ ids: [1, 2] }, 'brackets')).toBe('ids[]=1&ids[]=2')
+  })
+
+  it('should serialize arrays with comma format', () => {
+    expect(serializeParams({ ids: ['a b', 'c'] }, 'comma')).toBe('ids=a%20b,c')
+  })
+
+  it('should serialize arrays with index format', () => {
+    expect(serializeParams({ ids: ['x', 'y'] }, 'index')).toBe('ids[0]=x&ids[1]=y')
+  })
+
+  it('should omit empty arrays', () => {
+    expect(serializeParams({ ids: [] }, 'comma')).toBe('')
+    expect(serializeParams({ ids: [] })).toBe('')
+  })
+
+  it('should encode special characters in keys and values', () => {
+    expect(serializeParams({ 'a&b': 'c=d' })).toBe('a%26b=c%3Dd')
+  })
+})
+
+describe('appendParams', () => {
+  it('should add query string', () => {
+    expect(appendParams('https://api.example.com/users', { page: 1 })).toBe('https://api.example.com/users?page=1')
+  })
+
+  it('should merge with existing query', () => {
+    expect(appendParams('https://api.example.com/users?sort=name', { page: 1 })).toBe('https://api.example.com/users?sort=name&page=1')
+  })
+
+  it('should keep hash at the end', () => {
+    expect(appendParams('https://example.com/a#top', { page: 1 })).toBe('https://example.com/a?page=1#top')
+  })
+
+  it('should return URL unchanged when params are empty', () => {
+    expect(appendParams('https://example.com/a', {})).toBe('https://example.com/a')
+  })
+})
+
+describe('buildUrl', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should ignore baseUrl for absolute URLs', () => {
+    expect(buildUrl('https://other.com/x', { baseUrl: 'https://api.example.com' })).toBe('https://other.com/x')
+  })
+
+  it('should join relative paths with baseUrl', () => {
+    expect(buildUrl('/users', { baseUrl: 'https://api.example.com/v1' })).toBe('https://api.example.com/v1/users')
+  })
+
+  it('should resolve against page location when no baseUrl', () => {
+    vi.stubGlobal('location', { href: 'https://app.example.com/dashboard/' })
+    expect(buildUrl('/api/users')).toBe('https://app.example.com/api/users')
+  })
+
+  it('should resolve relative baseUrl against page location', () => {
+    vi.stubGlobal('location', { href: 'https://app.example.com/dashboard/' })
+    expect(buildUrl('users', { baseUrl: '/api' })).toBe('https://app.example.com/api/users')
+  })
+
+  it('should append params after resolving', () => {
+    expect(buildUrl('/users', {
+      baseUrl: 'https://api.example.com',
+      params: { role: ['admin', 'owner'] },
+      arrayFormat: 'brackets'
+    })).toBe('https://api.example.com/users?role[]=admin&role[]=owner')
+  })
+})
+
+describe('buildPath', () => {
+  it('should fill params and encode values', () => {
+    expect(buildPath('/users/:id/posts/:postId', { id: 'a b/c', postId: 7 })).toBe('/users/a%20b%2Fc/posts/7')
+  })
+
+  it('should leave templates without params unchanged', () => {
+    expect(buildPath('/health')).toBe('/health')
+    expect(buildPath('https://api.example.com:8443/users/:id', { id: 1 })).toBe('https://api.example.com:8443/users/1')
+  })
+
+  it('should throw on missing param', () => {
+    expect(() => buildPath('/users/:id', {})).toThrow('Missing path param "id"')
+  })
+})
+
+describe('getOrigin', () => {
+  it('should return scheme, host and port', () => {
+    expect(getOrigin('https://api.example.com/v1/users?x=1')).toBe('https://api.example.com')
+    expect(getOrigin('http://localhost:8080/a')).toBe('http://localhost:8080')
+  })
+
+  it('should return relative URLs unchanged without a page location', () => {
+    expect(getOrigin('/relative')).toBe('/relative')
+  })
+})
@@ -0,0 +1,813 @@
+/**
+ * Worker message handler tests
+ *
+ * Each loadWorker() call evaluates the worker module against a fake global scope,
+ * so two calls behave like the workers of two tabs (dedicated mode).
+ * loadSharedWorker() evaluates it as a shared worker that tabs connect() to.
+ * Storage, Web Locks and BroadcastChannel are shared fakes.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ok, type Result } from 'ts-micro-result'
+import { MSG, type MainToWorkerMessage } from '../src/messages'
+import { readableFromPort } from '../src/utils/stream'
+import type { AuthStrategy, RefreshTokenStorage, TokenInfo, WorkerConfig } from '../src/types'
+
+interface PostedMessage {
+  type: string
+  id?: string
+  payload?: any
+}
+
+/**
+ * Stands in for DedicatedWorkerGlobalScope and shared worker MessagePorts
+ */
+class FakePort {
+  posted: PostedMessage[] = []
+  onmessage: ((event: { data: MainToWorkerMessage }) => Promise<void>) | null = null
+  private listeners = new Map<string, Array<() => void>>()
+
+  postMessage(message: PostedMessage): void {
+    this.posted.push(message)
+  }
+
+  addEventListener(type: string, listener: () => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener])
+  }
+
+  start(): void {}
+
+  /** Fire event listeners (e.g. 'online' on the worker scope) */
+  emit(type: string): void {
+    this.listeners.get(type)?.forEach(listener => listener())
+  }
+
+  /** Tab went away (MessagePort close event) */
+  close(): void {
+    this.emit('close')
+  }
+
+  ofType(type: string): PostedMessage[] {
+    return this.posted.filter(message => message.type === type)
+  }
+}
+
+/**
+ * In-memory BroadcastChannel, delivered on a later task like the real one
+ */
+class FakeChannel {
+  static open = new Set<FakeChannel>()
+  static log: string[] = []
+  onmessage: ((event: { data: unknown }) => void) | null = null
+
+  constructor(readonly name: string) {
+    FakeChannel.open.add(this)
+  }
+
+  postMessage(data: { type: string }): void {
+    FakeChannel.log.push(`notify:${data.type}`)
+    for (const channel of FakeChannel.open) {
+      if (channel !== this && channel.name === this.name) {
+        setTimeout(() => channel.onmessage?.({ data }), 0)
+      }
+    }
+  }
+
+  close(): void {
+    FakeChannel.open.delete(this)
+  }
+}
+
+/**
+ * Web Locks stand-in: one FIFO queue, logs each release
+ */
+function createLocks(log: string[]) {
+  let tail: Promise<unknown> = Promise.resolve()
+  return {
+    request<T>(_name: string, operation: () => Promise<T>): Promise<T> {
+      const run = tail.then(async () => {
+        try {
+          return await operation()
+        } finally {
+          log.push('release')
+        }
+      })
+      tail = run.catch(() => {})
+      return run
+    }
+  }
+}
+
+/**
+ * Minimal IndexedDB stand-in for the offline queue store (requests succeed on a microtask)
+ */
+function createFakeIndexedDB() {
+  const stores = new Map<string, { keyPath: string; records: Map<unknown, any> }>()
+  const request = (run: () => unknown) => {
+    const req: { result?: unknown; onsuccess?: () => void; onupgradeneeded?: () => void } = {}
+    queueMicrotask(() => {
+      req.result = run()
+      req.onupgradeneeded?.()
+      req.onsuccess?.()
+    })
+    return req
+  }
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string, { keyPath }: { keyPath: string }) => {
+      stores.set(name, { keyPath, records: new Map() })
+    },
+    transaction: () => ({
+      objectStore: (name: string) => {
+        const { keyPath, records } = stores.get(name)!
+        return {
+          getAll: () => request(() => [...records.values()]),
+          get: (key: unknown) => request(() => records.get(key)),
+          put: (value: any) => request(() => { records.set(value[keyPath], value) }),
+          delete: (key: unknown) => request(() => { records.delete(key) })
+        }
+      }
+    })
+  }
+  return { open: () => request(() => db) }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function createMemoryStorage(initial: string | null = null): RefreshTokenStorage & { value: string | null } {
+  return {
+    value: initial,
+    async get() { return this.value },
+    async set(token) { this.value = token }
+  }
+}
+
+const baseConfig: WorkerConfig = {
+  allowedDomains: [],
+  refreshEarlyMs: 60_000,
+  defaultHeaders: {}
+}
+
+interface WorkerOptions {
+  strategy: AuthStrategy
+  storage?: RefreshTokenStorage
+  config?: Partial<WorkerConfig>
+  customMethods?: Record<string, (...args: unknown[]) => Promise<Result<TokenInfo>>>
+}
+
+/**
+ * Evaluate a fresh worker module on scope, with a provider registered as 'test'
+ */
+async function importWorker(scope: object, options: WorkerOptions) {
+  vi.resetModules()
+  vi.stubGlobal('self', scope)
+  const worker = await import('../src/worker')
+
+  worker.registerProvider('test', worker.createProvider({
+    refreshStorage: options.storage,
+    parser: { parse: async (response: Response) => (await response.json()) as TokenInfo },
+    strategy: options.strategy,
+    customMethods: options.customMethods
+  }))
+}
+
+/**
+ * Deliver messages to the worker through port, resolves when handled
+ */
+function createSender(port: FakePort) {
+  let nextId = 0
+  return (message: { type: string; payload?: unknown; id?: string }) =>
+    port.onmessage!({ data: { id: message.id ?? `m${++nextId}`, ...message } as MainToWorkerMessage })
+}
+
+function setupMessage(options: WorkerOptions) {
+  return { type: MSG.SETUP, payload: { config: { ...baseConfig, ...options.config }, providerConfig: 'test' } }
+}
+
+/**
+ * Load a fresh dedicated worker (one tab) and set it up
+ */
+async function loadWorker(options: WorkerOptions) {
+  const scope = new FakePort()
+  await importWorker(scope, options)
+  const send = createSender(scope)
+
+  await send(setupMessage(options))
+  expect(scope.ofType(MSG.READY)).toHaveLength(1)
+
+  return { scope, send }
+}
+
+/**
+ * Load a fresh shared worker, tabs connect with their own port
+ */
+async function loadSharedWorker(options: WorkerOptions) {
+  class SharedWorkerGlobalScope {
+    onconnect: ((event: { ports: FakePort[] }) => void) | null = null
+    addEventListener(): void {}
+  }
+  vi.stubGlobal('SharedWorkerGlobalScope', SharedWorkerGlobalScope)
+  const scope = new SharedWorkerGlobalScope()
+  await importWorker(scope, options)
+
+  return {
+    connect() {
+      const port = new FakePort()
+      scope.onconnect!({ ports: [port] })
+      return { port, send: createSender(port) }
+    }
+  }
+}
+
+function createStrategy(overrides: Partial<AuthStrategy> = {}): AuthStrategy {
+  return {
+    refresh: vi.fn(async () => jsonResponse({ token: 'refreshed', expiresAt: Date.now() + 3_600_000 })),
+    login: vi.fn(async () => jsonResponse({ token: 'a1', refreshToken: 'r1', expiresAt: Date.now() + 3_600_000 })),
+    logout: vi.fn(async () => jsonResponse({ token: null, refreshToken: null, user: null })),
+    exchangeToken: vi.fn(async () => jsonResponse({ token: 'exchanged', expiresAt: Date.now() + 3_600_000 })),
+    ...overrides
+  }
+}
+
+describe('Worker', () => {
+  let lockLog: string[]
+
+  beforeEach(() => {
+    lockLog = []
+    FakeChannel.open.clear()
+    FakeChannel.log = lockLog
+    vi.stubGlobal('BroadcastChannel', FakeChannel)
+    vi.stubGlobal('navigator', { onLine: true, locks: createLocks(lockLog) })
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({ ok: true })))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('cross-tab sync', () => {
+    it('should refresh with the token rotated by another tab while waiting for the lock', async () => {
+      const storage = createMemoryStorage()
+      // Server rotates on every refresh and rejects reuse of an old refresh token
+      let validToken = 'r1'
+      let rotations = 1
+      let releaseFirst!: () => void
+      const firstRefresh = new Promise<void>(resolve => { releaseFirst = resolve })
+
+      const refresh = vi.fn(async (token: string | null) => {
+        if (rotations === 1) await firstRefresh
+        if (token !== validToken) return jsonResponse({ error: 'reused' }, 401)
+        validToken = `r${++rotations}`
+        return jsonResponse({ token: `a${rotations}`, refreshToken: validToken, expiresAt: Date.now() + 3_600_000 })
+      })
+      // Both tabs sign in with r1 and an already expired access token
+      const strategy = createStrategy({
+        refresh,
+        login: vi.fn(async () => jsonResponse({ token: 'a1', refreshToken: 'r1', expiresAt: Date.now() - 1000 }))
+      })
+
+      const tabA = await loadWorker({ strategy, storage, config: { crossTabSync: true } })
+      const tabB = await loadWorker({ strategy, storage, config: { crossTabSync: true } })
+      await tabA.send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+      await tabB.send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      const fetchA = tabA.send({ type: MSG.FETCH, id: 'a', payload: { url: 'https://api.test/data' } })
+      await vi.waitFor(() => expect(refresh).toHaveBeenCalledTimes(1))
+      // Tab B waits for the lock held by tab A
+      const fetchB = tabB.send({ type: MSG.FETCH, id: 'b', payload: { url: 'https://api.test/data' } })
+      releaseFirst()
+      await Promise.all([fetchA, fetchB])
+
+      expect(refresh.mock.calls.map(([token]) => token)).toEqual(['r1', 'r2'])
+      expect(storage.value).toBe('r3')
+      expect(tabB.scope.ofType(MSG.SESSION_EXPIRED)).toHaveLength(0)
+      expect(tabB.scope.ofType(MSG.FETCH_RESULT)).toHaveLength(1)
+      // Other tabs are told before the lock is released
+      expect(lockLog).toEqual(['notify:refreshed', 'release', 'notify:refreshed', 'release'])
+    })
+
+    it('should sign out other tabs on logout', async () => {
+      const storage = createMemoryStorage()
+      const strategy = createStrategy()
+      const tabA = await loadWorker({ strategy, storage, config: { crossTabSync: true } })
+      const tabB = await loadWorker({ strategy, storage, config: { crossTabSync: true } })
+      await tabA.send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+      await tabB.send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      await tabA.send({ type: MSG.AUTH_CALL, payload: { method: 'logout', args: [] } })
+      await vi.waitFor(() => expect(tabB.scope.ofType(MSG.CROSS_TAB_LOGOUT)).toHaveLength(1))
+
+      expect(tabA.scope.ofType(MSG.CROSS_TAB_LOGOUT)).toHaveLength(0)
+      expect(tabB.scope.ofType(MSG.AUTH_STATE_CHANGED).at(-1)?.payload).toMatchObject({ authenticated: false })
+      // Tab B no longer sends the old token
+      await tabB.send({ type: MSG.FETCH, id: 'f', payload: { url: 'https://api.test/me' } })
+      expect(fetch).not.toHaveBeenCalled()
+      expect(tabB.scope.ofType(MSG.FETCH_ERROR)).toHaveLength(1)
+    })
+  })
+
+  describe('auth calls', () => {
+    it('should purge cached responses only when a call changes identity', async () => {
+      const { scope, send } = await loadWorker({
+        strategy: createStrategy(),
+        config: { cache: { defaultMaxAge: 60_000 } },
+        customMethods: {
+          updateProfile: async () => ok({ user: { name: 'Ann' } }),
+          verifyOtp: async () => ok({}),
+          loginWithPhone: async () => ok({ token: 'phone', expiresAt: Date.now() + 3_600_000 })
+        }
+      })
+      const getProfile = () => send({ type: MSG.FETCH, payload: { url: 'https://api.test/me' } })
+
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+      await getProfile()
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'updateProfile', args: [] } })
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'verifyOtp', args: ['123456'] } })
+      await getProfile()
+      expect(fetch).toHaveBeenCalledTimes(1)
+
+      // Custom sign-in issues a new token - next user must not see the cached profile
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'loginWithPhone', args: [] } })
+      await getProfile()
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(scope.ofType(MSG.FETCH_RESULT)).toHaveLength(3)
+    })
+
+    it('should keep queued mutations across custom calls that keep the identity', async () => {
+      vi.stubGlobal('indexedDB', createFakeIndexedDB())
+      ;(navigator as { onLine: boolean }).onLine = false
+      const { scope, send } = await loadWorker({
+        strategy: createStrategy(),
+        config: { offlineQueue: {} },
+        customMethods: {
+          updateProfile: async () => ok({ user: { name: 'Ann' } }),
+          verifyOtp: async () => ok({}),
+          loginWithPhone: async () => ok({ token: 'phone', expiresAt: Date.now() + 3_600_000 })
+        }
+      })
+      const queueEvents = () => scope.ofType(MSG.OFFLINE_QUEUE).map(message => message.payload.type)
+
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+      await send({ type: MSG.FETCH, payload: { url: 'https://api.test/notes', options: { method: 'POST', body: 'draft' } } })
+      expect(scope.ofType(MSG.FETCH_QUEUED)).toHaveLength(1)
+
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'updateProfile', args: [] } })
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'verifyOtp', args: ['123456'] } })
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(queueEvents()).toEqual(['queued'])
+
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'loginWithPhone', args: [] } })
+      await vi.waitFor(() => expect(queueEvents()).toEqual(['queued', 'dropped']))
+    })
+  })
+
+  describe('streaming', () => {
+    it('should reply STREAM_START and pipe the body to the stream port', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('hello world', { headers: { 'Content-Type': 'text/plain' } }))
+      const { scope, send } = await loadWorker({ strategy: createStrategy() })
+      const { port1, port2 } = new MessageChannel()
+
+      await send({ type: MSG.FETCH_STREAM, id: 's', payload: { url: 'https://api.test/file', options: { requiresAuth: false }, port: port2 } })
+
+      expect(scope.ofType(MSG.STREAM_START)).toEqual([
+        { type: MSG.STREAM_START, id: 's', payload: { status: 200, contentType: 'text/plain', headers: {} } }
+      ])
+      expect(await new Response(readableFromPort(port1, vi.fn())).text()).toBe('hello world')
+    })
+
+    it('should reply FETCH_ERROR and close the stream port when the request fails', async () => {
+      vi.mocked(fetch).mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      const { scope, send } = await loadWorker({ strategy: createStrategy() })
+      const { port1, port2 } = new MessageChannel()
+      const closed = new Promise(resolve => port1.addEventListener('close', resolve))
+      port1.start()
+
+      await send({ type: MSG.FETCH_STREAM, id: 's', payload: { url: 'https://api.test/file', options: { requiresAuth: false }, port: port2 } })
+
+      expect(scope.ofType(MSG.STREAM_START)).toHaveLength(0)
+      expect(scope.ofType(MSG.FETCH_ERROR)).toHaveLength(1)
+      await closed
+    })
+  })
+
+  describe('progress', () => {
+    const chunkedResponse = () => {
+      const encoder = new TextEncoder()
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode('hello'))
+          controller.enqueue(encoder.encode(' world'))
+          controller.close()
+        }
+      })
+      return new Response(body, { headers: { 'Content-Type': 'text/plain', 'Content-Length': '11' } })
+    }
+
+    it('should report download progress per chunk when requested', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(chunkedResponse()).mockResolvedValueOnce(chunkedResponse())
+      const { scope, send } = await loadWorker({ strategy: createStrategy() })
+
+      await send({ type: MSG.FETCH, id: 'quiet', payload: { url: 'https://api.test/file', options: { requiresAuth: false } } })
+      await send({ type: MSG.FETCH, id: 'p', payload: { url: 'https://api.test/file', options: { requiresAuth: false }, reportDownloadProgress: true } })
+
+      expect(scope.ofType(MSG.PROGRESS)).toEqual([
+        { type: MSG.PROGRESS, id: 'p', payload: { direction: 'download', loaded: 5, total: 11 } },
+        { type: MSG.PROGRESS, id: 'p', payload: { direction: 'download', loaded: 11, total: 11 } }
+      ])
+      expect(scope.ofType(MSG.FETCH_RESULT).map(message => message.payload.body)).toEqual(['hello world', 'hello world'])
+    })
+  })
+
+  describe('event source', () => {
+    const eventStream = (body: string) => new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })
+
+    it('should dispatch events and reconnect with Last-Event-ID until the server stops', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(eventStream('retry: 10\nid: 1\ndata: hi\n\ndata: cut off'))
+        .mockResolvedValueOnce(eventStream('data: again\n\n'))
+        .mockResolvedValueOnce(new Response(null, { status: 204 }))
+      const { scope, send } = await loadWorker({ strategy: createStrategy() })
+
+      await send({ type: MSG.EVENT_SOURCE, id: 'e', payload: { url: 'https://api.test/events', options: { requiresAuth: false } } })
+
+      expect(scope.ofType(MSG.SSE_OPEN)).toHaveLength(2)
+      // Event cut off by the first disconnect is dropped, not merged into the next one
+      expect(scope.ofType(MSG.SSE_EVENT).map(message => message.payload)).toEqual([
+        { type: 'message', data: 'hi', lastEventId: '1' },
+        { type: 'message', data: 'again', lastEventId: '1' }
+      ])
+      expect(scope.ofType(MSG.SSE_ERROR).map(message => message.payload)).toEqual([
+        { message: 'Stream ended', reconnectIn: 10 },
+        { message: 'Stream ended', reconnectIn: 10 },
+        { message: 'HTTP 204', status: 204 }
+      ])
+      const lastEventIds = vi.mocked(fetch).mock.calls.map(([, init]) => new Headers(init?.headers).get('Last-Event-ID'))
+      expect(lastEventIds).toEqual([null, '1', '1'])
+    })
+
+    it('should stop reconnecting on CANCEL', async () => {
+      vi.mocked(fetch).mockImplementation(async () => eventStream('data: hi\n\n'))
+      const { scope, send } = await loadWorker({ strategy: createStrategy() })
+
+      const stream = send({ type: MSG.EVENT_SOURCE, id: 'e', payload: { url: 'https://api.test/events', options: { requiresAuth: false, reconnectDelay: 60_000 } } })
+      await vi.waitFor(() => expect(scope.ofType(MSG.SSE_ERROR)).toHaveLength(1))
+      await send({ type: MSG.CANCEL, id: 'e' })
+      await stream
+
+      expect(fetch).toHaveBeenCalledTimes(1)
+      expect(scope.ofType(MSG.SSE_ERROR)).toHaveLength(1)
+    })
+  })
+
+  describe('offline queue', () => {
+    beforeEach(() => {
+      vi.stubGlobal('indexedDB', createFakeIndexedDB())
+    })
+
+    it('should queue mutations while offline and replay them with the current token when back online', async () => {
+      ;(navigator as { onLine: boolean }).onLine = false
+      const { scope, send } = await loadWorker({ strategy: createStrategy(), config: { offlineQueue: {} } })
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      await send({ type: MSG.FETCH, id: 'post', payload: { url: 'https://api.test/notes', options: { method: 'POST', body: 'draft' } } })
+      const [queued] = scope.ofType(MSG.FETCH_QUEUED)
+      expect(queued).toEqual({ type: MSG.FETCH_QUEUED, id: 'post', payload: { queueId: expect.any(String) } })
+      expect(fetch).not.toHaveBeenCalled()
+
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ id: 1 }, 201))
+      ;(navigator as { onLine: boolean }).onLine = true
+      scope.emit('online')
+
+      await vi.waitFor(() => expect(scope.ofType(MSG.OFFLINE_QUEUE)).toHaveLength(2))
+      expect(scope.ofType(MSG.OFFLINE_QUEUE).map(message => message.payload)).toEqual([
+        { type: 'queued', id: queued.payload.queueId, method: 'POST', url: 'https://api.test/notes', pending: 1 },
+        { type: 'synced', id: queued.payload.queueId, method: 'POST', url: 'https://api.test/notes', pending: 0, status: 201 }
+      ])
+      const [, init] = vi.mocked(fetch).mock.calls[0]
+      expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer a1')
+    })
+
+    it('should queue a mutation that fails with a network error instead of replying FETCH_ERROR', async () => {
+      vi.mocked(fetch).mockRejectedValue(new TypeError('Failed to fetch'))
+      const { scope, send } = await loadWorker({ strategy: createStrategy(), config: { offlineQueue: { retryDelay: 60_000 } } })
+
+      await send({ type: MSG.FETCH, id: 'post', payload: { url: 'https://api.test/notes', options: { method: 'POST', body: 'draft', requiresAuth: false } } })
+      await send({ type: MSG.FETCH, id: 'get', payload: { url: 'https://api.test/notes', options: { requiresAuth: false } } })
+
+      expect(scope.ofType(MSG.FETCH_QUEUED).map(message => message.id)).toEqual(['post'])
+      // Reads are never queued
+      expect(scope.ofType(MSG.FETCH_ERROR).map(message => message.id)).toEqual(['get'])
+    })
+
+    it('should keep queued requests when a refresh fails with nobody signed in', async () => {
+      ;(navigator as { onLine: boolean }).onLine = false
+      const strategy = createStrategy({ refresh: vi.fn(async () => jsonResponse({ error: 'no session' }, 401)) })
+      const { scope, send } = await loadWorker({ strategy, config: { offlineQueue: {} } })
+
+      await send({ type: MSG.FETCH, payload: { url: 'https://api.test/notes', options: { method: 'POST', requiresAuth: false } } })
+      await send({ type: MSG.FETCH, payload: { url: 'https://api.test/me' } })
+
+      expect(scope.ofType(MSG.REFRESH_FAILED)[0].payload).toMatchObject({ definitive: true })
+      expect(scope.ofType(MSG.OFFLINE_QUEUE).map(message => message.payload.type)).toEqual(['queued'])
+    })
+
+    it('should keep sharing queued requests between tabs after a cross-tab logout', async () => {
+      ;(navigator as { onLine: boolean }).onLine = false
+      const options = { strategy: createStrategy(), storage: createMemoryStorage(), config: { crossTabSync: true, offlineQueue: {} } }
+      const tabA = await loadWorker(options)
+      const tabB = await loadWorker(options)
+      await tabA.send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+      await tabB.send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+      await tabA.send({ type: MSG.AUTH_CALL, payload: { method: 'logout', args: [] } })
+      await vi.waitFor(() => expect(tabB.scope.ofType(MSG.CROSS_TAB_LOGOUT)).toHaveLength(1))
+
+      const post = (path: string) => ({ type: MSG.FETCH, payload: { url: `https://api.test/${path}`, options: { method: 'POST', requiresAuth: false } } })
+      await tabB.send(post('b'))
+      await tabA.send(post('a'))
+      ;(navigator as { onLine: boolean }).onLine = true
+      tabA.scope.emit('online')
+
+      // Tab A replays tab B's request too - both switched to the same identity
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2))
+      expect(vi.mocked(fetch).mock.calls.map(([url]) => url)).toEqual(['https://api.test/b', 'https://api.test/a'])
+    })
+  })
+
+  describe('request deadlines', () => {
+    it('should abort the fetch at the deadline and report timedOut', async () => {
+      vi.mocked(fetch).mockImplementation((_input, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      }))
+      const { scope, send } = await loadWorker({ strategy: createStrategy() })
+
+      await send({
+        type: MSG.FETCH,
+        id: 'slow',
+        payload: { url: 'https://api.test/slow', options: { requiresAuth: false }, deadline: Date.now() + 20 }
+      })
+
+      expect(scope.ofType(MSG.FETCH_ERROR)).toEqual([
+        { type: MSG.FETCH_ERROR, id: 'slow', payload: { error: 'Request timed out', timedOut: true } }
+      ])
+    })
+  })
+
+  describe('refresh failures', () => {
+    // Signed in with an access token that already expired - the next request refreshes
+    const createExpiredStrategy = (refresh: AuthStrategy['refresh']) => createStrategy({
+      refresh,
+      login: vi.fn(async () => jsonResponse({ token: 'a1', refreshToken: 'r1', expiresAt: Date.now() - 1000 }))
+    })
+
+    it('should end the session without retrying when the refresh response cannot be parsed', async () => {
+      const refresh = vi.fn(async () => new Response('<html>maintenance</html>', { status: 200 }))
+      const { scope, send } = await loadWorker({ strategy: createExpiredStrategy(refresh) })
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      await send({ type: MSG.FETCH, payload: { url: 'https://api.test/me' } })
+
+      expect(refresh).toHaveBeenCalledTimes(1)
+      expect(scope.ofType(MSG.REFRESH_FAILED).map(message => message.payload)).toEqual([
+        expect.objectContaining({ code: 'TOKEN_REFRESH_FAILED', definitive: true })
+      ])
+      expect(scope.ofType(MSG.SESSION_EXPIRED)).toHaveLength(1)
+    })
+
+    it('should retry transient failures and keep the session when retries run out', async () => {
+      vi.useFakeTimers()
+      const refresh = vi.fn(async () => jsonResponse({ error: 'unavailable' }, 503))
+      const { scope, send } = await loadWorker({ strategy: createExpiredStrategy(refresh) })
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      const request = send({ type: MSG.FETCH, payload: { url: 'https://api.test/me' } })
+      await vi.advanceTimersByTimeAsync(3_000)
+      await request
+
+      expect(refresh).toHaveBeenCalledTimes(3)
+      expect(scope.ofType(MSG.REFRESH_FAILED).map(message => message.payload)).toEqual([
+        expect.objectContaining({ reason: 'expired', status: 503, definitive: false })
+      ])
+      expect(scope.ofType(MSG.SESSION_EXPIRED)).toHaveLength(0)
+
+      // Server is back - same session refreshes
+      refresh.mockResolvedValueOnce(jsonResponse({ token: 'a2', expiresAt: Date.now() + 3_600_000 }))
+      await send({ type: MSG.FETCH, payload: { url: 'https://api.test/me' } })
+      expect(scope.ofType(MSG.FETCH_RESULT)).toHaveLength(1)
+    })
+
+    it('should expire the session once on a definitive failure', async () => {
+      const refresh = vi.fn(async () => jsonResponse({ error: 'revoked' }, 401))
+      const { scope, send } = await loadWorker({ strategy: createExpiredStrategy(refresh) })
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      await send({ type: MSG.FETCH, payload: { url: 'https://api.test/me' } })
+      await send({ type: MSG.FETCH, payload: { url: 'https://api.test/me' } })
+
+      expect(scope.ofType(MSG.REFRESH_FAILED).map(message => message.payload)).toEqual([
+        expect.objectContaining({ status: 401, definitive: true }),
+        expect.objectContaining({ definitive: true })
+      ])
+      expect(scope.ofType(MSG.SESSION_EXPIRED)).toHaveLength(1)
+      expect(scope.ofType(MSG.AUTH_STATE_CHANGED).at(-1)?.payload).toMatchObject({ authenticated: false })
+    })
+  })
+
+  describe('background refresh', () => {
+    it('should pause while every tab is hidden and refresh when one becomes visible', async () => {
+      vi.useFakeTimers()
+      const strategy = createStrategy()
+      const { scope, send } = await loadWorker({ strategy, config: { backgroundRefresh: { enabled: true } } })
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      await send({ type: MSG.VISIBILITY, payload: { hidden: true } })
+      await vi.advanceTimersByTimeAsync(3_600_000)
+      expect(strategy.refresh).not.toHaveBeenCalled()
+
+      await send({ type: MSG.VISIBILITY, payload: { hidden: false } })
+      await vi.advanceTimersByTimeAsync(5_000)
+      expect(strategy.refresh).toHaveBeenCalledTimes(1)
+      expect(scope.ofType(MSG.TOKEN_REFRESHED)[0].payload).toEqual({ reason: 'expired' })
+    })
+
+    it('should try again after a transient failure that kept the session', async () => {
+      vi.useFakeTimers()
+      const strategy = createStrategy()
+      vi.mocked(strategy.refresh)
+        .mockResolvedValueOnce(jsonResponse({ error: 'unavailable' }, 503))
+        .mockResolvedValueOnce(jsonResponse({ error: 'unavailable' }, 503))
+        .mockResolvedValueOnce(jsonResponse({ error: 'unavailable' }, 503))
+      const { scope, send } = await loadWorker({ strategy, config: { backgroundRefresh: { enabled: true } } })
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      // Refresh window opens 60s before expiry; initial attempt + 2 retries all fail
+      await vi.advanceTimersByTimeAsync(3_540_000 + 3_000)
+      expect(strategy.refresh).toHaveBeenCalledTimes(3)
+      expect(scope.ofType(MSG.REFRESH_FAILED)[0].payload).toMatchObject({ definitive: false })
+
+      await vi.advanceTimersByTimeAsync(5_000)
+      expect(strategy.refresh).toHaveBeenCalledTimes(4)
+      expect(scope.ofType(MSG.TOKEN_REFRESHED)).toHaveLength(1)
+      expect(scope.ofType(MSG.AUTH_STATE_CHANGED).at(-1)?.payload).toMatchObject({ authenticated: true })
+    })
+  })
+
+  describe('server clock', () => {
+    it('should judge token expiry in server time after a Date header shows skew', async () => {
+      // Server clock is 2h behind - its 1h token looks expired on the local clock
+      const serverNow = () => Date.now() - 7_200_000
+      vi.mocked(fetch).mockImplementation(async () => new Response('{}', { headers: { Date: new Date(serverNow()).toUTCString() } }))
+      const strategy = createStrategy({
+        login: vi.fn(async () => jsonResponse({ token: 'a1', refreshToken: 'r1', expiresAt: serverNow() + 3_600_000 }))
+      })
+      const { scope, send } = await loadWorker({ strategy })
+
+      await send({ type: MSG.FETCH, payload: { url: 'https://api.test/time', options: { requiresAuth: false } } })
+      const [skew] = scope.ofType(MSG.CLOCK_SKEW)
+      expect(Math.abs(skew.payload.skewMs + 7_200_000)).toBeLessThan(2000)
+
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+      await send({ type: MSG.FETCH, payload: { url: 'https://api.test/me' } })
+
+      expect(strategy.refresh).not.toHaveBeenCalled()
+      // Main thread gets expiry on its own clock
+      const { authenticated, expiresAt } = scope.ofType(MSG.AUTH_STATE_CHANGED).at(-1)!.payload
+      expect(authenticated).toBe(true)
+      expect(Math.abs(expiresAt - (Date.now() + 3_600_000))).toBeLessThan(2000)
+    })
+  })
+
+  describe('shared mode', () => {
+    it('should share token state between tabs that set up with the same config', async () => {
+      const options = { strategy: createStrategy() }
+      const worker = await loadSharedWorker(options)
+      const tab1 = worker.connect()
+      const tab2 = worker.connect()
+
+      await tab1.send(setupMessage(options))
+      await tab1.send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+      await tab2.send(setupMessage(options))
+      await tab2.send({ type: MSG.FETCH, id: 'f', payload: { url: 'https://api.test/me' } })
+
+      expect(tab2.port.ofType(MSG.READY)).toHaveLength(1)
+      expect(tab2.port.ofType(MSG.AUTH_STATE_CHANGED).at(-1)?.payload).toMatchObject({ authenticated: true })
+      expect(tab2.port.ofType(MSG.FETCH_RESULT)).toHaveLength(1)
+      const [, init] = vi.mocked(fetch).mock.calls[0]
+      expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer a1')
+    })
+
+    it('should reject a tab that sets up with a different config', async () => {
+      const options = { strategy: createStrategy() }
+      const worker = await loadSharedWorker(options)
+      const tab1 = worker.connect()
+      const tab2 = worker.connect()
+
+      await tab1.send(setupMessage(options))
+      await tab2.send(setupMessage({ ...options, config: { allowedDomains: ['api.other.test'] } }))
+
+      expect(tab2.port.ofType(MSG.READY)).toHaveLength(0)
+      expect(tab2.port.ofType(MSG.SETUP_ERROR)).toHaveLength(1)
+    })
+
+    it('should abort in-flight requests of a tab that sent DISCONNECT', async () => {
+      vi.mocked(fetch).mockImplementation((_input, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      }))
+      const options = { strategy: createStrategy() }
+      const worker = await loadSharedWorker(options)
+      const tab1 = worker.connect()
+      const tab2 = worker.connect()
+      await tab1.send(setupMessage(options))
+      await tab2.send(setupMessage(options))
+
+      const inFlight = tab1.send({ type: MSG.FETCH, id: 'f', payload: { url: 'https://api.test/a', options: { requiresAuth: false } } })
+      const other = tab2.send({ type: MSG.FETCH, id: 'f', payload: { url: 'https://api.test/b', options: { requiresAuth: false } } })
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2))
+      await tab2.send({ type: MSG.DISCONNECT })
+      await other
+
+      // Request ids are per tab - the other tab's 'f' keeps running
+      expect(tab2.port.ofType(MSG.FETCH_ERROR)).toHaveLength(1)
+      expect(tab1.port.ofType(MSG.FETCH_ERROR)).toHaveLength(0)
+      await tab1.send({ type: MSG.CANCEL, id: 'f' })
+      await inFlight
+      expect(tab1.port.ofType(MSG.FETCH_ERROR)).toHaveLength(1)
+    })
+
+    it('should release the port of a tab that closed without DISCONNECT', async () => {
+      vi.mocked(fetch).mockImplementation((_input, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      }))
+      const options = { strategy: createStrategy() }
+      const worker = await loadSharedWorker(options)
+      const tab1 = worker.connect()
+      const tab2 = worker.connect()
+      await tab1.send(setupMessage(options))
+      await tab2.send(setupMessage(options))
+
+      const inFlight = tab2.send({ type: MSG.FETCH, id: 'f', payload: { url: 'https://api.test/slow', options: { requiresAuth: false } } })
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1))
+      tab2.port.close()
+      await inFlight
+
+      // Its request was aborted, and later broadcasts only reach open tabs
+      const postedBefore = tab2.port.posted.length
+      await tab1.send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+      expect(tab1.port.ofType(MSG.AUTH_STATE_CHANGED)).not.toHaveLength(0)
+      expect(tab2.port.posted).toHaveLength(postedBefore)
+    })
+  })
+
+  describe('401 recovery', () => {
+    const createOptions = () => ({ strategy: createStrategy(), config: { unauthorizedRecovery: { enabled: true } } })
+    const fetchCalls = () => vi.mocked(fetch).mock.calls.map(([, init]) => new Headers(init?.headers).get('Authorization'))
+
+    it('should refresh and replay once when the server rejects the token', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(jsonResponse({ error: 'revoked' }, 401))
+        .mockResolvedValueOnce(jsonResponse({ error: 'still rejected' }, 401))
+      const options = createOptions()
+      const { scope, send } = await loadWorker(options)
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      await send({ type: MSG.FETCH, id: 'f', payload: { url: 'https://api.test/me' } })
+
+      expect(options.strategy.refresh).toHaveBeenCalledTimes(1)
+      expect(fetchCalls()).toEqual(['Bearer a1', 'Bearer refreshed'])
+      // Replayed once only - second 401 is returned as-is
+      expect(scope.ofType(MSG.FETCH_RESULT)[0].payload.status).toBe(401)
+      expect(scope.ofType(MSG.TOKEN_REFRESHED)[0].payload).toEqual({ reason: 'unauthorized' })
+    })
+
+    it('should return the original 401 when refresh fails', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ error: 'revoked' }, 401))
+      const options = createOptions()
+      vi.mocked(options.strategy.refresh).mockResolvedValueOnce(jsonResponse({ error: 'expired' }, 401))
+      const { scope, send } = await loadWorker(options)
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      await send({ type: MSG.FETCH, id: 'f', payload: { url: 'https://api.test/me' } })
+
+      expect(fetchCalls()).toEqual(['Bearer a1'])
+      expect(scope.ofType(MSG.FETCH_RESULT)[0].payload.status).toBe(401)
+      expect(scope.ofType(MSG.SESSION_EXPIRED)).toHaveLength(1)
+    })
+
+    it('should not replay a stream body', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ error: 'revoked' }, 401))
+      const options = createOptions()
+      const { scope, send } = await loadWorker(options)
+      await send({ type: MSG.AUTH_CALL, payload: { method: 'login', args: [{}] } })
+
+      const body = new ReadableStream({ start: controller => controller.close() })
+      await send({ type: MSG.FETCH, id: 'f', payload: { url: 'https://api.test/upload', options: { method: 'PUT', body } } })
+
+      expect(fetchCalls()).toEqual(['Bearer a1'])
+      expect(options.strategy.refresh).not.toHaveBeenCalled()
+      expect(scope.ofType(MSG.FETCH_RESULT)[0].payload.status).toBe(401)
+    })
+  })
+})
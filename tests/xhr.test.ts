@@ -0,0 +1,120 @@
+/**
+ * XHR fetch tests
+ *
+ * Tests fetchWithUploadProgress against a fake XMLHttpRequest
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { fetchWithUploadProgress } from '../src/utils/xhr'
+
+class FakeXhr {
+  static last: FakeXhr
+  method = ''
+  url = ''
+  status = 0
+  statusText = ''
+  response: ArrayBuffer | null = null
+  responseType = ''
+  withCredentials = false
+  requestHeaders: Record<string, string> = {}
+  body: unknown
+  rawHeaders = ''
+  upload: { onprogress: ((event: ProgressEvent) => void) | null } = { onprogress: null }
+  onload: (() => void) | null = null
+  onerror: (() => void) | null = null
+  ontimeout: (() => void) | null = null
+  onabort: (() => void) | null = null
+
+  constructor() {
+    FakeXhr.last = this
+  }
+
+  open(method: string, url: string) {
+    this.method = method
+    this.url = url
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.requestHeaders[name] = value
+  }
+
+  getAllResponseHeaders() {
+    return this.rawHeaders
+  }
+
+  send(body: unknown) {
+    this.body = body
+  }
+
+  abort() {
+    this.onabort?.()
+  }
+
+  respond(status: number, text: string, rawHeaders = '') {
+    this.status = status
+    this.rawHeaders = rawHeaders
+    this.response = new TextEncoder().encode(text).buffer as ArrayBuffer
+    this.onload?.()
+  }
+}
+
+describe('fetchWithUploadProgress', () => {
+  beforeEach(() => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should send request and resolve to Response', async () => {
+    const promise = fetchWithUploadProgress('https://api.example.com/upload', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer t' },
+      body: 'payload',
+      credentials: 'include'
+    }, vi.fn())
+
+    const xhr = FakeXhr.last
+    expect(xhr.method).toBe('POST')
+    expect(xhr.requestHeaders['authorization']).toBe('Bearer t')
+    expect(xhr.withCredentials).toBe(true)
+    expect(xhr.body).toBe('payload')
+
+    xhr.respond(201, '{"id":1}', 'Content-Type: application/json\r\n')
+    const response = await promise
+
+    expect(response.status).toBe(201)
+    expect(response.headers.get('content-type')).toBe('application/json')
+    expect(await response.text()).toBe('{"id":1}')
+  })
+
+  it('should report upload progress', async () => {
+    const onProgress = vi.fn()
+    const promise = fetchWithUploadProgress('https://api.example.com/upload', { method: 'POST', body: 'x' }, onProgress)
+    const xhr = FakeXhr.last
+
+    xhr.upload.onprogress?.({ loaded: 50, total: 100, lengthComputable: true } as ProgressEvent)
+    xhr.upload.onprogress?.({ loaded: 70, total: 0, lengthComputable: false } as ProgressEvent)
+    xhr.respond(204, '')
+    await promise
+
+    expect(onProgress).toHaveBeenNthCalledWith(1, { loaded: 50, total: 100 })
+    expect(onProgress).toHaveBeenNthCalledWith(2, { loaded: 70, total: null })
+  })
+
+  it('should reject with TypeError on network failure', async () => {
+    const promise = fetchWithUploadProgress('https://api.example.com/upload', {}, vi.fn())
+    FakeXhr.last.onerror?.()
+
+    await expect(promise).rejects.toBeInstanceOf(TypeError)
+  })
+
+  it('should abort XHR when signal aborts', async () => {
+    const controller = new AbortController()
+    const promise = fetchWithUploadProgress('https://api.example.com/upload', { signal: controller.signal }, vi.fn())
+
+    controller.abort()
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
@@ -3,7 +3,9 @@ import { defineConfig } from "tsup"
 export default defineConfig({
   entry: {
     index: "src/index.ts",
-    worker: "src/worker.ts"
+    worker: "src/worker.ts",
+    codegen: "src/codegen/index.ts",
+    cli: "src/cli.ts"
   },
   format: ["esm"],
   dts: true,